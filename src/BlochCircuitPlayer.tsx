@@ -0,0 +1,164 @@
+'use client';
+
+import React, { useEffect, useRef } from 'react';
+import type { BlochCircuitPlayerProps, QuantumState } from './types';
+import { BlochSphere } from './BlochSphere';
+import { useCircuitPlayback } from './hooks/useCircuitPlayback';
+import { commonStates } from './utils/quantum-math';
+
+const defaultInitialState: QuantumState = {
+  type: 'spherical',
+  coords: commonStates.zero,
+};
+
+const buttonStyle: React.CSSProperties = {
+  padding: '4px 10px',
+  fontSize: 13,
+  cursor: 'pointer',
+  backgroundColor: '#333',
+  color: '#ffffff',
+  border: 'none',
+  borderRadius: 4,
+};
+
+/**
+ * BlochSphere that plays a sequence of single-qubit gates one at a time,
+ * with play/pause, stepping, a scrubbable timeline and the gate-by-gate
+ * path drawn as its trajectory
+ */
+export function BlochCircuitPlayer({
+  gates,
+  initialState = defaultInitialState,
+  gateDuration,
+  loop,
+  autoPlay,
+  showGateAxis = true,
+  showControls = true,
+  onGateChange,
+  trajectory = {},
+  width = 400,
+  ...sphereProps
+}: BlochCircuitPlayerProps) {
+  const playback = useCircuitPlayback(gates, initialState, {
+    gateDuration,
+    loop,
+    autoPlay,
+  });
+  const { activeIndex, activeGate, steps } = playback;
+
+  const onGateChangeRef = useRef(onGateChange);
+  onGateChangeRef.current = onGateChange;
+  const reportedIndexRef = useRef(activeIndex);
+  useEffect(() => {
+    if (reportedIndexRef.current === activeIndex) return;
+    reportedIndexRef.current = activeIndex;
+    onGateChangeRef.current?.(activeIndex, activeGate);
+  }, [activeIndex, activeGate]);
+
+  // Show the rotation axis only while a gate is being applied
+  const gateAxis =
+    showGateAxis && activeIndex >= 0 && playback.progress < 1
+      ? steps[activeIndex].rotation.axis
+      : undefined;
+
+  return (
+    <div style={{ display: 'inline-flex', flexDirection: 'column', gap: 8 }}>
+      <BlochSphere
+        {...sphereProps}
+        width={width}
+        state={playback.state}
+        history={playback.history}
+        fieldVector={gateAxis}
+        animation={{ enabled: false }}
+        trajectory={{
+          enabled: true,
+          ...trajectory,
+          // The history is the whole circuit path; never truncate it. Sized
+          // for the whole circuit up front, as resizing starts a new buffer.
+          maxPoints: Math.max(trajectory.maxPoints ?? 0, playback.pathLength),
+        }}
+      />
+
+      {showControls && (
+        <div
+          style={{
+            width,
+            display: 'flex',
+            flexDirection: 'column',
+            gap: 6,
+            color: '#ffffff',
+            fontFamily: 'monospace',
+            fontSize: 12,
+          }}
+        >
+          <div style={{ display: 'flex', gap: 4, alignItems: 'center' }}>
+            <button
+              onClick={playback.reset}
+              style={buttonStyle}
+              aria-label="Reset"
+            >
+              ⏮
+            </button>
+            <button
+              onClick={playback.stepBack}
+              style={buttonStyle}
+              aria-label="Step back"
+            >
+              ◀
+            </button>
+            <button
+              onClick={playback.playing ? playback.pause : playback.play}
+              style={buttonStyle}
+              aria-label={playback.playing ? 'Pause' : 'Play'}
+            >
+              {playback.playing ? '⏸' : '▶'}
+            </button>
+            <button
+              onClick={playback.stepForward}
+              style={buttonStyle}
+              aria-label="Step forward"
+            >
+              ▶|
+            </button>
+            <label style={{ display: 'flex', gap: 4, alignItems: 'center' }}>
+              <input
+                type="checkbox"
+                checked={playback.loop}
+                onChange={(e) => playback.setLoop(e.target.checked)}
+              />
+              loop
+            </label>
+            <input
+              type="range"
+              aria-label="Timeline"
+              min={0}
+              max={playback.duration}
+              step={1}
+              value={playback.time}
+              onChange={(e) => playback.seek(Number(e.target.value))}
+              style={{ flex: 1 }}
+            />
+          </div>
+
+          <div style={{ display: 'flex', flexWrap: 'wrap', gap: 4 }}>
+            {steps.map((step, index) => (
+              <button
+                key={index}
+                onClick={() => playback.seekToGate(index)}
+                style={{
+                  ...buttonStyle,
+                  padding: '2px 8px',
+                  backgroundColor: index === activeIndex ? '#ffcc00' : '#333',
+                  color: index === activeIndex ? '#000000' : '#ffffff',
+                  opacity: index <= activeIndex ? 1 : 0.6,
+                }}
+              >
+                {step.gate.name}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,8 +1,41 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import type { Meta, StoryObj } from '@storybook/react';
 import { BlochSphere } from './BlochSphere';
-import type { QuantumState, SphericalCoordinates } from './types';
-import { commonStates } from './utils/quantum-math';
+import { BlochCircuitPlayer } from './BlochCircuitPlayer';
+import { BlochSphereSvg } from './BlochSphereSvg';
+import { BlochSphereGrid } from './BlochSphereGrid';
+import { MultiQubitBlochSphere } from './MultiQubitBlochSphere';
+import { BlochSphereScene } from './BlochSphereScene';
+import { Canvas } from '@react-three/fiber';
+import { OrbitControls } from '@react-three/drei';
+import type {
+  BlochSphereHandle,
+  CameraState,
+  CoordinateConvention,
+  Easing,
+  Gate,
+  MultiQubitState,
+  QuantumState,
+  SphericalCoordinates,
+  TomographyMethod,
+} from './types';
+import { commonStates, sphericalToCartesian } from './utils/quantum-math';
+import { complex } from './utils/complex';
+import { commonGates, applyGateToSpherical, rx } from './utils/gates';
+import { createRng, measurementBases, sampleMeasurements } from './utils/measurement';
+import { tomography } from './utils/tomography';
+import { fidelity } from './utils/metrics';
+import { parseQasm } from './utils/qasm';
+import { useMeasurement, useTimeEvolution, useTimeSeriesPlayback } from './hooks';
+import { parseTimeSeries } from './utils/timeseries';
+import { drivenHamiltonian } from './utils/time-evolution';
+import {
+  amplitudeDampingChannel,
+  bitFlipChannel,
+  depolarizingChannel,
+  pauliChannel,
+  phaseFlipChannel,
+} from './utils/channels';
 
 const meta: Meta<typeof BlochSphere> = {
   title: 'Components/BlochSphere',
@@ -62,6 +95,65 @@ export const WithAmplitudes: Story = {
   },
 };
 
+// Mixed state given as a Bloch vector inside the ball
+export const MixedState: Story = {
+  args: {
+    state: { type: 'blochVector', vector: { x: 0.4, y: 0.2, z: 0.3 } },
+    width: 500,
+    height: 500,
+  },
+};
+
+// Mixed state given as a density matrix
+export const WithDensityMatrix: Story = {
+  args: {
+    state: {
+      type: 'densityMatrix',
+      matrix: [
+        [
+          { real: 0.75, imag: 0 },
+          { real: 0.2, imag: -0.1 },
+        ],
+        [
+          { real: 0.2, imag: 0.1 },
+          { real: 0.25, imag: 0 },
+        ],
+      ],
+    },
+    width: 500,
+    height: 500,
+  },
+};
+
+// Several labelled states compared on one sphere
+export const MultipleStates: Story = {
+  args: {
+    state: [
+      {
+        id: 'ideal',
+        label: 'ideal',
+        state: { type: 'spherical', coords: commonStates.plus },
+      },
+      {
+        id: 'noisy',
+        label: 'noisy',
+        state: { type: 'blochVector', vector: { x: 0.7, y: 0.15, z: 0.25 } },
+      },
+      {
+        id: 'target',
+        label: 'target',
+        state: { type: 'spherical', coords: { theta: Math.PI / 3, phi: 0.3 } },
+      },
+    ],
+    comparisons: [
+      ['ideal', 'noisy'],
+      ['ideal', 'target'],
+    ],
+    width: 500,
+    height: 500,
+  },
+};
+
 // Custom styling
 export const CustomStyling: Story = {
   args: {
@@ -173,6 +265,1193 @@ export const Interactive: Story = {
   render: () => <InteractiveDemo />,
 };
 
+// Easing curves, steps and springs; click quickly to retarget a spring mid-flight
+const easings: [string, Easing][] = [
+  ['easeInOut', 'easeInOut'],
+  ['back out', 'cubic-bezier(0.34, 1.56, 0.64, 1)'],
+  ['steps(6)', 'steps(6)'],
+  ['quartic', (t: number) => 1 - (1 - t) ** 4],
+  ['spring', { type: 'spring' }],
+  ['wobbly spring', { type: 'spring', stiffness: 180, damping: 8 }],
+];
+
+function EasingDemo() {
+  const [easingIndex, setEasingIndex] = useState(4);
+  const [coords, setCoords] = useState<SphericalCoordinates>(commonStates.zero);
+  const targets = [commonStates.zero, commonStates.plus, commonStates.plusI, commonStates.one];
+
+  const buttonStyle = {
+    padding: '0.5rem 1rem',
+    fontSize: '0.875rem',
+    cursor: 'pointer',
+    backgroundColor: '#333',
+    color: 'white',
+    border: 'none',
+    borderRadius: '4px',
+  };
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', gap: '1rem' }}>
+      <BlochSphere
+        state={{ type: 'spherical', coords }}
+        width={500}
+        height={500}
+        animation={{ duration: 800, easing: easings[easingIndex][1] }}
+        trajectory={{ enabled: true, record: true, fadeOpacity: true, maxPoints: 200 }}
+      />
+      <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap', justifyContent: 'center' }}>
+        {easings.map(([name], i) => (
+          <button
+            key={name}
+            onClick={() => setEasingIndex(i)}
+            style={{ ...buttonStyle, backgroundColor: i === easingIndex ? '#4a90d9' : '#333' }}
+          >
+            {name}
+          </button>
+        ))}
+      </div>
+      <div style={{ display: 'flex', gap: '0.5rem' }}>
+        {targets.map((target, i) => (
+          <button key={i} onClick={() => setCoords(target)} style={buttonStyle}>
+            {['|0⟩', '|+⟩', '|+i⟩', '|1⟩'][i]}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export const Easings: Story = {
+  render: () => <EasingDemo />,
+};
+
+// A dozen spheres animating at once; the page re-renders only on progress
+function DashboardDemo() {
+  const [seed, setSeed] = useState(0);
+  const [running, setRunning] = useState(true);
+  const [progress, setProgress] = useState(1);
+  const renders = useRef(0);
+  renders.current += 1;
+
+  useEffect(() => {
+    if (!running) return;
+    const id = setInterval(() => setSeed((s) => s + 1), 1200);
+    return () => clearInterval(id);
+  }, [running]);
+
+  // Deterministic pseudo-random target per sphere and round
+  const target = (index: number): SphericalCoordinates => {
+    const random = createRng(seed * 31 + index);
+    return { theta: Math.acos(1 - 2 * random()), phi: 2 * Math.PI * random() };
+  };
+
+  const buttonStyle = {
+    padding: '0.5rem 1rem',
+    fontSize: '0.875rem',
+    cursor: 'pointer',
+    backgroundColor: '#333',
+    color: 'white',
+    border: 'none',
+    borderRadius: '4px',
+  };
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', gap: '1rem' }}>
+      <div style={{ display: 'grid', gridTemplateColumns: 'repeat(4, 180px)', gap: '0.5rem' }}>
+        {Array.from({ length: 12 }, (_, i) => (
+          <BlochSphere
+            key={i}
+            state={{ type: 'spherical', coords: target(i) }}
+            width={180}
+            height={180}
+            style={{ showLabels: false }}
+            animation={{ duration: 1000, progressInterval: 100 }}
+            onAnimationProgress={i === 0 ? (_, p) => setProgress(p) : undefined}
+          />
+        ))}
+      </div>
+      <div style={{ display: 'flex', gap: '1rem', alignItems: 'center', color: 'white', fontFamily: 'monospace' }}>
+        <button onClick={() => setRunning((r) => !r)} style={buttonStyle}>
+          {running ? 'Pause' : 'Resume'}
+        </button>
+        <span>progress {(progress * 100).toFixed(0)}%</span>
+        <span>page renders {renders.current}</span>
+      </div>
+    </div>
+  );
+}
+
+export const Dashboard: Story = {
+  render: () => <DashboardDemo />,
+};
+
+// 30 spheres drawn through one WebGL context, rendering on demand
+function SphereGridDemo() {
+  const [seed, setSeed] = useState(0);
+  const [linked, setLinked] = useState(true);
+
+  const target = (index: number): SphericalCoordinates => {
+    const random = createRng(seed * 31 + index);
+    return { theta: Math.acos(1 - 2 * random()), phi: 2 * Math.PI * random() };
+  };
+
+  const buttonStyle = {
+    padding: '0.5rem 1rem',
+    fontSize: '0.875rem',
+    cursor: 'pointer',
+    backgroundColor: '#333',
+    color: 'white',
+    border: 'none',
+    borderRadius: '4px',
+  };
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', gap: '1rem' }}>
+      <BlochSphereGrid columns={6} gap="0.5rem" linkCameras={linked}>
+        {Array.from({ length: 30 }, (_, i) => (
+          <BlochSphere
+            key={i}
+            state={{ type: 'spherical', coords: target(i) }}
+            width={140}
+            height={140}
+            style={{ showLabels: false, backgroundColor: '#111122' }}
+            animation={{ duration: 1000 }}
+          />
+        ))}
+      </BlochSphereGrid>
+      <div style={{ display: 'flex', gap: '0.5rem' }}>
+        <button onClick={() => setSeed((s) => s + 1)} style={buttonStyle}>
+          New states
+        </button>
+        <button onClick={() => setLinked((l) => !l)} style={buttonStyle}>
+          {linked ? 'Unlink cameras' : 'Link cameras'}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export const SphereGrid: Story = {
+  render: () => <SphereGridDemo />,
+};
+
+// Reduced single-qubit states of 3-qubit states; entanglement shrinks them
+function MultiQubitDemo() {
+  const s = 1 / Math.sqrt(3);
+  const presets: Record<string, number[]> = {
+    product: [1, 0, 0, 0, 0, 0, 0, 0],
+    GHZ: [Math.SQRT1_2, 0, 0, 0, 0, 0, 0, Math.SQRT1_2],
+    W: [0, s, s, 0, s, 0, 0, 0],
+  };
+  const [preset, setPreset] = useState<string | null>('product');
+  // cos(t/2)|000⟩ + sin(t/2)|110⟩: entangles qubits 0 and 1 gradually
+  const [angle, setAngle] = useState(0);
+
+  const amplitudes = preset
+    ? presets[preset]
+    : [Math.cos(angle / 2), 0, 0, 0, 0, 0, Math.sin(angle / 2), 0];
+  const state: MultiQubitState = {
+    type: 'statevector',
+    amplitudes: amplitudes.map((a) => complex(a)),
+  };
+
+  const buttonStyle = {
+    padding: '0.5rem 1rem',
+    fontSize: '0.875rem',
+    cursor: 'pointer',
+    backgroundColor: '#333',
+    color: 'white',
+    border: 'none',
+    borderRadius: '4px',
+  };
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', gap: '1rem' }}>
+      <MultiQubitBlochSphere state={state} size={220} animation={{ duration: 600, mode: 'collapse' }} />
+      <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center', color: 'white' }}>
+        {Object.keys(presets).map((name) => (
+          <button key={name} onClick={() => setPreset(name)} style={buttonStyle}>
+            {name}
+          </button>
+        ))}
+        <label>
+          entangle q0, q1
+          <input
+            type="range"
+            min={0}
+            max={Math.PI}
+            step={0.01}
+            value={angle}
+            onChange={(e) => {
+              setPreset(null);
+              setAngle(Number(e.target.value));
+            }}
+          />
+        </label>
+      </div>
+    </div>
+  );
+}
+
+export const MultiQubit: Story = {
+  render: () => <MultiQubitDemo />,
+};
+
+// The sphere as one object of a larger scene, with a marker in Bloch coordinates
+function EmbeddedSceneDemo() {
+  const [coords, setCoords] = useState<SphericalCoordinates>({ theta: Math.PI / 3, phi: 0 });
+  const [target, setTarget] = useState<SphericalCoordinates>(commonStates.plus);
+
+  const buttonStyle = {
+    padding: '0.5rem 1rem',
+    fontSize: '0.875rem',
+    cursor: 'pointer',
+    backgroundColor: '#333',
+    color: 'white',
+    border: 'none',
+    borderRadius: '4px',
+  };
+
+  const marker = sphericalToCartesian(target);
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', gap: '1rem' }}>
+      <div style={{ width: 700, height: 450, background: '#111122' }}>
+        <Canvas camera={{ position: [0, 3, 6], fov: 45 }}>
+          <ambientLight intensity={0.5} />
+          <directionalLight position={[3, 6, 4]} intensity={0.9} />
+          <OrbitControls makeDefault />
+
+          {/* Optical table with an ion trap */}
+          <mesh position={[0, -1.05, 0]}>
+            <boxGeometry args={[6, 0.1, 3]} />
+            <meshStandardMaterial color="#555566" />
+          </mesh>
+          <mesh position={[-2, -0.4, 0]}>
+            <cylinderGeometry args={[0.4, 0.5, 1.2, 24]} />
+            <meshStandardMaterial color="#aa8844" metalness={0.6} roughness={0.3} />
+          </mesh>
+
+          <BlochSphereScene
+            position={[1, 0.2, 0]}
+            scale={0.9}
+            state={{ type: 'spherical', coords }}
+            interaction={{ editable: true }}
+            onStateInput={setCoords}
+            style={{ labelSize: 0.12 }}
+          >
+            {/* Target state, placed in Bloch coordinates */}
+            <mesh position={[marker.x, marker.y, marker.z]}>
+              <sphereGeometry args={[0.06, 16, 16]} />
+              <meshStandardMaterial color="#ffcc00" emissive="#ffcc00" emissiveIntensity={0.5} />
+            </mesh>
+          </BlochSphereScene>
+        </Canvas>
+      </div>
+      <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center', color: 'white' }}>
+        <span>target</span>
+        {(['plus', 'plusI', 'one'] as const).map((name) => (
+          <button key={name} onClick={() => setTarget(commonStates[name])} style={buttonStyle}>
+            {name}
+          </button>
+        ))}
+        <span style={{ fontFamily: 'monospace' }}>fidelity {fidelity(coords, target).toFixed(3)}</span>
+      </div>
+    </div>
+  );
+}
+
+export const EmbeddedScene: Story = {
+  render: () => <EmbeddedSceneDemo />,
+};
+
+// Trajectory recorded by the component itself, fading with age
+function RecordedTrajectoryDemo() {
+  const states = [
+    commonStates.zero,
+    commonStates.plus,
+    commonStates.plusI,
+    commonStates.one,
+    commonStates.minus,
+    commonStates.minusI,
+  ];
+  const [index, setIndex] = useState(0);
+  const [resetKey, setResetKey] = useState(0);
+
+  const buttonStyle = {
+    padding: '0.5rem 1rem',
+    fontSize: '0.875rem',
+    cursor: 'pointer',
+    backgroundColor: '#333',
+    color: 'white',
+    border: 'none',
+    borderRadius: '4px',
+  };
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', gap: '1rem' }}>
+      <BlochSphere
+        state={{ type: 'spherical', coords: states[index] }}
+        width={500}
+        height={500}
+        animation={{ duration: 800 }}
+        trajectory={{
+          enabled: true,
+          record: true,
+          maxPoints: 300,
+          fadeOpacity: true,
+          fadeColor: '#4444aa',
+          resetKey,
+        }}
+      />
+      <div style={{ display: 'flex', gap: '0.5rem' }}>
+        <button onClick={() => setIndex((i) => (i + 1) % states.length)} style={buttonStyle}>
+          Next state
+        </button>
+        <button onClick={() => setResetKey((k) => k + 1)} style={buttonStyle}>
+          Clear Trajectory
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export const RecordedTrajectory: Story = {
+  render: () => <RecordedTrajectoryDemo />,
+};
+
+// Long random-walk trajectory streamed through the ref, 1000 points per frame
+function LongTrajectoryDemo() {
+  const sphere = useRef<BlochSphereHandle>(null);
+  const [running, setRunning] = useState(false);
+  const [count, setCount] = useState(0);
+  const [state, setState] = useState<SphericalCoordinates>(commonStates.plus);
+  // Walk position and count, kept across pauses
+  const walkRef = useRef({ current: state, total: 0 });
+
+  useEffect(() => {
+    if (!running) return;
+    const random = createRng(walkRef.current.total + 7);
+    let frame = requestAnimationFrame(function tick() {
+      const walk = walkRef.current;
+      const batch: SphericalCoordinates[] = [];
+      for (let i = 0; i < 1000; i++) {
+        const { theta, phi } = walk.current;
+        walk.current = {
+          theta: Math.min(Math.PI, Math.max(0, theta + (random() - 0.5) * 0.01)),
+          phi: phi + 0.002 + (random() - 0.5) * 0.01,
+        };
+        batch.push(walk.current);
+      }
+      sphere.current?.appendTrajectory(batch);
+      walk.total += batch.length;
+      setCount(walk.total);
+      setState(walk.current);
+      if (walk.total < 100_000) frame = requestAnimationFrame(tick);
+      else setRunning(false);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [running]);
+
+  const buttonStyle = {
+    padding: '0.5rem 1rem',
+    fontSize: '0.875rem',
+    cursor: 'pointer',
+    backgroundColor: '#333',
+    color: 'white',
+    border: 'none',
+    borderRadius: '4px',
+  };
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', gap: '1rem' }}>
+      <BlochSphere
+        ref={sphere}
+        state={{ type: 'spherical', coords: state }}
+        width={500}
+        height={500}
+        animation={{ enabled: false }}
+        trajectory={{
+          enabled: true,
+          maxPoints: 100_000,
+          decimation: 0.002,
+          fadeOpacity: true,
+          fadeColor: '#4444aa',
+        }}
+      />
+      <div style={{ display: 'flex', gap: '0.5rem' }}>
+        <button onClick={() => setRunning((r) => !r)} style={buttonStyle}>
+          {running ? 'Pause' : 'Stream'}
+        </button>
+        <button
+          onClick={() => {
+            sphere.current?.clearTrajectory();
+            walkRef.current.total = 0;
+            setCount(0);
+          }}
+          style={buttonStyle}
+        >
+          Clear Trajectory
+        </button>
+      </div>
+      <span style={{ color: 'white', fontFamily: 'monospace' }}>{count} points appended</span>
+    </div>
+  );
+}
+
+export const LongTrajectory: Story = {
+  render: () => <LongTrajectoryDemo />,
+};
+
+// Gates animated as rotations about their own axis
+function GateRotationDemo() {
+  const gateButtons: Gate[] = [
+    commonGates.X,
+    commonGates.Y,
+    commonGates.Z,
+    commonGates.H,
+    commonGates.S,
+    commonGates.T,
+  ];
+
+  const [coords, setCoords] = useState<SphericalCoordinates>(
+    commonStates.plusI
+  );
+  const [gate, setGate] = useState<Gate>(commonGates.I);
+  const [history, setHistory] = useState<SphericalCoordinates[]>([]);
+
+  const applyGate = (g: Gate) => {
+    setGate(g);
+    setCoords((prev) => applyGateToSpherical(g, prev));
+  };
+
+  const handleStateChange = useCallback((state: SphericalCoordinates) => {
+    setHistory((prev) => [...prev.slice(-199), state]);
+  }, []);
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', gap: '1rem' }}>
+      <BlochSphere
+        state={{ type: 'spherical', coords }}
+        width={500}
+        height={500}
+        animation={{ duration: 1000, mode: 'rotation', rotation: gate }}
+        trajectory={{ enabled: true, maxPoints: 200 }}
+        history={history}
+        onStateChange={handleStateChange}
+      />
+      <div style={{ display: 'flex', gap: '0.5rem' }}>
+        {gateButtons.map((g) => (
+          <button
+            key={g.name}
+            onClick={() => applyGate(g)}
+            style={{
+              padding: '0.5rem 1rem',
+              fontSize: '1rem',
+              cursor: 'pointer',
+              backgroundColor: '#333',
+              color: 'white',
+              border: 'none',
+              borderRadius: '4px',
+            }}
+          >
+            {g.name}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export const GateRotation: Story = {
+  render: () => <GateRotationDemo />,
+};
+
+// Drag the arrowhead to set the state
+function EditableDemo() {
+  const [coords, setCoords] = useState<SphericalCoordinates>(
+    commonStates.zero
+  );
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', gap: '1rem' }}>
+      <BlochSphere
+        state={{ type: 'spherical', coords }}
+        width={500}
+        height={500}
+        interaction={{
+          editable: true,
+          snapToCommonStates: true,
+          snapGrid: { theta: Math.PI / 12, phi: Math.PI / 12 },
+        }}
+        onStateInput={(state) => setCoords(state)}
+      />
+      <div style={{ color: 'white', fontFamily: 'monospace' }}>
+        θ = {coords.theta.toFixed(3)}, φ = {coords.phi.toFixed(3)}
+      </div>
+    </div>
+  );
+}
+
+export const Editable: Story = {
+  render: () => <EditableDemo />,
+};
+
+// Measurement with collapse animation and shot statistics
+function MeasurementDemo() {
+  const prepared: SphericalCoordinates = { theta: Math.PI / 3, phi: Math.PI / 4 };
+  const [coords, setCoords] = useState<SphericalCoordinates>(prepared);
+  const [basis, setBasis] = useState<keyof typeof measurementBases>('Z');
+  const axis = measurementBases[basis];
+  const { measure, measureShots, counts, reset } = useMeasurement({
+    axis,
+    seed: 42,
+  });
+
+  const buttonStyle = {
+    padding: '0.5rem 1rem',
+    fontSize: '0.875rem',
+    cursor: 'pointer',
+    backgroundColor: '#333',
+    color: 'white',
+    border: 'none',
+    borderRadius: '4px',
+  };
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', gap: '1rem' }}>
+      <BlochSphere
+        state={{ type: 'spherical', coords }}
+        width={500}
+        height={500}
+        animation={{ duration: 600, mode: 'collapse' }}
+        measurement={{ axis, showAxis: true, counts, showProbabilities: true }}
+      />
+      <div style={{ display: 'flex', gap: '0.5rem' }}>
+        {(Object.keys(measurementBases) as (keyof typeof measurementBases)[]).map(
+          (b) => (
+            <button
+              key={b}
+              onClick={() => {
+                setBasis(b);
+                reset();
+              }}
+              style={{
+                ...buttonStyle,
+                backgroundColor: b === basis ? '#4a90d9' : '#333',
+              }}
+            >
+              {b} basis
+            </button>
+          )
+        )}
+      </div>
+      <div style={{ display: 'flex', gap: '0.5rem' }}>
+        <button onClick={() => setCoords(measure(coords).postState)} style={buttonStyle}>
+          Measure
+        </button>
+        <button onClick={() => measureShots(prepared, 100)} style={buttonStyle}>
+          100 shots
+        </button>
+        <button
+          onClick={() => {
+            setCoords(prepared);
+            reset();
+          }}
+          style={buttonStyle}
+        >
+          Reset
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export const Measurement: Story = {
+  render: () => <MeasurementDemo />,
+};
+
+// θ/φ arcs, axis projections and expectation values of the animated state
+function AnnotationsDemo() {
+  const [coords, setCoords] = useState<SphericalCoordinates>({ theta: Math.PI / 3, phi: Math.PI / 4 });
+
+  const buttonStyle = {
+    padding: '0.5rem 1rem',
+    fontSize: '0.875rem',
+    cursor: 'pointer',
+    backgroundColor: '#333',
+    color: 'white',
+    border: 'none',
+    borderRadius: '4px',
+  };
+
+  const targets: [string, SphericalCoordinates][] = [
+    ['ψ', { theta: Math.PI / 3, phi: Math.PI / 4 }],
+    ['|+⟩', commonStates.plus],
+    ['|-i⟩', commonStates.minusI],
+    ['|1⟩', commonStates.one],
+    ['mixed', { theta: (2 * Math.PI) / 3, phi: (5 * Math.PI) / 4, r: 0.6 }],
+  ];
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', gap: '1rem' }}>
+      <BlochSphere
+        state={{ type: 'spherical', coords }}
+        width={500}
+        height={500}
+        animation={{ duration: 1000 }}
+        annotations={{ angles: true, projections: true, expectations: true }}
+        interaction={{ editable: true }}
+        onStateInput={setCoords}
+      />
+      <div style={{ display: 'flex', gap: '0.5rem' }}>
+        {targets.map(([label, target]) => (
+          <button key={label} onClick={() => setCoords(target)} style={buttonStyle}>
+            {label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export const Annotations: Story = {
+  render: () => <AnnotationsDemo />,
+};
+
+// Tomography of simulated X/Y/Z counts with a 95% bootstrap ellipsoid
+const tomographyTarget: SphericalCoordinates = { theta: Math.PI / 3, phi: Math.PI / 4 };
+
+function TomographyDemo() {
+  const [shots, setShots] = useState(100);
+  const [method, setMethod] = useState<TomographyMethod>('mle');
+  const [seed, setSeed] = useState(1);
+
+  const result = React.useMemo(() => {
+    const rng = createRng(seed);
+    const counts = {
+      x: sampleMeasurements(tomographyTarget, shots, measurementBases.X, rng),
+      y: sampleMeasurements(tomographyTarget, shots, measurementBases.Y, rng),
+      z: sampleMeasurements(tomographyTarget, shots, measurementBases.Z, rng),
+    };
+    return tomography(counts, { method, bootstrap: 200, seed });
+  }, [shots, method, seed]);
+
+  const buttonStyle = {
+    padding: '0.5rem 1rem',
+    fontSize: '0.875rem',
+    cursor: 'pointer',
+    backgroundColor: '#333',
+    color: 'white',
+    border: 'none',
+    borderRadius: '4px',
+  };
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', gap: '1rem' }}>
+      <BlochSphere
+        state={[
+          { state: { type: 'blochVector', vector: result.vector }, label: 'estimate' },
+          { state: { type: 'spherical', coords: tomographyTarget }, label: 'prepared', color: '#888888' },
+        ]}
+        width={500}
+        height={500}
+        confidenceEllipsoid={result.ellipsoid}
+      />
+      <div style={{ display: 'flex', gap: '0.5rem' }}>
+        {[20, 100, 1000].map((n) => (
+          <button
+            key={n}
+            onClick={() => setShots(n)}
+            style={{ ...buttonStyle, backgroundColor: n === shots ? '#4a90d9' : '#333' }}
+          >
+            {n} shots
+          </button>
+        ))}
+        <button onClick={() => setMethod(method === 'mle' ? 'linear' : 'mle')} style={buttonStyle}>
+          {method === 'mle' ? 'MLE' : 'Linear inversion'}
+        </button>
+        <button onClick={() => setSeed(seed + 1)} style={buttonStyle}>
+          Rerun
+        </button>
+      </div>
+      <span style={{ color: 'white', fontFamily: 'monospace' }}>
+        |r| = {Math.hypot(result.vector.x, result.vector.y, result.vector.z).toFixed(3)}
+        {result.physical ? '' : ' (unphysical)'}, F = {fidelity(result.state, tomographyTarget).toFixed(4)}
+      </span>
+    </div>
+  );
+}
+
+export const Tomography: Story = {
+  render: () => <TomographyDemo />,
+};
+
+// Rabi oscillations under a detuned drive
+function RabiDemo() {
+  const [detuning, setDetuning] = useState(0.5);
+  const hamiltonian = drivenHamiltonian({ amplitude: 2, detuning });
+  const { state, field, time, playing, play, pause, reset, speed, setSpeed } =
+    useTimeEvolution(hamiltonian, { type: 'spherical', coords: commonStates.zero });
+
+  const buttonStyle = {
+    padding: '0.5rem 1rem',
+    fontSize: '0.875rem',
+    cursor: 'pointer',
+    backgroundColor: '#333',
+    color: 'white',
+    border: 'none',
+    borderRadius: '4px',
+  };
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', gap: '1rem' }}>
+      <BlochSphere
+        state={state}
+        fieldVector={field}
+        width={500}
+        height={500}
+        animation={{ enabled: false }}
+        trajectory={{ enabled: true, record: true, maxPoints: 400, fadeOpacity: true }}
+      />
+      <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center', color: 'white' }}>
+        <button onClick={playing ? pause : play} style={buttonStyle}>
+          {playing ? 'Pause' : 'Play'}
+        </button>
+        <button onClick={reset} style={buttonStyle}>
+          Reset
+        </button>
+        <label>
+          speed
+          <input
+            type="range"
+            min={0.1}
+            max={3}
+            step={0.1}
+            value={speed}
+            onChange={(e) => setSpeed(Number(e.target.value))}
+          />
+        </label>
+        <label>
+          Δ
+          <input
+            type="range"
+            min={-3}
+            max={3}
+            step={0.1}
+            value={detuning}
+            onChange={(e) => setDetuning(Number(e.target.value))}
+          />
+        </label>
+        <span style={{ fontFamily: 'monospace' }}>t = {time.toFixed(2)}</span>
+      </div>
+    </div>
+  );
+}
+
+export const RabiOscillations: Story = {
+  render: () => <RabiDemo />,
+};
+
+// T1/T2 relaxation spiralling into the thermal state
+function RelaxationDemo() {
+  const { state, field, time, reset } = useTimeEvolution(
+    { z: 2 },
+    { type: 'spherical', coords: { theta: Math.PI / 2, phi: 0 } },
+    { relaxation: { T1: 6, T2: 3, excitedPopulation: 0.1 } }
+  );
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', gap: '1rem' }}>
+      <BlochSphere
+        state={state}
+        fieldVector={field}
+        width={500}
+        height={500}
+        animation={{ enabled: false }}
+        trajectory={{ enabled: true, record: true, maxPoints: 1000, fadeOpacity: true }}
+      />
+      <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center', color: 'white' }}>
+        <button
+          onClick={reset}
+          style={{
+            padding: '0.5rem 1rem',
+            fontSize: '0.875rem',
+            cursor: 'pointer',
+            backgroundColor: '#333',
+            color: 'white',
+            border: 'none',
+            borderRadius: '4px',
+          }}
+        >
+          Reset
+        </button>
+        <span style={{ fontFamily: 'monospace' }}>t = {time.toFixed(2)}</span>
+      </div>
+    </div>
+  );
+}
+
+export const Relaxation: Story = {
+  render: () => <RelaxationDemo />,
+};
+
+// Noise channels shown as the deformed image of the Bloch sphere
+const channelPresets = {
+  depolarizing: depolarizingChannel,
+  'amplitude damping': amplitudeDampingChannel,
+  'phase flip': phaseFlipChannel,
+  'bit flip': bitFlipChannel,
+  pauli: (p: number) => pauliChannel(p / 2, p / 4, p / 8),
+};
+
+function ChannelDemo() {
+  const [preset, setPreset] = useState<keyof typeof channelPresets>('amplitude damping');
+  const [strength, setStrength] = useState(0.3);
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', gap: '1rem' }}>
+      <BlochSphere
+        state={{ type: 'spherical', coords: commonStates.plus }}
+        channel={channelPresets[preset](strength)}
+        width={500}
+        height={500}
+      />
+      <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center', color: 'white' }}>
+        <select
+          value={preset}
+          onChange={(e) => setPreset(e.target.value as keyof typeof channelPresets)}
+        >
+          {Object.keys(channelPresets).map((name) => (
+            <option key={name} value={name}>
+              {name}
+            </option>
+          ))}
+        </select>
+        <label>
+          strength
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.01}
+            value={strength}
+            onChange={(e) => setStrength(Number(e.target.value))}
+          />
+        </label>
+        <span style={{ fontFamily: 'monospace' }}>{strength.toFixed(2)}</span>
+      </div>
+    </div>
+  );
+}
+
+export const Channels: Story = {
+  render: () => <ChannelDemo />,
+};
+
+// Gate sequence on a timeline with stepping and scrubbing
+export const CircuitPlayer: Story = {
+  render: () => (
+    <BlochCircuitPlayer
+      gates={[
+        commonGates.H,
+        commonGates.T,
+        commonGates.S,
+        rx(Math.PI / 3),
+        commonGates.H,
+        commonGates.Y,
+      ]}
+      gateDuration={700}
+      width={500}
+      height={500}
+      loop
+    />
+  ),
+};
+
+// Paste an OpenQASM program and play it gate by gate
+function QasmDemo() {
+  const [source, setSource] = useState(`OPENQASM 2.0;
+include "qelib1.inc";
+qreg q[1];
+creg c[1];
+h q[0];
+t q[0];
+rx(pi/3) q[0];
+measure q[0] -> c[0];`);
+
+  let result: ReturnType<typeof parseQasm> | null = null;
+  let error: string | null = null;
+  try {
+    result = parseQasm(source);
+  } catch (e) {
+    error = (e as Error).message;
+  }
+
+  return (
+    <div style={{ display: 'flex', gap: '1rem', alignItems: 'flex-start' }}>
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
+        <textarea
+          value={source}
+          onChange={(e) => setSource(e.target.value)}
+          rows={14}
+          cols={32}
+          style={{ fontFamily: 'monospace', fontSize: '0.8rem' }}
+        />
+        <span style={{ color: error ? '#ff6b6b' : 'white', fontFamily: 'monospace', fontSize: '0.8rem' }}>
+          {error ?? `${result?.gates.length} gates, ${result?.measurements.length} measurements`}
+        </span>
+      </div>
+      <BlochCircuitPlayer gates={result?.gates ?? []} width={400} height={400} />
+    </div>
+  );
+}
+
+export const QasmImport: Story = {
+  render: () => <QasmDemo />,
+};
+
+// Playback of a recorded Bloch-vector time series (decaying precession, t in µs)
+const recordedCsv = [
+  'time,x,y,z',
+  ...Array.from({ length: 41 }, (_, i) => {
+    const t = i * 0.25;
+    const decay = Math.exp(-t / 6);
+    return [t, decay * Math.cos(2 * t), decay * Math.sin(2 * t), 0]
+      .map((value) => Number(value.toFixed(4)))
+      .join(',');
+  }),
+].join('\n');
+
+function TimeSeriesDemo() {
+  const [source, setSource] = useState(recordedCsv);
+  const [speed, setSpeed] = useState(1);
+
+  // Parse once per edit so playback keeps a stable sample array
+  const { parsed, error } = React.useMemo(() => {
+    try {
+      return { parsed: parseTimeSeries(source), error: null };
+    } catch (e) {
+      return { parsed: [], error: (e as Error).message };
+    }
+  }, [source]);
+  const playback = useTimeSeriesPlayback(parsed, { timeUnit: 1000 / speed, loop: true });
+
+  const buttonStyle = {
+    padding: '0.5rem 1rem',
+    fontSize: '0.875rem',
+    cursor: 'pointer',
+    backgroundColor: '#333',
+    color: 'white',
+    border: 'none',
+    borderRadius: '4px',
+  };
+
+  return (
+    <div style={{ display: 'flex', gap: '1rem', alignItems: 'flex-start' }}>
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
+        <textarea
+          value={source}
+          onChange={(e) => setSource(e.target.value)}
+          rows={20}
+          cols={32}
+          style={{ fontFamily: 'monospace', fontSize: '0.8rem' }}
+        />
+        <span style={{ color: error ? '#ff6b6b' : 'white', fontFamily: 'monospace', fontSize: '0.8rem' }}>
+          {error ?? `${parsed.length} samples, ${playback.duration} µs`}
+        </span>
+      </div>
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
+        <BlochSphere
+          state={playback.state}
+          history={playback.history}
+          width={400}
+          height={400}
+          animation={{ enabled: false }}
+          trajectory={{ enabled: true, maxPoints: 1000, fadeOpacity: true }}
+        />
+        <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center' }}>
+          <button onClick={playback.playing ? playback.pause : playback.play} style={buttonStyle}>
+            {playback.playing ? 'Pause' : 'Play'}
+          </button>
+          {[0.25, 1, 4].map((s) => (
+            <button
+              key={s}
+              onClick={() => setSpeed(s)}
+              style={{ ...buttonStyle, backgroundColor: s === speed ? '#4a90d9' : '#333' }}
+            >
+              {s} µs/s
+            </button>
+          ))}
+          <input
+            type="range"
+            min={0}
+            max={playback.duration}
+            step={0.01}
+            value={playback.time}
+            onChange={(e) => playback.seek(Number(e.target.value))}
+            style={{ flex: 1 }}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export const TimeSeries: Story = {
+  render: () => <TimeSeriesDemo />,
+};
+
+// WebGL-free SVG rendering next to the WebGL canvas
+function SvgDemo() {
+  const [azimuth, setAzimuth] = useState(0.8);
+  const states = [
+    { state: { type: 'spherical', coords: { theta: 1, phi: 0.5 } } as QuantumState, label: 'ψ' },
+    { state: { type: 'spherical', coords: { theta: 2.2, phi: 2 } } as QuantumState, label: 'φ' },
+  ];
+  const position: [number, number, number] = [
+    3.5 * Math.cos(azimuth),
+    2,
+    3.5 * Math.sin(azimuth),
+  ];
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', gap: '1rem' }}>
+      <BlochSphereSvg
+        state={states}
+        camera={{ position }}
+        width={400}
+        height={400}
+        style={{ backgroundColor: '#ffffff', labelColor: '#000000', showMeridians: true }}
+      />
+      <label style={{ color: 'white' }}>
+        azimuth
+        <input
+          type="range"
+          min={0}
+          max={2 * Math.PI}
+          step={0.01}
+          value={azimuth}
+          onChange={(e) => setAzimuth(Number(e.target.value))}
+        />
+      </label>
+    </div>
+  );
+}
+
+export const SvgRenderer: Story = {
+  render: () => <SvgDemo />,
+};
+
+// Camera control and snapshots through the ref handle
+function CameraDemo() {
+  const sphere = useRef<BlochSphereHandle>(null);
+  const [camera, setCamera] = useState<CameraState | null>(null);
+  const [snapshot, setSnapshot] = useState<string | null>(null);
+
+  const buttonStyle = {
+    padding: '0.5rem 1rem',
+    fontSize: '0.875rem',
+    cursor: 'pointer',
+    backgroundColor: '#333',
+    color: 'white',
+    border: 'none',
+    borderRadius: '4px',
+  };
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', gap: '1rem' }}>
+      <BlochSphere
+        ref={sphere}
+        state={{ type: 'spherical', coords: { theta: Math.PI / 3, phi: Math.PI / 4 } }}
+        width={500}
+        height={500}
+        onCameraChange={setCamera}
+      />
+      <div style={{ display: 'flex', gap: '0.5rem' }}>
+        {(['top', 'front', 'side', 'iso'] as const).map((view) => (
+          <button key={view} onClick={() => sphere.current?.setView(view)} style={buttonStyle}>
+            {view}
+          </button>
+        ))}
+        <button onClick={() => sphere.current?.resetCamera()} style={buttonStyle}>
+          Reset
+        </button>
+        <button onClick={() => setSnapshot(sphere.current?.toDataURL() ?? null)} style={buttonStyle}>
+          Snapshot
+        </button>
+      </div>
+      <span style={{ color: 'white', fontFamily: 'monospace' }}>
+        {camera ? camera.position.map((c) => c.toFixed(2)).join(', ') : 'move the camera'}
+      </span>
+      {snapshot && <img src={snapshot} width={150} height={150} alt="Snapshot" />}
+    </div>
+  );
+}
+
+export const CameraControl: Story = {
+  render: () => <CameraDemo />,
+};
+
+// Coordinate conventions - up axis, handedness and |0⟩ placement
+function ConventionDemo() {
+  const [convention, setConvention] = useState<Required<CoordinateConvention>>({
+    up: 'y',
+    handedness: 'right',
+    zeroAtBottom: false,
+  });
+
+  const buttonStyle = {
+    padding: '0.5rem 1rem',
+    fontSize: '0.875rem',
+    cursor: 'pointer',
+    backgroundColor: '#333',
+    color: 'white',
+    border: 'none',
+    borderRadius: '4px',
+  };
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', gap: '1rem' }}>
+      <BlochSphere
+        state={{ type: 'spherical', coords: commonStates.plusI }}
+        width={500}
+        height={500}
+        convention={convention}
+        fieldVector={{ x: 1, y: 0, z: 0 }}
+        style={{ showMeridians: true }}
+        interaction={{ editable: true }}
+      />
+      <div style={{ display: 'flex', gap: '0.5rem' }}>
+        <button
+          onClick={() => setConvention((c) => ({ ...c, up: c.up === 'y' ? 'z' : 'y' }))}
+          style={buttonStyle}
+        >
+          Up: {convention.up.toUpperCase()}
+        </button>
+        <button
+          onClick={() =>
+            setConvention((c) => ({ ...c, handedness: c.handedness === 'right' ? 'left' : 'right' }))
+          }
+          style={buttonStyle}
+        >
+          {convention.handedness}-handed
+        </button>
+        <button
+          onClick={() => setConvention((c) => ({ ...c, zeroAtBottom: !c.zeroAtBottom }))}
+          style={buttonStyle}
+        >
+          |0⟩ {convention.zeroAtBottom ? 'bottom' : 'top'}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export const CoordinateConventions: Story = {
+  render: () => <ConventionDemo />,
+};
+
 // Minimal - no labels, simple styling
 export const Minimal: Story = {
   args: {
@@ -1,170 +1,299 @@
 'use client';
 
-import React, { useMemo, useEffect, useRef } from 'react';
+import React, {
+  forwardRef,
+  useContext,
+  useEffect,
+  useMemo,
+  useImperativeHandle,
+  useRef,
+  useState,
+  useCallback,
+} from 'react';
 import { Canvas } from '@react-three/fiber';
-import { OrbitControls } from '@react-three/drei';
+import { OrbitControls, PerspectiveCamera } from '@react-three/drei';
 import type {
+  BlochSphereHandle,
   BlochSphereProps,
+  BlochSphereSceneHandle,
+  LabelledState,
+  OnAnimationProgress,
   SphericalCoordinates,
-  BlochSphereStyle,
-  CameraConfig,
 } from './types';
 import {
-  Sphere,
-  Axes,
-  StateVector,
-  AxisLabels,
-  EquatorCircle,
-  Trajectory,
+  MeasurementHistogram,
+  ComparisonReadout,
+  CameraController,
+  ExpectationPanel,
+  GridContext,
+  GridView,
 } from './components';
-import { useAnimation } from './hooks/useAnimation';
+import type { CameraControllerApi } from './components/CameraController';
+import type { ComparisonRow } from './components/ComparisonReadout';
+import { BlochSphereScene } from './BlochSphereScene';
+import { useInViewport } from './hooks/useInViewport';
+import { commonStates, quantumStateToSpherical } from './utils/quantum-math';
 import {
-  amplitudesToSpherical,
-  sphericalToCartesian,
-} from './utils/quantum-math';
-
-const defaultStyle: Required<BlochSphereStyle> = {
-  sphereColor: '#4a90d9',
-  sphereOpacity: 0.3,
-  stateVectorColor: '#ff4444',
-  xAxisColor: '#ff0000',
-  yAxisColor: '#00ff00',
-  zAxisColor: '#0000ff',
-  labelSize: 0.15,
-  showLabels: true,
-  showEquator: true,
-  showMeridians: false,
-  backgroundColor: 'transparent',
-};
-
-const defaultCamera: Required<CameraConfig> = {
-  position: [2.5, 2.5, 2.5],
-  fov: 50,
-  enableOrbitControls: true,
-  enableZoom: true,
-  enablePan: false,
-  autoRotateSpeed: 0,
-};
-
-export function BlochSphere({
-  state,
-  width = 400,
-  height = 400,
-  animation = {},
-  trajectory = {},
-  style = {},
-  camera = {},
-  onStateChange,
-  onAnimationStart,
-  onAnimationEnd,
-  history = [],
-  className,
-}: BlochSphereProps) {
-  const prevStateRef = useRef<SphericalCoordinates | null>(null);
-
-  // Convert state to spherical if needed
-  const targetSpherical = useMemo<SphericalCoordinates>(() => {
-    if (state.type === 'spherical') {
-      return state.coords;
-    }
-    return amplitudesToSpherical(state.amplitudes);
-  }, [state]);
-
-  // Animate state transitions
-  const currentSpherical = useAnimation(
-    targetSpherical,
-    animation,
-    onAnimationStart,
-    onAnimationEnd
+  measurementBases,
+  measurementProbabilities,
+} from './utils/measurement';
+import { fidelity, angularDistance } from './utils/metrics';
+import { cameraViewPosition } from './utils/camera';
+import { pauliExpectations } from './utils/annotations';
+import { resolveConvention, sceneUp } from './utils/coordinates';
+import { defaultCamera, defaultStyle, stateColor } from './defaults';
+
+function BlochSphereComponent(
+  {
+    comparisons,
+    width = 400,
+    height = 400,
+    camera = {},
+    onCameraChange,
+    cameraLink,
+    frameloop = 'always',
+    className,
+    ...sceneProps
+  }: BlochSphereProps,
+  ref: React.ForwardedRef<BlochSphereHandle>
+) {
+  const {
+    state,
+    style = {},
+    convention: conventionProp,
+    measurement,
+    annotations = {},
+    onAnimationProgress,
+  } = sceneProps;
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Inside a BlochSphereGrid the scene is drawn by the grid's shared canvas
+  const grid = useContext(GridContext);
+  // Rendering on demand also pauses while scrolled out of view
+  const inViewport = useInViewport(
+    containerRef,
+    !grid && frameloop === 'demand'
+  );
+
+  // A single state is treated as a one-entry list
+  const entries = useMemo<LabelledState[]>(
+    () => (Array.isArray(state) ? state : [{ state }]),
+    [state]
+  );
+  const targets = useMemo<SphericalCoordinates[]>(
+    () => entries.map((entry) => quantumStateToSpherical(entry.state)),
+    [entries]
+  );
+
+  // The overlays only see the animated state at the throttled progress
+  // rate, and it is only mirrored into React state while one of them shows
+  // it, so animating doesn't re-render the sphere otherwise
+  const tracksState = Boolean(
+    annotations.expectations ||
+    (measurement?.counts && measurement.showProbabilities)
+  );
+  const tracksStateRef = useRef(tracksState);
+  tracksStateRef.current = tracksState;
+  const latestStateRef = useRef(targets[0] ?? commonStates.zero);
+  const [currentSpherical, setCurrentSpherical] = useState(
+    latestStateRef.current
+  );
+  const onAnimationProgressRef = useRef(onAnimationProgress);
+  onAnimationProgressRef.current = onAnimationProgress;
+  const handleProgress = useCallback<OnAnimationProgress>(
+    (coords, progress) => {
+      latestStateRef.current = coords;
+      if (tracksStateRef.current) setCurrentSpherical(coords);
+      onAnimationProgressRef.current?.(coords, progress);
+    },
+    []
   );
 
-  // Notify parent of state changes (only when animation completes or state changes)
+  // Catch up with the animation when an overlay starts showing the state
   useEffect(() => {
-    if (onStateChange) {
-      // Check if state actually changed
-      if (
-        prevStateRef.current &&
-        prevStateRef.current.theta === currentSpherical.theta &&
-        prevStateRef.current.phi === currentSpherical.phi
-      ) {
-        return;
-      }
-      prevStateRef.current = currentSpherical;
-      const cartesian = sphericalToCartesian(currentSpherical);
-      onStateChange(currentSpherical, cartesian);
-    }
-  }, [currentSpherical, onStateChange]);
+    if (tracksState) setCurrentSpherical(latestStateRef.current);
+  }, [tracksState]);
 
   // Merge styles with defaults
   const mergedStyle = { ...defaultStyle, ...style };
-  const mergedCamera = { ...defaultCamera, ...camera };
+
+  const { up, handedness, zeroAtBottom } = resolveConvention(conventionProp);
+  const convention = useMemo(
+    () => ({ up, handedness, zeroAtBottom }),
+    [up, handedness, zeroAtBottom]
+  );
+  const mergedCamera = {
+    ...defaultCamera,
+    ...camera,
+    position:
+      camera.position ??
+      cameraViewPosition(
+        'iso',
+        Math.hypot(...defaultCamera.position),
+        convention
+      ),
+  };
+
+  // Camera moves and snapshots are delegated to the in-canvas controller,
+  // trajectory updates to the scene
+  const cameraApiRef = useRef<CameraControllerApi>(null);
+  const sceneRef = useRef<BlochSphereSceneHandle>(null);
+  useImperativeHandle(
+    ref,
+    () => ({
+      setView: (view, options) => cameraApiRef.current?.setView(view, options),
+      resetCamera: (options) => cameraApiRef.current?.resetCamera(options),
+      getCamera: () =>
+        cameraApiRef.current?.getCamera() ?? {
+          position: mergedCamera.position,
+          target: [0, 0, 0],
+        },
+      toDataURL: (type, quality) =>
+        cameraApiRef.current?.toDataURL(type, quality) ?? '',
+      toBlob: (type, quality) =>
+        cameraApiRef.current?.toBlob(type, quality) ?? Promise.resolve(null),
+      appendTrajectory: (points) => sceneRef.current?.appendTrajectory(points),
+      clearTrajectory: () => sceneRef.current?.clearTrajectory(),
+    }),
+    [mergedCamera.position]
+  );
+  const measurementAxis = measurement?.axis ?? measurementBases.Z;
+  const measurementColor = measurement?.axisColor ?? '#ffcc00';
+
+  const entryColor = (index: number) =>
+    stateColor(entries, index, mergedStyle.stateVectorColor);
+  // Resolve comparison pairs by id, falling back to array index
+  const comparisonRows: ComparisonRow[] = (comparisons ?? []).flatMap(
+    ([from, to]) => {
+      const resolve = (ref: string | number) =>
+        typeof ref === 'number'
+          ? ref
+          : entries.findIndex((entry) => entry.id === ref);
+      const i = resolve(from);
+      const j = resolve(to);
+      if (!targets[i] || !targets[j]) return [];
+      const labelOf = (index: number) =>
+        entries[index].label ?? entries[index].id ?? `#${index}`;
+      return [
+        {
+          fromLabel: labelOf(i),
+          toLabel: labelOf(j),
+          fromColor: entryColor(i),
+          toColor: entryColor(j),
+          fidelity: fidelity(targets[i], targets[j]),
+          angle: angularDistance(targets[i], targets[j]),
+        },
+      ];
+    }
+  );
+
+  // Canvas contents, drawn by the sphere's own canvas or a grid's shared one
+  const scene = (
+    <>
+      {/* Lighting */}
+      <ambientLight intensity={0.6} />
+      <directionalLight position={[5, 5, 5]} intensity={0.8} />
+
+      <BlochSphereScene
+        ref={sceneRef}
+        {...sceneProps}
+        onAnimationProgress={handleProgress}
+      />
+
+      {/* Camera Controls */}
+      <CameraController
+        apiRef={cameraApiRef}
+        initialPosition={mergedCamera.position}
+        onCameraChange={onCameraChange}
+        link={cameraLink ?? grid?.cameraLink}
+        convention={convention}
+      />
+
+      {/* Disabled by the scene while the state is dragged */}
+      {mergedCamera.enableOrbitControls && (
+        <OrbitControls
+          makeDefault
+          enableZoom={mergedCamera.enableZoom}
+          enablePan={mergedCamera.enablePan}
+          autoRotate={mergedCamera.autoRotateSpeed > 0}
+          autoRotateSpeed={mergedCamera.autoRotateSpeed}
+        />
+      )}
+    </>
+  );
 
   return (
     <div
+      ref={containerRef}
       className={className}
       style={{
+        position: 'relative',
         width,
         height,
         background: mergedStyle.backgroundColor,
       }}
     >
-      <Canvas
-        camera={{
-          position: mergedCamera.position,
-          fov: mergedCamera.fov,
-        }}
-        style={{ background: mergedStyle.backgroundColor }}
-      >
-        {/* Lighting */}
-        <ambientLight intensity={0.6} />
-        <directionalLight position={[5, 5, 5]} intensity={0.8} />
-
-        {/* Bloch Sphere Components */}
-        <Sphere
-          color={mergedStyle.sphereColor}
-          opacity={mergedStyle.sphereOpacity}
-        />
+      {grid ? (
+        <GridView grid={grid} track={containerRef}>
+          {/* Remounted like the canvas below when the up axis changes */}
+          <React.Fragment key={up}>
+            <PerspectiveCamera
+              makeDefault
+              position={mergedCamera.position}
+              fov={mergedCamera.fov}
+              up={sceneUp(convention)}
+            />
+            {scene}
+          </React.Fragment>
+        </GridView>
+      ) : (
+        <Canvas
+          // The camera's up vector is only read when the canvas is created
+          key={up}
+          camera={{
+            position: mergedCamera.position,
+            fov: mergedCamera.fov,
+            up: sceneUp(convention),
+          }}
+          frameloop={inViewport ? frameloop : 'never'}
+          style={{ background: mergedStyle.backgroundColor }}
+        >
+          {scene}
+        </Canvas>
+      )}
+
+      {comparisonRows.length > 0 && <ComparisonReadout rows={comparisonRows} />}
 
-        <Axes
+      {annotations.expectations && (
+        <ExpectationPanel
+          expectations={pauliExpectations(currentSpherical)}
+          probabilities={measurementProbabilities(currentSpherical)}
           xColor={mergedStyle.xAxisColor}
           yColor={mergedStyle.yAxisColor}
           zColor={mergedStyle.zAxisColor}
         />
+      )}
 
-        {mergedStyle.showEquator && (
-          <EquatorCircle showMeridians={mergedStyle.showMeridians} />
-        )}
-
-        {mergedStyle.showLabels && (
-          <AxisLabels size={mergedStyle.labelSize} />
-        )}
-
-        <StateVector
-          theta={currentSpherical.theta}
-          phi={currentSpherical.phi}
-          color={mergedStyle.stateVectorColor}
+      {measurement?.counts && (
+        <MeasurementHistogram
+          counts={measurement.counts}
+          probabilities={
+            measurement.showProbabilities
+              ? measurementProbabilities(currentSpherical, measurementAxis)
+              : undefined
+          }
+          labels={measurement.outcomeLabels}
+          color={measurementColor}
         />
-
-        {trajectory.enabled && history.length > 1 && (
-          <Trajectory
-            points={history}
-            color={trajectory.color || '#ff6b6b'}
-            lineWidth={trajectory.lineWidth || 2}
-            fadeOpacity={trajectory.fadeOpacity || false}
-            maxPoints={trajectory.maxPoints || 100}
-          />
-        )}
-
-        {/* Camera Controls */}
-        {mergedCamera.enableOrbitControls && (
-          <OrbitControls
-            enableZoom={mergedCamera.enableZoom}
-            enablePan={mergedCamera.enablePan}
-            autoRotate={mergedCamera.autoRotateSpeed > 0}
-            autoRotateSpeed={mergedCamera.autoRotateSpeed}
-          />
-        )}
-      </Canvas>
+      )}
     </div>
   );
 }
+
+/**
+ * Interactive Bloch sphere: BlochSphereScene in its own canvas (or a
+ * BlochSphereGrid cell) with lights, camera, orbit controls and HTML
+ * overlays. Pass a `ref` for camera control and snapshots.
+ */
+export const BlochSphere = forwardRef(BlochSphereComponent);
+BlochSphere.displayName = 'BlochSphere';
@@ -0,0 +1,86 @@
+'use client';
+
+import React, { useCallback, useMemo, useRef, useState } from 'react';
+import type { MutableRefObject } from 'react';
+import { Canvas } from '@react-three/fiber';
+import { View } from '@react-three/drei';
+import type { BlochSphereGridProps } from './types';
+import { GridContext } from './components';
+import type { GridContextValue, GridViewEntry } from './components/GridView';
+import { useInViewport } from './hooks/useInViewport';
+import { createCameraLink } from './utils/camera';
+
+/**
+ * Lays out BlochSphere children and draws all of them through one WebGL
+ * context, so pages with many spheres stay under the browser's context
+ * limit. Each sphere keeps its own camera, controls and overlays; its scene
+ * is rendered into its cell of a canvas laid over the grid.
+ */
+export function BlochSphereGrid({
+  children,
+  columns,
+  gap = 8,
+  linkCameras = false,
+  frameloop = 'demand',
+  className,
+  style,
+}: BlochSphereGridProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const inViewport = useInViewport(containerRef, frameloop === 'demand');
+
+  // Scenes registered by the spheres, in mount order
+  const [views, setViews] = useState<Map<string, GridViewEntry>>(
+    () => new Map()
+  );
+  const setView = useCallback((id: string, view: GridViewEntry | null) => {
+    setViews((prev) => {
+      if (!view && !prev.has(id)) return prev;
+      const next = new Map(prev);
+      if (view) next.set(id, view);
+      else next.delete(id);
+      return next;
+    });
+  }, []);
+
+  const cameraLink = useMemo(
+    () => (linkCameras ? createCameraLink() : undefined),
+    [linkCameras]
+  );
+  const grid = useMemo<GridContextValue>(
+    () => ({ setView, cameraLink }),
+    [setView, cameraLink]
+  );
+
+  return (
+    <div
+      ref={containerRef}
+      className={className}
+      style={{
+        position: 'relative',
+        ...(columns
+          ? {
+              display: 'grid',
+              gridTemplateColumns: `repeat(${columns}, max-content)`,
+            }
+          : { display: 'flex', flexWrap: 'wrap' }),
+        gap,
+        ...style,
+      }}
+    >
+      <GridContext.Provider value={grid}>{children}</GridContext.Provider>
+
+      {/* Laid over the cells; sphere overlays are stacked above it */}
+      <Canvas
+        eventSource={containerRef as MutableRefObject<HTMLElement>}
+        frameloop={inViewport ? frameloop : 'never'}
+        style={{ position: 'absolute', top: 0, left: 0 }}
+      >
+        {Array.from(views, ([id, view]) => (
+          <View key={id} track={view.track as MutableRefObject<HTMLElement>}>
+            {view.content}
+          </View>
+        ))}
+      </Canvas>
+    </div>
+  );
+}
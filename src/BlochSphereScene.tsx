@@ -0,0 +1,375 @@
+'use client';
+
+import React, {
+  forwardRef,
+  memo,
+  useCallback,
+  useEffect,
+  useImperativeHandle,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
+import { useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+import type {
+  BlochSphereSceneHandle,
+  BlochSphereSceneProps,
+  LabelledState,
+  OnAnimationProgress,
+  SphericalCoordinates,
+} from './types';
+import {
+  Sphere,
+  Axes,
+  StateVector,
+  AxisLabels,
+  EquatorCircle,
+  Trajectory,
+  StateDragHandle,
+  MeasurementAxis,
+  AnimatedStateVector,
+  FieldVector,
+  Ellipsoid,
+  AngleAnnotations,
+} from './components';
+import type { ControlsLike } from './components/CameraController';
+import { useFrameAnimation } from './hooks/useFrameAnimation';
+import { useTrajectoryBuffer } from './hooks/useTrajectoryBuffer';
+import {
+  commonStates,
+  quantumStateToSpherical,
+  sphericalToCartesian,
+  snapToCommonStates,
+  snapToGrid,
+} from './utils/quantum-math';
+import { measurementBases } from './utils/measurement';
+import { channelToAffineMap } from './utils/channels';
+import { conventionMatrix, resolveConvention } from './utils/coordinates';
+import { defaultStyle, emptyHistory, stateColor } from './defaults';
+
+function BlochSphereSceneComponent(
+  {
+    state,
+    animation = {},
+    trajectory = {},
+    style = {},
+    convention: conventionProp,
+    interaction = {},
+    measurement,
+    fieldVector,
+    channel,
+    annotations = {},
+    confidenceEllipsoid,
+    onStateChange,
+    onStateInput,
+    onAnimationStart,
+    onAnimationEnd,
+    onAnimationProgress,
+    history = emptyHistory,
+    children,
+    position,
+    scale = 1,
+  }: BlochSphereSceneProps,
+  ref: React.ForwardedRef<BlochSphereSceneHandle>
+) {
+  // A single state is treated as a one-entry list
+  const entries = useMemo<LabelledState[]>(
+    () => (Array.isArray(state) ? state : [{ state }]),
+    [state]
+  );
+
+  // Convert states to spherical if needed (mixed states carry r < 1)
+  const targets = useMemo<SphericalCoordinates[]>(
+    () => entries.map((entry) => quantumStateToSpherical(entry.state)),
+    [entries]
+  );
+  const primary: LabelledState | undefined = entries[0];
+  const targetSpherical = targets[0] ?? commonStates.zero;
+  const primaryAnimation = { ...animation, ...primary?.animation };
+
+  // Track dragging so orbit controls and animation step aside
+  const [isDragging, setIsDragging] = useState(false);
+  const controls = useThree(
+    (s) => s.controls
+  ) as unknown as ControlsLike | null;
+  useEffect(() => {
+    if (!controls || !isDragging) return;
+    controls.enabled = false;
+    return () => {
+      controls.enabled = true;
+    };
+  }, [controls, isDragging]);
+
+  // Notify parent of state changes (throttled while animating, and once the
+  // state settles)
+  const prevStateRef = useRef<SphericalCoordinates | null>(null);
+  const onStateChangeRef = useRef(onStateChange);
+  onStateChangeRef.current = onStateChange;
+  const reportState = useCallback((coords: SphericalCoordinates) => {
+    const notify = onStateChangeRef.current;
+    if (!notify) return;
+    const prev = prevStateRef.current;
+    if (
+      prev &&
+      prev.theta === coords.theta &&
+      prev.phi === coords.phi &&
+      prev.r === coords.r
+    ) {
+      return;
+    }
+    prevStateRef.current = coords;
+    notify(coords, sphericalToCartesian(coords), coords.r ?? 1);
+  }, []);
+
+  const onAnimationProgressRef = useRef(onAnimationProgress);
+  onAnimationProgressRef.current = onAnimationProgress;
+  const handleProgress = useCallback<OnAnimationProgress>(
+    (coords, progress) => {
+      reportState(coords);
+      onAnimationProgressRef.current?.(coords, progress);
+    },
+    [reportState]
+  );
+
+  // Record the animated path when requested, otherwise use external history
+  const trajectoryEnabled = Boolean(trajectory.enabled);
+  const recording = trajectoryEnabled && Boolean(trajectory.record);
+  const trajectoryBuffer = useTrajectoryBuffer(
+    trajectory.record ? undefined : (primary?.history ?? history),
+    {
+      enabled: trajectoryEnabled,
+      maxPoints: trajectory.maxPoints || 100,
+      minDistance: trajectory.minDistance ?? (trajectory.record ? 0.01 : 0),
+      decimation: trajectory.decimation,
+      resetKey: trajectory.resetKey,
+    }
+  );
+
+  // State transitions are animated in the render loop: the scene reads the
+  // animated state from this ref every frame. The vector follows the
+  // pointer while dragging.
+  const animatedStateRef = useFrameAnimation(
+    targetSpherical,
+    isDragging ? { ...primaryAnimation, enabled: false } : primaryAnimation,
+    {
+      onStart: onAnimationStart,
+      onEnd: onAnimationEnd,
+      onProgress: handleProgress,
+      onFrame: recording
+        ? (coords) => trajectoryBuffer.append([coords])
+        : undefined,
+    }
+  );
+
+  // Report the initial state once mounted
+  useEffect(() => {
+    reportState(animatedStateRef.current);
+  }, [reportState, animatedStateRef]);
+
+  const {
+    snapToCommonStates: snapCommon,
+    snapThreshold,
+    snapGrid,
+  } = interaction;
+
+  const handleDrag = useCallback(
+    (coords: SphericalCoordinates) => {
+      let snapped = coords;
+      if (snapCommon) {
+        snapped = snapToCommonStates(snapped, snapThreshold);
+      }
+      if (snapGrid && snapped === coords) {
+        snapped = snapToGrid(snapped, snapGrid);
+      }
+      onStateInput?.(snapped, sphericalToCartesian(snapped));
+    },
+    [snapCommon, snapThreshold, snapGrid, onStateInput]
+  );
+
+  const invalidate = useThree((s) => s.invalidate);
+  useImperativeHandle(
+    ref,
+    () => ({
+      appendTrajectory: (points) => {
+        // Nothing draws (and empties) a hidden trajectory
+        if (!trajectoryEnabled) return;
+        trajectoryBuffer.append(points);
+        invalidate();
+      },
+      clearTrajectory: () => {
+        trajectoryBuffer.clear();
+        invalidate();
+      },
+    }),
+    [trajectoryBuffer, trajectoryEnabled, invalidate]
+  );
+
+  // Merge styles with defaults
+  const mergedStyle = { ...defaultStyle, ...style };
+
+  // Image of the Bloch sphere under the channel
+  const channelMap = useMemo(
+    () => (channel ? channelToAffineMap(channel) : null),
+    [channel]
+  );
+
+  // Resolved once per distinct layout, so inline convention objects don't
+  // rebuild the geometry on every render
+  const { up, handedness, zeroAtBottom } = resolveConvention(conventionProp);
+  const convention = useMemo(
+    () => ({ up, handedness, zeroAtBottom }),
+    [up, handedness, zeroAtBottom]
+  );
+
+  // Children are placed in Bloch coordinates and mapped to the scene here
+  const blochFrame = useMemo(() => {
+    const m = conventionMatrix(convention);
+    return new THREE.Matrix4().setFromMatrix3(
+      new THREE.Matrix3().set(...m[0], ...m[1], ...m[2])
+    );
+  }, [convention]);
+
+  const measurementAxis = measurement?.axis ?? measurementBases.Z;
+  const measurementColor = measurement?.axisColor ?? '#ffcc00';
+  const entryColor = (index: number) =>
+    stateColor(entries, index, mergedStyle.stateVectorColor);
+
+  return (
+    <group position={position} scale={scale}>
+      <Sphere
+        color={mergedStyle.sphereColor}
+        opacity={mergedStyle.sphereOpacity}
+      />
+
+      <Axes
+        xColor={mergedStyle.xAxisColor}
+        yColor={mergedStyle.yAxisColor}
+        zColor={mergedStyle.zAxisColor}
+        convention={convention}
+      />
+
+      {mergedStyle.showEquator && (
+        <EquatorCircle
+          showMeridians={mergedStyle.showMeridians}
+          convention={convention}
+        />
+      )}
+
+      {mergedStyle.showLabels && (
+        <AxisLabels
+          size={mergedStyle.labelSize}
+          color={mergedStyle.labelColor}
+          convention={convention}
+        />
+      )}
+
+      <StateVector
+        stateRef={animatedStateRef}
+        color={entryColor(0)}
+        label={primary?.label}
+        convention={convention}
+      />
+
+      {entries.slice(1).map((entry, i) => (
+        <AnimatedStateVector
+          // Ids and positions in separate key spaces, so they can't collide
+          key={entry.id !== undefined ? `id:${entry.id}` : `index:${i + 1}`}
+          target={targets[i + 1]}
+          animation={{ ...animation, ...entry.animation }}
+          color={entryColor(i + 1)}
+          label={entry.label}
+          trajectory={trajectory}
+          history={entry.history}
+          convention={convention}
+        />
+      ))}
+
+      {(annotations.angles || annotations.projections) && (
+        <AngleAnnotations
+          stateRef={animatedStateRef}
+          showAngles={annotations.angles}
+          showProjections={annotations.projections}
+          arcRadius={annotations.arcRadius}
+          color={annotations.color}
+          convention={convention}
+        />
+      )}
+
+      {interaction.editable && (
+        <StateDragHandle
+          stateRef={animatedStateRef}
+          onDragStart={() => setIsDragging(true)}
+          onDrag={handleDrag}
+          onDragEnd={() => setIsDragging(false)}
+          convention={convention}
+        />
+      )}
+
+      {trajectory.enabled && (
+        <Trajectory
+          buffer={trajectoryBuffer}
+          color={primary?.color ?? (trajectory.color || '#ff6b6b')}
+          lineWidth={trajectory.lineWidth || 2}
+          fadeOpacity={trajectory.fadeOpacity || false}
+          minOpacity={trajectory.minOpacity}
+          fadeColor={trajectory.fadeColor}
+          convention={convention}
+        />
+      )}
+
+      {fieldVector && (
+        <FieldVector
+          field={fieldVector}
+          color={mergedStyle.fieldVectorColor}
+          convention={convention}
+        />
+      )}
+
+      {channelMap && (
+        <Ellipsoid
+          center={channelMap.offset}
+          matrix={channelMap.matrix}
+          color={mergedStyle.ellipsoidColor}
+          opacity={mergedStyle.ellipsoidOpacity}
+          convention={convention}
+        />
+      )}
+
+      {confidenceEllipsoid && (
+        <Ellipsoid
+          center={confidenceEllipsoid.offset}
+          matrix={confidenceEllipsoid.matrix}
+          color={entryColor(0)}
+          opacity={0.4}
+          wireframe
+          convention={convention}
+        />
+      )}
+
+      {measurement?.showAxis && (
+        <MeasurementAxis
+          axis={measurementAxis}
+          color={measurementColor}
+          convention={convention}
+        />
+      )}
+
+      {children && (
+        <group matrix={blochFrame} matrixAutoUpdate={false}>
+          {children}
+        </group>
+      )}
+    </group>
+  );
+}
+
+/**
+ * Contents of the Bloch sphere as a group, for use inside an existing
+ * React Three Fiber Canvas. Brings no canvas, camera, lights or controls;
+ * while the state is dragged, the default controls (`makeDefault`) are
+ * disabled. Pass a `ref` to append to the trajectory. Memoized, so a parent
+ * re-rendering with the same props doesn't reconcile the scene.
+ */
+export const BlochSphereScene = memo(forwardRef(BlochSphereSceneComponent));
+BlochSphereScene.displayName = 'BlochSphereScene';
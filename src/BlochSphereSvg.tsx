@@ -0,0 +1,44 @@
+import React from 'react';
+import type { BlochSphereSvgOptions } from './types';
+import { buildBlochSphereSvg } from './utils/svg';
+
+interface BlochSphereSvgProps extends BlochSphereSvgOptions {
+  className?: string;
+}
+
+// SVG attribute names (stroke-width) to React prop names (strokeWidth)
+const toReactProp = (name: string) =>
+  name.replace(/-([a-z])/g, (_, letter: string) => letter.toUpperCase());
+
+/**
+ * WebGL-free Bloch sphere rendered as an SVG element tree.
+ * Works in server components, static pages and print layouts.
+ */
+export function BlochSphereSvg({ className, ...options }: BlochSphereSvgProps) {
+  const { width = 400, height = 400 } = options;
+  const primitives = buildBlochSphereSvg(options);
+
+  return (
+    <svg
+      xmlns="http://www.w3.org/2000/svg"
+      className={className}
+      width={width}
+      height={height}
+      viewBox={`0 0 ${width} ${height}`}
+    >
+      {primitives.map(({ tag: Tag, attributes, text }, index) => {
+        const props = Object.fromEntries(
+          Object.entries(attributes).map(([name, value]) => [
+            toReactProp(name),
+            value,
+          ])
+        );
+        return (
+          <Tag key={index} {...props}>
+            {text}
+          </Tag>
+        );
+      })}
+    </svg>
+  );
+}
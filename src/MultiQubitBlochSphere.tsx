@@ -0,0 +1,60 @@
+'use client';
+
+import React, { useMemo } from 'react';
+import type { MultiQubitBlochSphereProps } from './types';
+import { BlochSphere } from './BlochSphere';
+import { BlochSphereGrid } from './BlochSphereGrid';
+import { EntanglementPanel } from './components';
+import { analyzeEntanglement } from './utils/multi-qubit';
+
+/**
+ * One Bloch sphere per qubit of an n-qubit state, showing each qubit's
+ * reduced state. Entangled qubits are mixed, so their vectors shrink
+ * towards the center; a table lists purity, entropy and the concurrence of
+ * every pair. The spheres share one WebGL context through BlochSphereGrid.
+ */
+export function MultiQubitBlochSphere({
+  state,
+  size = 200,
+  columns,
+  linkCameras = true,
+  qubitLabels,
+  showEntanglement = true,
+  className,
+  ...sphereProps
+}: MultiQubitBlochSphereProps) {
+  const summary = useMemo(() => analyzeEntanglement(state), [state]);
+  const labels = summary.qubits.map((_, i) => qubitLabels?.[i] ?? `q${i}`);
+
+  return (
+    <div
+      className={className}
+      style={{
+        display: 'flex',
+        flexDirection: 'column',
+        alignItems: 'center',
+        gap: 8,
+      }}
+    >
+      <BlochSphereGrid
+        columns={columns ?? summary.qubits.length}
+        linkCameras={linkCameras}
+        frameloop={sphereProps.frameloop}
+      >
+        {summary.qubits.map((qubit, i) => (
+          <BlochSphere
+            key={i}
+            {...sphereProps}
+            state={[{ state: qubit.state, label: labels[i] }]}
+            width={size}
+            height={size}
+          />
+        ))}
+      </BlochSphereGrid>
+
+      {showEntanglement && (
+        <EntanglementPanel summary={summary} labels={labels} />
+      )}
+    </div>
+  );
+}
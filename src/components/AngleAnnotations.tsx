@@ -0,0 +1,221 @@
+'use client';
+
+import React, { useRef } from 'react';
+import type { RefObject } from 'react';
+import { Line, Text } from '@react-three/drei';
+import * as THREE from 'three';
+import type {
+  CartesianCoordinates,
+  CoordinateConvention,
+  SphericalCoordinates,
+} from '../types';
+import { angleArcs, axisProjections } from '../utils/annotations';
+import { sphericalToCartesian } from '../utils/quantum-math';
+import { blochToScene } from '../utils/coordinates';
+import { useStateFrame } from '../hooks/useStateFrame';
+
+interface AngleAnnotationsProps {
+  /** Current state, read on every frame */
+  stateRef: RefObject<SphericalCoordinates>;
+  /** Draw the θ and φ arcs with the equatorial shadow of the vector */
+  showAngles?: boolean;
+  /** Draw dashed projections onto the x, y and z axes */
+  showProjections?: boolean;
+  arcRadius?: number;
+  color?: string;
+  labelSize?: number;
+  /** Scene axis layout */
+  convention?: CoordinateConvention;
+}
+
+type LineObject = React.ComponentRef<typeof Line>;
+
+/** Below this the vector is (nearly) on the Z axis and φ is undefined */
+const MIN_EQUATORIAL = 1e-3;
+
+/** Placeholder vertices until the first state is applied */
+const ORIGIN = new THREE.Vector3(0, 0, 0);
+const EMPTY_LINE = [ORIGIN, ORIGIN];
+
+/**
+ * Move a line's vertices, without rebuilding the component. Once the
+ * vertex count is set, the existing buffers are overwritten, so animating
+ * allocates nothing. (Dashes rule out moving a fixed line by its transform:
+ * they would stretch with it.)
+ */
+function setLinePoints(line: LineObject | null, points: THREE.Vector3[]) {
+  if (!line) return;
+  const geometry = line.geometry;
+  const segments = points.length - 1;
+  const start = geometry.attributes.instanceStart as
+    | THREE.InterleavedBufferAttribute
+    | undefined;
+  const distances = geometry.attributes.instanceDistanceStart as
+    | THREE.InterleavedBufferAttribute
+    | undefined;
+
+  if (!start || !distances || start.count !== segments) {
+    geometry.setPositions(points.flatMap((point) => point.toArray()));
+    // Dash offsets depend on the vertex positions
+    line.computeLineDistances();
+    return;
+  }
+
+  // Interleaved as (start xyz, end xyz) and (start, end) distance per segment
+  const position = start.data.array as Float32Array;
+  const distance = distances.data.array as Float32Array;
+  let total = 0;
+  for (let i = 0; i < segments; i++) {
+    points[i].toArray(position, 6 * i);
+    points[i + 1].toArray(position, 6 * i + 3);
+    distance[2 * i] = total;
+    total += points[i].distanceTo(points[i + 1]);
+    distance[2 * i + 1] = total;
+  }
+  start.data.needsUpdate = true;
+  distances.data.needsUpdate = true;
+  geometry.computeBoundingSphere();
+}
+
+/**
+ * θ/φ arcs and axis projections for a state vector
+ */
+export function AngleAnnotations({
+  stateRef,
+  showAngles = true,
+  showProjections = true,
+  arcRadius = 0.4,
+  color = '#ffffff',
+  labelSize = 0.08,
+  convention,
+}: AngleAnnotationsProps) {
+  const thetaRef = useRef<THREE.Group>(null);
+  const thetaArcRef = useRef<LineObject>(null);
+  const thetaLabelRef = useRef<THREE.Mesh>(null);
+  const phiRef = useRef<THREE.Group>(null);
+  const shadowRef = useRef<LineObject>(null);
+  const dropRef = useRef<LineObject>(null);
+  const phiArcRef = useRef<LineObject>(null);
+  const phiLabelRef = useRef<THREE.Mesh>(null);
+  const projectionRefs = useRef<(LineObject | null)[]>([]);
+  const footRefs = useRef<(THREE.Mesh | null)[]>([]);
+
+  useStateFrame(stateRef, (coords) => {
+    const toScene = (v: CartesianCoordinates) =>
+      new THREE.Vector3(...blochToScene(v, convention));
+    const { theta, r: radius = 1 } = coords;
+    const tip = toScene(sphericalToCartesian(coords));
+    const midpoint = (points: CartesianCoordinates[]) =>
+      toScene(points[Math.floor(points.length / 2)]).multiplyScalar(1.3);
+
+    if (showAngles) {
+      const arcs = angleArcs(coords, arcRadius);
+      const equatorFoot = toScene(axisProjections(coords).equator);
+
+      if (thetaRef.current) thetaRef.current.visible = theta > MIN_EQUATORIAL;
+      setLinePoints(thetaArcRef.current, arcs.theta.map(toScene));
+      thetaLabelRef.current?.position.copy(midpoint(arcs.theta));
+
+      if (phiRef.current) {
+        phiRef.current.visible =
+          Math.abs(Math.sin(theta)) * radius > MIN_EQUATORIAL;
+      }
+      setLinePoints(shadowRef.current, [ORIGIN, equatorFoot]);
+      setLinePoints(dropRef.current, [equatorFoot, tip]);
+      setLinePoints(phiArcRef.current, arcs.phi.map(toScene));
+      phiLabelRef.current?.position.copy(midpoint(arcs.phi));
+    }
+
+    if (showProjections) {
+      const feet = axisProjections(coords);
+      [feet.x, feet.y, feet.z].map(toScene).forEach((foot, i) => {
+        setLinePoints(projectionRefs.current[i], [tip, foot]);
+        footRefs.current[i]?.position.copy(foot);
+      });
+    }
+  });
+
+  const dash = { dashed: true, dashSize: 0.04, gapSize: 0.03 };
+
+  return (
+    <group>
+      {showAngles && (
+        <group ref={thetaRef}>
+          <Line
+            ref={thetaArcRef}
+            points={EMPTY_LINE}
+            color={color}
+            lineWidth={1.5}
+          />
+          <Text
+            ref={thetaLabelRef}
+            fontSize={labelSize}
+            color={color}
+            anchorX="center"
+            anchorY="middle"
+          >
+            θ
+          </Text>
+        </group>
+      )}
+
+      {showAngles && (
+        <group ref={phiRef}>
+          {/* φ is measured to the shadow of the vector on the equator */}
+          <Line
+            ref={shadowRef}
+            points={EMPTY_LINE}
+            color={color}
+            lineWidth={1}
+            {...dash}
+          />
+          <Line
+            ref={dropRef}
+            points={EMPTY_LINE}
+            color={color}
+            lineWidth={1}
+            {...dash}
+          />
+          <Line
+            ref={phiArcRef}
+            points={EMPTY_LINE}
+            color={color}
+            lineWidth={1.5}
+          />
+          <Text
+            ref={phiLabelRef}
+            fontSize={labelSize}
+            color={color}
+            anchorX="center"
+            anchorY="middle"
+          >
+            φ
+          </Text>
+        </group>
+      )}
+
+      {showProjections &&
+        [0, 1, 2].map((i) => (
+          <group key={i}>
+            <Line
+              ref={(line) => {
+                projectionRefs.current[i] = line;
+              }}
+              points={EMPTY_LINE}
+              color={color}
+              lineWidth={1}
+              {...dash}
+            />
+            <mesh
+              ref={(mesh) => {
+                footRefs.current[i] = mesh;
+              }}
+            >
+              <sphereGeometry args={[0.02, 12, 12]} />
+              <meshBasicMaterial color={color} />
+            </mesh>
+          </group>
+        ))}
+    </group>
+  );
+}
@@ -0,0 +1,80 @@
+'use client';
+
+import React from 'react';
+import type {
+  AnimationConfig,
+  CoordinateConvention,
+  SphericalCoordinates,
+  TrajectoryConfig,
+} from '../types';
+import { useFrameAnimation } from '../hooks/useFrameAnimation';
+import { useTrajectoryBuffer } from '../hooks/useTrajectoryBuffer';
+import { StateVector } from './StateVector';
+import { Trajectory } from './Trajectory';
+import { emptyHistory } from '../defaults';
+
+interface AnimatedStateVectorProps {
+  target: SphericalCoordinates;
+  animation?: AnimationConfig;
+  color?: string;
+  label?: string;
+  labelSize?: number;
+  trajectory?: TrajectoryConfig;
+  /** External trajectory points, used unless `trajectory.record` is set */
+  history?: SphericalCoordinates[];
+  /** Scene axis layout */
+  convention?: CoordinateConvention;
+}
+
+/**
+ * State vector with its own animation and trajectory, used for the
+ * additional states when several are compared on one sphere
+ */
+export function AnimatedStateVector({
+  target,
+  animation,
+  color,
+  label,
+  labelSize,
+  trajectory = {},
+  history = emptyHistory,
+  convention,
+}: AnimatedStateVectorProps) {
+  const buffer = useTrajectoryBuffer(trajectory.record ? undefined : history, {
+    enabled: Boolean(trajectory.enabled),
+    maxPoints: trajectory.maxPoints || 100,
+    minDistance: trajectory.minDistance ?? (trajectory.record ? 0.01 : 0),
+    decimation: trajectory.decimation,
+    resetKey: trajectory.resetKey,
+  });
+
+  const stateRef = useFrameAnimation(target, animation, {
+    onFrame:
+      trajectory.enabled && trajectory.record
+        ? (coords) => buffer.append([coords])
+        : undefined,
+  });
+
+  return (
+    <group>
+      <StateVector
+        stateRef={stateRef}
+        color={color}
+        label={label}
+        labelSize={labelSize}
+        convention={convention}
+      />
+      {trajectory.enabled && (
+        <Trajectory
+          buffer={buffer}
+          color={color}
+          lineWidth={trajectory.lineWidth || 2}
+          fadeOpacity={trajectory.fadeOpacity || false}
+          minOpacity={trajectory.minOpacity}
+          fadeColor={trajectory.fadeColor}
+          convention={convention}
+        />
+      )}
+    </group>
+  );
+}
@@ -1,8 +1,10 @@
 'use client';
 
-import React from 'react';
+import React, { useMemo } from 'react';
 import { Line } from '@react-three/drei';
 import * as THREE from 'three';
+import type { CartesianCoordinates, CoordinateConvention } from '../types';
+import { blochToScene } from '../utils/coordinates';
 
 interface AxesProps {
   xColor?: string;
@@ -10,6 +12,8 @@ interface AxesProps {
   zColor?: string;
   length?: number;
   lineWidth?: number;
+  /** Scene axis layout */
+  convention?: CoordinateConvention;
 }
 
 export function Axes({
@@ -18,40 +22,37 @@ export function Axes({
   zColor = '#0000ff',
   length = 1.3,
   lineWidth = 1.5,
+  convention,
 }: AxesProps) {
-  const origin = new THREE.Vector3(0, 0, 0);
+  // Kept across renders: new points make Line rebuild its geometry
+  const points = useMemo(
+    () =>
+      (
+        [
+          { x: length, y: 0, z: 0 },
+          { x: 0, y: length, z: 0 },
+          { x: 0, y: 0, z: length },
+        ] as CartesianCoordinates[]
+      ).map((end) => {
+        const tip = new THREE.Vector3(...blochToScene(end, convention));
+        return [tip.clone().negate(), tip];
+      }),
+    [length, convention]
+  );
+
+  // Colors follow the Bloch axes, wherever the convention draws them
+  const colors = [xColor, yColor, zColor];
 
   return (
     <group>
-      {/* X axis (red) */}
-      <Line
-        points={[
-          new THREE.Vector3(-length, 0, 0),
-          new THREE.Vector3(length, 0, 0),
-        ]}
-        color={xColor}
-        lineWidth={lineWidth}
-      />
-
-      {/* Y axis (green) - Note: in Three.js Y is up, but we use Z for Bloch sphere */}
-      <Line
-        points={[
-          new THREE.Vector3(0, -length, 0),
-          new THREE.Vector3(0, length, 0),
-        ]}
-        color={yColor}
-        lineWidth={lineWidth}
-      />
-
-      {/* Z axis (blue) */}
-      <Line
-        points={[
-          new THREE.Vector3(0, 0, -length),
-          new THREE.Vector3(0, 0, length),
-        ]}
-        color={zColor}
-        lineWidth={lineWidth}
-      />
+      {points.map((axisPoints, i) => (
+        <Line
+          key={i}
+          points={axisPoints}
+          color={colors[i]}
+          lineWidth={lineWidth}
+        />
+      ))}
     </group>
   );
 }
@@ -2,79 +2,54 @@
 
 import React from 'react';
 import { Text } from '@react-three/drei';
+import type { CartesianCoordinates, CoordinateConvention } from '../types';
+import { blochToScene } from '../utils/coordinates';
 
 interface AxisLabelsProps {
   size?: number;
   color?: string;
   offset?: number;
+  /** Scene axis layout */
+  convention?: CoordinateConvention;
 }
 
+/** Basis state labels at the ends of the Bloch axes */
+const labels: [CartesianCoordinates, string][] = [
+  [{ x: 0, y: 0, z: 1 }, '|0⟩'],
+  [{ x: 0, y: 0, z: -1 }, '|1⟩'],
+  [{ x: 1, y: 0, z: 0 }, '|+⟩'],
+  [{ x: -1, y: 0, z: 0 }, '|-⟩'],
+  [{ x: 0, y: 1, z: 0 }, '|+i⟩'],
+  [{ x: 0, y: -1, z: 0 }, '|-i⟩'],
+];
+
 export function AxisLabels({
   size = 0.15,
   color = '#ffffff',
   offset = 1.5,
+  convention,
 }: AxisLabelsProps) {
   return (
     <group>
-      {/* Z axis labels (|0> and |1>) */}
-      <Text
-        position={[0, offset, 0]}
-        fontSize={size}
-        color={color}
-        anchorX="center"
-        anchorY="middle"
-      >
-        |0⟩
-      </Text>
-      <Text
-        position={[0, -offset, 0]}
-        fontSize={size}
-        color={color}
-        anchorX="center"
-        anchorY="middle"
-      >
-        |1⟩
-      </Text>
-
-      {/* X axis labels (|+> and |->) */}
-      <Text
-        position={[offset, 0, 0]}
-        fontSize={size}
-        color={color}
-        anchorX="center"
-        anchorY="middle"
-      >
-        |+⟩
-      </Text>
-      <Text
-        position={[-offset, 0, 0]}
-        fontSize={size}
-        color={color}
-        anchorX="center"
-        anchorY="middle"
-      >
-        |-⟩
-      </Text>
-
-      {/* Y axis labels (|+i> and |-i>) */}
-      <Text
-        position={[0, 0, offset]}
-        fontSize={size}
-        color={color}
-        anchorX="center"
-        anchorY="middle"
-      >
-        |+i⟩
-      </Text>
-      <Text
-        position={[0, 0, -offset]}
-        fontSize={size}
-        color={color}
-        anchorX="center"
-        anchorY="middle"
-      >
-        |-i⟩
-      </Text>
+      {labels.map(([direction, text]) => (
+        <Text
+          key={text}
+          position={blochToScene(
+            {
+              x: direction.x * offset,
+              y: direction.y * offset,
+              z: direction.z * offset,
+            },
+            convention
+          )}
+          fontSize={size}
+          color={color}
+          anchorX="center"
+          anchorY="middle"
+        >
+          {text}
+        </Text>
+      ))}
     </group>
   );
 }
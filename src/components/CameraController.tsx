@@ -0,0 +1,262 @@
+'use client';
+
+import { useEffect, useImperativeHandle, useRef } from 'react';
+import type { Ref } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+import type {
+  CameraLink,
+  CameraState,
+  CameraView,
+  CameraMoveOptions,
+  CoordinateConvention,
+} from '../types';
+import { cameraViewPosition } from '../utils/camera';
+
+/** Subset of the default controls (OrbitControls) used by the sphere */
+export interface ControlsLike {
+  enabled: boolean;
+  target: THREE.Vector3;
+  update: () => void;
+  addEventListener: (type: 'change', listener: () => void) => void;
+  removeEventListener: (type: 'change', listener: () => void) => void;
+}
+
+/**
+ * Camera and snapshot operations exposed to BlochSphere's ref handle
+ */
+export interface CameraControllerApi {
+  setView: (view: CameraView, options?: CameraMoveOptions) => void;
+  resetCamera: (options?: CameraMoveOptions) => void;
+  getCamera: () => CameraState;
+  toDataURL: (type?: string, quality?: number) => string;
+  toBlob: (type?: string, quality?: number) => Promise<Blob | null>;
+}
+
+interface CameraControllerProps {
+  /** Receives the camera API */
+  apiRef: Ref<CameraControllerApi>;
+  /** Position restored by resetCamera */
+  initialPosition: [number, number, number];
+  onCameraChange?: (camera: CameraState) => void;
+  /** Follow and broadcast camera moves */
+  link?: CameraLink;
+  /** Scene axis layout, used to place the named views */
+  convention?: CoordinateConvention;
+}
+
+interface CameraTransition {
+  from: THREE.Vector3;
+  rotation: THREE.Quaternion;
+  fromDistance: number;
+  toDistance: number;
+  elapsed: number;
+  duration: number;
+  /** False until the first frame, whose delta predates the move */
+  running: boolean;
+}
+
+const DEFAULT_TRANSITION = 600;
+
+/**
+ * Moves the camera on request (animated along the orbit around the origin)
+ * and reports camera changes, from the controls or programmatic moves
+ */
+export function CameraController({
+  apiRef,
+  initialPosition,
+  onCameraChange,
+  link,
+  convention,
+}: CameraControllerProps) {
+  const camera = useThree((state) => state.camera);
+  const gl = useThree((state) => state.gl);
+  const scene = useThree((state) => state.scene);
+  const invalidate = useThree((state) => state.invalidate);
+  // Element receiving the pointer events: the canvas container, or the
+  // sphere's own cell inside a BlochSphereGrid
+  const eventTarget = useThree((state) => state.events.connected) as
+    | HTMLElement
+    | undefined;
+  const controls = useThree(
+    (state) => state.controls
+  ) as unknown as ControlsLike | null;
+
+  const transitionRef = useRef<CameraTransition | null>(null);
+  const onCameraChangeRef = useRef(onCameraChange);
+  onCameraChangeRef.current = onCameraChange;
+
+  const getCamera = (): CameraState => ({
+    position: camera.position.toArray() as [number, number, number],
+    target: (controls?.target ?? new THREE.Vector3()).toArray() as [
+      number,
+      number,
+      number,
+    ],
+  });
+
+  const emitChange = () => onCameraChangeRef.current?.(getCamera());
+
+  // Moves received from linked cameras are not sent back out
+  const followingRef = useRef(false);
+  const followRef = useRef<(position: [number, number, number]) => void>(
+    () => {}
+  );
+
+  // User interaction through the orbit controls
+  useEffect(() => {
+    if (!controls) return;
+    const handleChange = () => {
+      const position = camera.position.toArray() as [number, number, number];
+      onCameraChangeRef.current?.({
+        position,
+        target: controls.target.toArray() as [number, number, number],
+      });
+      if (!followingRef.current) link?.publish(position, followRef.current);
+    };
+    controls.addEventListener('change', handleChange);
+    return () => controls.removeEventListener('change', handleChange);
+  }, [controls, camera, link]);
+
+  useEffect(() => {
+    if (!link) return;
+    const follow = (position: [number, number, number]) => {
+      transitionRef.current = null;
+      followingRef.current = true;
+      applyPosition(new THREE.Vector3(...position));
+      followingRef.current = false;
+      invalidate();
+    };
+    followRef.current = follow;
+    return link.subscribe(follow);
+  });
+
+  const applyPosition = (position: THREE.Vector3) => {
+    camera.position.copy(position);
+    if (controls) {
+      controls.target.set(0, 0, 0);
+      controls.update();
+    } else {
+      camera.lookAt(0, 0, 0);
+      emitChange();
+      if (!followingRef.current) {
+        link?.publish(
+          position.toArray() as [number, number, number],
+          followRef.current
+        );
+      }
+    }
+  };
+
+  const moveTo = (target: THREE.Vector3, options: CameraMoveOptions = {}) => {
+    const { animate = true, duration = DEFAULT_TRANSITION } = options;
+    if (!animate || duration <= 0) {
+      transitionRef.current = null;
+      applyPosition(target);
+      return;
+    }
+    // Rotate the viewing direction and scale the distance, so the camera
+    // orbits around the sphere instead of passing through it
+    const from = camera.position.clone();
+    transitionRef.current = {
+      from,
+      rotation: new THREE.Quaternion().setFromUnitVectors(
+        from.clone().normalize(),
+        target.clone().normalize()
+      ),
+      fromDistance: from.length(),
+      toDistance: target.length(),
+      elapsed: 0,
+      duration,
+      running: false,
+    };
+    invalidate();
+  };
+
+  useFrame((state, delta) => {
+    const transition = transitionRef.current;
+    if (!transition) return;
+
+    if (transition.running) transition.elapsed += delta * 1000;
+    transition.running = true;
+    const t = Math.min(1, transition.elapsed / transition.duration);
+    // easeInOut
+    const eased = t < 0.5 ? 2 * t * t : 1 - (-2 * t + 2) ** 2 / 2;
+
+    const rotation = new THREE.Quaternion().slerp(transition.rotation, eased);
+    const distance =
+      transition.fromDistance +
+      (transition.toDistance - transition.fromDistance) * eased;
+    applyPosition(
+      transition.from
+        .clone()
+        .normalize()
+        .applyQuaternion(rotation)
+        .multiplyScalar(distance)
+    );
+    if (t >= 1) transitionRef.current = null;
+    else state.invalidate();
+  });
+
+  // Render synchronously before reading pixels, so snapshots work without
+  // preserveDrawingBuffer
+  const capture = () => {
+    const canvas = gl.domElement;
+    const bounds = canvas.getBoundingClientRect();
+    const rect = eventTarget?.getBoundingClientRect() ?? bounds;
+    if (rect.width >= bounds.width && rect.height >= bounds.height) {
+      gl.render(scene, camera);
+      return canvas;
+    }
+
+    // Inside a shared canvas: draw only this sphere's cell and copy it out
+    const left = rect.left - bounds.left;
+    const top = rect.top - bounds.top;
+    const bottom = bounds.height - top - rect.height;
+    gl.setViewport(left, bottom, rect.width, rect.height);
+    gl.setScissor(left, bottom, rect.width, rect.height);
+    gl.setScissorTest(true);
+    gl.render(scene, camera);
+    gl.setScissorTest(false);
+    gl.setViewport(0, 0, bounds.width, bounds.height);
+
+    const ratio = gl.getPixelRatio();
+    const cell = document.createElement('canvas');
+    cell.width = Math.round(rect.width * ratio);
+    cell.height = Math.round(rect.height * ratio);
+    cell
+      .getContext('2d')
+      ?.drawImage(
+        canvas,
+        left * ratio,
+        top * ratio,
+        cell.width,
+        cell.height,
+        0,
+        0,
+        cell.width,
+        cell.height
+      );
+    invalidate();
+    return cell;
+  };
+
+  useImperativeHandle(apiRef, () => ({
+    setView: (view, options) =>
+      moveTo(
+        new THREE.Vector3(
+          ...cameraViewPosition(view, camera.position.length(), convention)
+        ),
+        options
+      ),
+    resetCamera: (options) =>
+      moveTo(new THREE.Vector3(...initialPosition), options),
+    getCamera,
+    toDataURL: (type = 'image/png', quality) =>
+      capture().toDataURL(type, quality),
+    toBlob: (type = 'image/png', quality) =>
+      new Promise((resolve) => capture().toBlob(resolve, type, quality)),
+  }));
+
+  return null;
+}
@@ -0,0 +1,53 @@
+'use client';
+
+import React from 'react';
+
+export interface ComparisonRow {
+  fromLabel: string;
+  toLabel: string;
+  fromColor?: string;
+  toColor?: string;
+  fidelity: number;
+  /** Angular distance in radians */
+  angle: number;
+}
+
+interface ComparisonReadoutProps {
+  rows: ComparisonRow[];
+}
+
+/**
+ * HTML overlay listing fidelity and angular distance between state pairs
+ */
+export function ComparisonReadout({ rows }: ComparisonReadoutProps) {
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        left: 8,
+        top: 8,
+        zIndex: 1,
+        padding: '6px 8px',
+        background: 'rgba(0, 0, 0, 0.5)',
+        borderRadius: 4,
+        color: '#ffffff',
+        fontFamily: 'monospace',
+        fontSize: 11,
+        lineHeight: 1.5,
+        pointerEvents: 'none',
+      }}
+    >
+      {rows.map((row, i) => (
+        <div key={i}>
+          <span style={{ color: row.fromColor }}>{row.fromLabel}</span>
+          {' ↔ '}
+          <span style={{ color: row.toColor }}>{row.toLabel}</span>
+          {`: F = ${row.fidelity.toFixed(3)}, Δ = ${(
+            (row.angle * 180) /
+            Math.PI
+          ).toFixed(1)}°`}
+        </div>
+      ))}
+    </div>
+  );
+}
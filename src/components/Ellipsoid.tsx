@@ -0,0 +1,56 @@
+'use client';
+
+import React, { useMemo } from 'react';
+import * as THREE from 'three';
+import type { CartesianCoordinates, CoordinateConvention } from '../types';
+import { blochMatrixToScene, blochToScene } from '../utils/coordinates';
+
+interface EllipsoidProps {
+  /** Center in Bloch coordinates */
+  center: CartesianCoordinates;
+  /** 3x3 matrix (Bloch coordinates) mapping the unit sphere onto the ellipsoid */
+  matrix: number[][];
+  color?: string;
+  opacity?: number;
+  wireframe?: boolean;
+  /** Scene axis layout */
+  convention?: CoordinateConvention;
+}
+
+/**
+ * Ellipsoid given as the image of the unit sphere under r -> matrix * r + center
+ */
+export function Ellipsoid({
+  center,
+  matrix,
+  color = '#ffaa00',
+  opacity = 0.25,
+  wireframe = false,
+  convention,
+}: EllipsoidProps) {
+  const transform = useMemo(() => {
+    const m = blochMatrixToScene(matrix, convention);
+    const [cx, cy, cz] = blochToScene(center, convention);
+    // prettier-ignore
+    return new THREE.Matrix4().set(
+      m[0][0], m[0][1], m[0][2], cx,
+      m[1][0], m[1][1], m[1][2], cy,
+      m[2][0], m[2][1], m[2][2], cz,
+      0, 0, 0, 1
+    );
+  }, [matrix, center, convention]);
+
+  return (
+    <mesh matrix={transform} matrixAutoUpdate={false}>
+      <sphereGeometry args={[1, 32, 32]} />
+      <meshStandardMaterial
+        color={color}
+        transparent
+        opacity={opacity}
+        wireframe={wireframe}
+        depthWrite={false}
+        side={THREE.DoubleSide}
+      />
+    </mesh>
+  );
+}
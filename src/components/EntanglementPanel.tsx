@@ -0,0 +1,78 @@
+'use client';
+
+import React from 'react';
+import type { EntanglementSummary } from '../types';
+
+interface EntanglementPanelProps {
+  summary: EntanglementSummary;
+  labels: string[];
+}
+
+const cellStyle: React.CSSProperties = {
+  padding: '2px 6px',
+  textAlign: 'right',
+};
+
+/**
+ * Table of per-qubit purity and entropy, followed by the concurrence of
+ * every pair of qubits (cells shaded by concurrence)
+ */
+export function EntanglementPanel({ summary, labels }: EntanglementPanelProps) {
+  const { qubits, pairs } = summary;
+  const concurrence = (i: number, j: number) =>
+    pairs.find(
+      ({ qubits: [a, b] }) => (a === i && b === j) || (a === j && b === i)
+    )?.concurrence ?? 0;
+
+  return (
+    <table
+      style={{
+        borderCollapse: 'collapse',
+        color: '#ffffff',
+        fontFamily: 'monospace',
+        fontSize: 11,
+      }}
+    >
+      <thead>
+        <tr>
+          <th style={cellStyle} />
+          <th style={cellStyle}>|r|</th>
+          <th style={cellStyle}>purity</th>
+          <th style={cellStyle}>entropy</th>
+          {qubits.length > 1 &&
+            labels.map((label, i) => (
+              <th key={i} style={cellStyle}>
+                C({label})
+              </th>
+            ))}
+        </tr>
+      </thead>
+      <tbody>
+        {qubits.map((qubit, i) => (
+          <tr key={i}>
+            <th style={cellStyle}>{labels[i]}</th>
+            <td style={cellStyle}>{(qubit.spherical.r ?? 1).toFixed(3)}</td>
+            <td style={cellStyle}>{qubit.purity.toFixed(3)}</td>
+            <td style={cellStyle}>{qubit.entropy.toFixed(3)}</td>
+            {qubits.length > 1 &&
+              qubits.map((_, j) => {
+                if (i === j) return <td key={j} style={cellStyle} />;
+                const value = concurrence(i, j);
+                return (
+                  <td
+                    key={j}
+                    style={{
+                      ...cellStyle,
+                      background: `rgba(255, 68, 68, ${value.toFixed(2)})`,
+                    }}
+                  >
+                    {value.toFixed(3)}
+                  </td>
+                );
+              })}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
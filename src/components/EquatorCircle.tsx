@@ -3,12 +3,16 @@
 import React, { useMemo } from 'react';
 import { Line } from '@react-three/drei';
 import * as THREE from 'three';
+import type { CoordinateConvention } from '../types';
+import { blochToScene } from '../utils/coordinates';
 
 interface EquatorCircleProps {
   color?: string;
   lineWidth?: number;
   segments?: number;
   showMeridians?: boolean;
+  /** Scene axis layout */
+  convention?: CoordinateConvention;
 }
 
 export function EquatorCircle({
@@ -16,6 +20,7 @@ export function EquatorCircle({
   lineWidth = 1,
   segments = 64,
   showMeridians = false,
+  convention,
 }: EquatorCircleProps) {
   const { equatorPoints, meridianXZPoints, meridianYZPoints } = useMemo(() => {
     const equator: THREE.Vector3[] = [];
@@ -24,15 +29,19 @@ export function EquatorCircle({
 
     for (let i = 0; i <= segments; i++) {
       const angle = (i / segments) * Math.PI * 2;
+      const cos = Math.cos(angle);
+      const sin = Math.sin(angle);
+      const toScene = (x: number, y: number, z: number) =>
+        new THREE.Vector3(...blochToScene({ x, y, z }, convention));
 
-      // Equator (XZ plane in Three.js, which is XY plane in Bloch sphere)
-      equator.push(new THREE.Vector3(Math.cos(angle), 0, Math.sin(angle)));
+      // Equator (Bloch XY plane)
+      equator.push(toScene(cos, sin, 0));
 
-      // Meridian in XY plane (Three.js)
-      meridianXZ.push(new THREE.Vector3(Math.cos(angle), Math.sin(angle), 0));
+      // Meridian through |+⟩ and |0⟩ (Bloch XZ plane)
+      meridianXZ.push(toScene(cos, 0, sin));
 
-      // Meridian in YZ plane (Three.js)
-      meridianYZ.push(new THREE.Vector3(0, Math.sin(angle), Math.cos(angle)));
+      // Meridian through |+i⟩ and |0⟩ (Bloch YZ plane)
+      meridianYZ.push(toScene(0, cos, sin));
     }
 
     return {
@@ -40,7 +49,7 @@ export function EquatorCircle({
       meridianXZPoints: meridianXZ,
       meridianYZPoints: meridianYZ,
     };
-  }, [segments]);
+  }, [segments, convention]);
 
   return (
     <group>
@@ -0,0 +1,98 @@
+'use client';
+
+import React from 'react';
+import type { CartesianCoordinates } from '../types';
+
+interface ExpectationPanelProps {
+  /** ⟨X⟩, ⟨Y⟩, ⟨Z⟩ */
+  expectations: CartesianCoordinates;
+  /** Computational basis probabilities [P(0), P(1)] */
+  probabilities: [number, number];
+  xColor?: string;
+  yColor?: string;
+  zColor?: string;
+}
+
+const BAR_WIDTH = 80;
+
+/**
+ * HTML overlay with Pauli expectation bars (from -1 to 1) and the
+ * computational basis probabilities
+ */
+export function ExpectationPanel({
+  expectations,
+  probabilities,
+  xColor = '#ff0000',
+  yColor = '#00ff00',
+  zColor = '#0000ff',
+}: ExpectationPanelProps) {
+  const rows: [string, number, string][] = [
+    ['⟨X⟩', expectations.x, xColor],
+    ['⟨Y⟩', expectations.y, yColor],
+    ['⟨Z⟩', expectations.z, zColor],
+  ];
+
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        right: 8,
+        top: 8,
+        zIndex: 1,
+        padding: '6px 8px',
+        background: 'rgba(0, 0, 0, 0.5)',
+        borderRadius: 4,
+        color: '#ffffff',
+        fontFamily: 'monospace',
+        fontSize: 11,
+        lineHeight: 1.5,
+        pointerEvents: 'none',
+      }}
+    >
+      {rows.map(([label, value, color]) => (
+        <div
+          key={label}
+          style={{ display: 'flex', gap: 6, alignItems: 'center' }}
+        >
+          <span>{label}</span>
+          <div
+            style={{
+              position: 'relative',
+              width: BAR_WIDTH,
+              height: 8,
+              background: 'rgba(255, 255, 255, 0.15)',
+            }}
+          >
+            {/* Bars grow from the center: left for negative values */}
+            <div
+              style={{
+                position: 'absolute',
+                top: 0,
+                bottom: 0,
+                left: (BAR_WIDTH / 2) * (1 + Math.min(0, value)),
+                width: (BAR_WIDTH / 2) * Math.abs(value),
+                background: color,
+              }}
+            />
+            <div
+              style={{
+                position: 'absolute',
+                top: 0,
+                bottom: 0,
+                left: BAR_WIDTH / 2,
+                borderLeft: '1px solid #ffffff',
+              }}
+            />
+          </div>
+          <span style={{ width: 42, textAlign: 'right' }}>
+            {value.toFixed(2)}
+          </span>
+        </div>
+      ))}
+      <div>
+        P(0) = {probabilities[0].toFixed(3)}, P(1) ={' '}
+        {probabilities[1].toFixed(3)}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+'use client';
+
+import React, { useMemo } from 'react';
+import { Line } from '@react-three/drei';
+import * as THREE from 'three';
+import type { CartesianCoordinates, CoordinateConvention } from '../types';
+import { blochToScene } from '../utils/coordinates';
+
+interface FieldVectorProps {
+  /** Field direction in Bloch coordinates (only the direction is shown) */
+  field: CartesianCoordinates;
+  color?: string;
+  length?: number;
+  lineWidth?: number;
+  /** Scene axis layout */
+  convention?: CoordinateConvention;
+}
+
+/**
+ * Dashed arrow along the instantaneous rotation axis (Hamiltonian field)
+ */
+export function FieldVector({
+  field,
+  color = '#00ddff',
+  length = 1.2,
+  lineWidth = 2,
+  convention,
+}: FieldVectorProps) {
+  const geometry = useMemo(() => {
+    const direction = new THREE.Vector3(...blochToScene(field, convention));
+    if (direction.lengthSq() === 0) return null;
+    direction.normalize();
+
+    const quaternion = new THREE.Quaternion();
+    quaternion.setFromUnitVectors(new THREE.Vector3(0, 1, 0), direction);
+
+    return {
+      end: direction.clone().multiplyScalar(length - 0.06),
+      tip: direction.clone().multiplyScalar(length),
+      quaternion,
+    };
+  }, [field, length, convention]);
+
+  if (!geometry) return null;
+
+  return (
+    <group>
+      <Line
+        points={[new THREE.Vector3(0, 0, 0), geometry.end]}
+        color={color}
+        lineWidth={lineWidth}
+        dashed
+        dashSize={0.06}
+        gapSize={0.04}
+      />
+      <mesh position={geometry.tip} quaternion={geometry.quaternion}>
+        <coneGeometry args={[0.04, 0.1, 12]} />
+        <meshStandardMaterial color={color} />
+      </mesh>
+    </group>
+  );
+}
@@ -0,0 +1,97 @@
+'use client';
+
+import React, {
+  createContext,
+  useId,
+  useLayoutEffect,
+  useState,
+  useSyncExternalStore,
+} from 'react';
+import type { ReactNode, RefObject } from 'react';
+import type { CameraLink } from '../types';
+
+/**
+ * Scene drawn by a BlochSphereGrid over one of its cells
+ */
+export interface GridViewEntry {
+  /** Cell the scene is drawn over; it also receives the pointer events */
+  track: RefObject<HTMLElement | null>;
+  /** Canvas contents, including the camera */
+  content: ReactNode;
+}
+
+/**
+ * Provided by BlochSphereGrid to the spheres inside it
+ */
+export interface GridContextValue {
+  /** Add, replace or (with null) remove the scene of a cell */
+  setView: (id: string, view: GridViewEntry | null) => void;
+  /** Link shared by all spheres, when the grid links cameras */
+  cameraLink?: CameraLink;
+}
+
+export const GridContext = createContext<GridContextValue | null>(null);
+
+/**
+ * Latest canvas contents of a sphere. The grid renders them through
+ * GridViewContent, so an update re-renders that cell only, not the grid.
+ */
+function createContentSource(initial: ReactNode) {
+  let content = initial;
+  const listeners = new Set<() => void>();
+  return {
+    get: () => content,
+    set: (next: ReactNode) => {
+      if (next === content) return;
+      content = next;
+      listeners.forEach((listener) => listener());
+    },
+    subscribe: (listener: () => void) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+type ContentSource = ReturnType<typeof createContentSource>;
+
+function GridViewContent({ source }: { source: ContentSource }) {
+  const content = useSyncExternalStore(
+    source.subscribe,
+    source.get,
+    source.get
+  );
+  return <>{content}</>;
+}
+
+interface GridViewProps {
+  grid: GridContextValue;
+  track: RefObject<HTMLElement | null>;
+  children: ReactNode;
+}
+
+/**
+ * Hands a sphere's canvas contents to the enclosing grid, which renders
+ * them in its shared canvas over `track`
+ */
+export function GridView({ grid, track, children }: GridViewProps) {
+  const id = useId();
+  const [source] = useState(() => createContentSource(children));
+
+  // Registered once; later contents go through the source
+  useLayoutEffect(() => {
+    grid.setView(id, {
+      track,
+      content: <GridViewContent source={source} />,
+    });
+    return () => grid.setView(id, null);
+  }, [grid, id, track, source]);
+
+  useLayoutEffect(() => {
+    source.set(children);
+  });
+
+  return null;
+}
@@ -0,0 +1,58 @@
+'use client';
+
+import React, { useMemo } from 'react';
+import { Line } from '@react-three/drei';
+import * as THREE from 'three';
+import type { CartesianCoordinates, CoordinateConvention } from '../types';
+import { blochToScene } from '../utils/coordinates';
+
+interface MeasurementAxisProps {
+  axis: CartesianCoordinates;
+  color?: string;
+  length?: number;
+  lineWidth?: number;
+  /** Scene axis layout */
+  convention?: CoordinateConvention;
+}
+
+export function MeasurementAxis({
+  axis,
+  color = '#ffcc00',
+  length = 1.25,
+  lineWidth = 2,
+  convention,
+}: MeasurementAxisProps) {
+  const { start, end, plus, minus } = useMemo(() => {
+    const direction = new THREE.Vector3(
+      ...blochToScene(axis, convention)
+    ).normalize();
+    return {
+      start: direction.clone().multiplyScalar(-length),
+      end: direction.clone().multiplyScalar(length),
+      plus: direction.clone(),
+      minus: direction.clone().negate(),
+    };
+  }, [axis, length, convention]);
+
+  return (
+    <group>
+      <Line
+        points={[start, end]}
+        color={color}
+        lineWidth={lineWidth}
+        dashed
+        dashSize={0.05}
+        gapSize={0.03}
+      />
+      {/* Eigenstates of the measurement */}
+      <mesh position={plus}>
+        <sphereGeometry args={[0.035, 16, 16]} />
+        <meshStandardMaterial color={color} />
+      </mesh>
+      <mesh position={minus}>
+        <sphereGeometry args={[0.035, 16, 16]} />
+        <meshStandardMaterial color={color} />
+      </mesh>
+    </group>
+  );
+}
@@ -0,0 +1,83 @@
+'use client';
+
+import React from 'react';
+
+interface MeasurementHistogramProps {
+  counts: [number, number];
+  /** Born-rule probabilities [p0, p1] drawn as markers over the bars */
+  probabilities?: [number, number];
+  labels?: [string, string];
+  color?: string;
+}
+
+/**
+ * HTML overlay showing measured outcome frequencies
+ */
+export function MeasurementHistogram({
+  counts,
+  probabilities,
+  labels = ['0', '1'],
+  color = '#ffcc00',
+}: MeasurementHistogramProps) {
+  const total = counts[0] + counts[1];
+  const barHeight = 80;
+
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        right: 8,
+        bottom: 8,
+        zIndex: 1,
+        padding: '6px 8px',
+        background: 'rgba(0, 0, 0, 0.5)',
+        borderRadius: 4,
+        color: '#ffffff',
+        fontFamily: 'monospace',
+        fontSize: 11,
+        pointerEvents: 'none',
+      }}
+    >
+      <div style={{ display: 'flex', gap: 12, alignItems: 'flex-end' }}>
+        {([0, 1] as const).map((outcome) => {
+          const frequency = total > 0 ? counts[outcome] / total : 0;
+          return (
+            <div key={outcome} style={{ textAlign: 'center', width: 32 }}>
+              <div
+                style={{
+                  position: 'relative',
+                  height: barHeight,
+                  display: 'flex',
+                  alignItems: 'flex-end',
+                  justifyContent: 'center',
+                }}
+              >
+                <div
+                  style={{
+                    width: 20,
+                    height: frequency * barHeight,
+                    background: color,
+                  }}
+                />
+                {probabilities && (
+                  <div
+                    style={{
+                      position: 'absolute',
+                      left: 0,
+                      right: 0,
+                      bottom: probabilities[outcome] * barHeight,
+                      borderTop: '1px dashed #ffffff',
+                    }}
+                  />
+                )}
+              </div>
+              <div>{labels[outcome]}</div>
+              <div>{counts[outcome]}</div>
+            </div>
+          );
+        })}
+      </div>
+      <div style={{ textAlign: 'center', marginTop: 2 }}>n = {total}</div>
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+'use client';
+
+import React, { useEffect, useRef } from 'react';
+import type { RefObject } from 'react';
+import type { ThreeEvent } from '@react-three/fiber';
+import * as THREE from 'three';
+import type { CoordinateConvention, SphericalCoordinates } from '../types';
+import {
+  cartesianToSpherical,
+  sphericalToCartesian,
+} from '../utils/quantum-math';
+import { blochToScene, sceneToBloch } from '../utils/coordinates';
+import { useStateFrame } from '../hooks/useStateFrame';
+
+interface StateDragHandleProps {
+  /** Current state, read on every frame */
+  stateRef: RefObject<SphericalCoordinates>;
+  /** Radius of the invisible grab target around the arrowhead */
+  handleSize?: number;
+  onDragStart?: () => void;
+  onDrag: (coords: SphericalCoordinates) => void;
+  onDragEnd?: () => void;
+  /** Scene axis layout */
+  convention?: CoordinateConvention;
+}
+
+const unitSphere = new THREE.Sphere(new THREE.Vector3(0, 0, 0), 1);
+
+/**
+ * Project a pointer ray onto the unit sphere. Rays that miss the sphere
+ * are mapped to the closest point on its silhouette.
+ */
+function rayToSpherical(
+  ray: THREE.Ray,
+  convention?: CoordinateConvention
+): SphericalCoordinates {
+  const hit = ray.intersectSphere(unitSphere, new THREE.Vector3());
+  const point =
+    hit ?? ray.closestPointToPoint(unitSphere.center, new THREE.Vector3());
+  const { theta, phi } = cartesianToSpherical(
+    sceneToBloch(point.toArray(), convention)
+  );
+  return { theta, phi };
+}
+
+export function StateDragHandle({
+  stateRef,
+  handleSize = 0.12,
+  onDragStart,
+  onDrag,
+  onDragEnd,
+  convention,
+}: StateDragHandleProps) {
+  const draggingRef = useRef(false);
+  const hoveredRef = useRef(false);
+  const meshRef = useRef<THREE.Mesh>(null);
+
+  // Pointer-out never fires when the handle disappears under the pointer
+  useEffect(
+    () => () => {
+      if (hoveredRef.current) document.body.style.cursor = 'auto';
+    },
+    []
+  );
+
+  useStateFrame(stateRef, (coords) => {
+    meshRef.current?.position.set(
+      ...blochToScene(sphericalToCartesian(coords), convention)
+    );
+  });
+
+  const handlePointerDown = (e: ThreeEvent<PointerEvent>) => {
+    e.stopPropagation();
+    (e.target as Element).setPointerCapture(e.pointerId);
+    draggingRef.current = true;
+    onDragStart?.();
+  };
+
+  const handlePointerMove = (e: ThreeEvent<PointerEvent>) => {
+    if (!draggingRef.current) return;
+    e.stopPropagation();
+    // The sphere may be moved and scaled within a larger scene
+    const ray = e.ray.clone();
+    const parent = meshRef.current?.parent;
+    if (parent) ray.applyMatrix4(parent.matrixWorld.clone().invert());
+    onDrag(rayToSpherical(ray, convention));
+  };
+
+  const handlePointerUp = (e: ThreeEvent<PointerEvent>) => {
+    if (!draggingRef.current) return;
+    e.stopPropagation();
+    (e.target as Element).releasePointerCapture(e.pointerId);
+    draggingRef.current = false;
+    onDragEnd?.();
+  };
+
+  const setHovered = (hovered: boolean) => () => {
+    hoveredRef.current = hovered;
+    document.body.style.cursor = hovered ? 'grab' : 'auto';
+  };
+
+  return (
+    <mesh
+      ref={meshRef}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onPointerOver={setHovered(true)}
+      onPointerOut={setHovered(false)}
+    >
+      <sphereGeometry args={[handleSize, 16, 16]} />
+      <meshBasicMaterial transparent opacity={0} depthWrite={false} />
+    </mesh>
+  );
+}
@@ -1,52 +1,98 @@
 'use client';
 
-import React, { useMemo } from 'react';
-import { Line } from '@react-three/drei';
+import React, { useRef } from 'react';
+import type { RefObject } from 'react';
+import { Line, Text } from '@react-three/drei';
 import * as THREE from 'three';
+import type { CoordinateConvention, SphericalCoordinates } from '../types';
 import { sphericalToCartesian } from '../utils/quantum-math';
+import { blochToScene } from '../utils/coordinates';
+import { useStateFrame } from '../hooks/useStateFrame';
 
 interface StateVectorProps {
-  theta: number;
-  phi: number;
+  /**
+   * Current state, read on every frame; the vector length is `r`
+   * (1 for pure states, < 1 for mixed states)
+   */
+  stateRef: RefObject<SphericalCoordinates>;
   color?: string;
   lineWidth?: number;
+  /** Text shown just beyond the arrowhead */
+  label?: string;
+  labelSize?: number;
+  /** Scene axis layout */
+  convention?: CoordinateConvention;
 }
 
+const CONE_HEIGHT = 0.15;
+const UP = new THREE.Vector3(0, 1, 0);
+/** Unit shaft along local +Y, scaled to the arrow length */
+const SHAFT = [new THREE.Vector3(0, 0, 0), UP];
+
 export function StateVector({
-  theta,
-  phi,
+  stateRef,
   color = '#ff4444',
   lineWidth = 3,
+  label,
+  labelSize = 0.1,
+  convention,
 }: StateVectorProps) {
-  const { position, quaternion, arrowEnd } = useMemo(() => {
-    const cart = sphericalToCartesian({ theta, phi });
-    // In Three.js: we map Bloch sphere (x,y,z) to Three.js (x,z,y) for Y-up convention
-    // Actually, let's keep it simple: x->x, y->y, z->z but rotate the camera
-    const position = new THREE.Vector3(cart.x, cart.z, cart.y);
+  // The arrow is built along +Y and turned towards the state, so following
+  // an animation only touches transforms
+  const arrowRef = useRef<THREE.Group>(null);
+  const shaftRef = useRef<THREE.Group>(null);
+  const coneRef = useRef<THREE.Mesh>(null);
+  const labelRef = useRef<THREE.Mesh>(null);
 
-    // Calculate rotation to point cone in correct direction
-    const direction = position.clone().normalize();
-    const quaternion = new THREE.Quaternion();
-    quaternion.setFromUnitVectors(new THREE.Vector3(0, 1, 0), direction);
+  useStateFrame(stateRef, ({ theta, phi, r: radius = 1 }) => {
+    const direction = new THREE.Vector3(
+      ...blochToScene(sphericalToCartesian({ theta, phi }), convention)
+    );
+    arrowRef.current?.quaternion.setFromUnitVectors(UP, direction);
 
     // Arrow shaft ends slightly before the tip to leave room for the cone
-    const arrowLength = 0.92;
-    const arrowEnd = position.clone().normalize().multiplyScalar(arrowLength);
+    const arrowLength = Math.max(0, radius - 0.08);
+    if (shaftRef.current) {
+      shaftRef.current.visible = arrowLength > 0;
+      shaftRef.current.scale.setScalar(arrowLength || 1);
+    }
 
-    return { position, quaternion, arrowEnd };
-  }, [theta, phi]);
+    // Shrink the cone for short (strongly mixed) vectors so it stays inside
+    const coneScale = Math.min(1, radius / CONE_HEIGHT);
+    if (coneRef.current) {
+      coneRef.current.visible = coneScale > 0;
+      coneRef.current.position.set(0, radius, 0);
+      coneRef.current.scale.setScalar(coneScale || 1);
+    }
 
-  const origin = new THREE.Vector3(0, 0, 0);
+    // Label sits just outside the arrowhead (or the origin for r = 0)
+    labelRef.current?.position.copy(direction.multiplyScalar(radius + 0.15));
+  });
 
   return (
     <group>
-      {/* Arrow shaft */}
-      <Line points={[origin, arrowEnd]} color={color} lineWidth={lineWidth} />
-      {/* Arrow head (cone) */}
-      <mesh position={position} quaternion={quaternion}>
-        <coneGeometry args={[0.06, 0.15, 16]} />
-        <meshStandardMaterial color={color} />
-      </mesh>
+      <group ref={arrowRef}>
+        {/* Arrow shaft */}
+        <group ref={shaftRef}>
+          <Line points={SHAFT} color={color} lineWidth={lineWidth} />
+        </group>
+        {/* Arrow head (cone) */}
+        <mesh ref={coneRef}>
+          <coneGeometry args={[0.06, CONE_HEIGHT, 16]} />
+          <meshStandardMaterial color={color} />
+        </mesh>
+      </group>
+      {label && (
+        <Text
+          ref={labelRef}
+          fontSize={labelSize}
+          color={color}
+          anchorX="center"
+          anchorY="middle"
+        >
+          {label}
+        </Text>
+      )}
     </group>
   );
 }
@@ -1,44 +1,169 @@
 'use client';
 
-import React, { useMemo } from 'react';
-import { Line } from '@react-three/drei';
+import React, { useEffect, useMemo } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
 import * as THREE from 'three';
-import type { SphericalCoordinates } from '../types';
-import { sphericalToCartesian } from '../utils/quantum-math';
+import { LineSegments2 } from 'three/examples/jsm/lines/LineSegments2.js';
+import { LineSegmentsGeometry } from 'three/examples/jsm/lines/LineSegmentsGeometry.js';
+import { LineMaterial } from 'three/examples/jsm/lines/LineMaterial.js';
+import type { CoordinateConvention, TrajectoryBuffer } from '../types';
+import { conventionMatrix } from '../utils/coordinates';
 
 interface TrajectoryProps {
-  points: SphericalCoordinates[];
+  /** Segments to draw, in Bloch coordinates */
+  buffer: TrajectoryBuffer;
   color?: string;
   lineWidth?: number;
   fadeOpacity?: boolean;
-  maxPoints?: number;
+  minOpacity?: number;
+  fadeColor?: string;
+  /** Scene axis layout */
+  convention?: CoordinateConvention;
 }
 
+/**
+ * Line material that blends each vertex by its age in samples, from the
+ * line color at the newest point to `fadeColor` and `minOpacity` at the
+ * oldest. Ages come from a uniform, so appending never touches old vertices.
+ */
+function createFadeMaterial(): LineMaterial {
+  const material = new LineMaterial();
+  Object.assign(material.uniforms, {
+    newestSample: { value: 0 },
+    sampleSpan: { value: 1 },
+    fadeColor: { value: new THREE.Color() },
+    minOpacity: { value: 1 },
+  });
+  material.onBeforeCompile = (shader) => {
+    shader.vertexShader = shader.vertexShader.replace(
+      'void main() {',
+      `attribute float instanceSampleStart;
+      attribute float instanceSampleEnd;
+      uniform float newestSample;
+      uniform float sampleSpan;
+      varying float vAge;
+      void main() {
+        float sampleIndex = ( position.y < 0.5 ) ? instanceSampleStart : instanceSampleEnd;
+        vAge = clamp( ( newestSample - sampleIndex ) / sampleSpan, 0.0, 1.0 );`
+    );
+    shader.fragmentShader = shader.fragmentShader
+      .replace(
+        'void main() {',
+        `uniform vec3 fadeColor;
+        uniform float minOpacity;
+        varying float vAge;
+        void main() {`
+      )
+      .replace(
+        '#include <tonemapping_fragment>',
+        `gl_FragColor.rgb = mix( gl_FragColor.rgb, fadeColor, vAge );
+        gl_FragColor.a *= mix( 1.0, minOpacity, vAge );
+        #include <tonemapping_fragment>`
+      );
+  };
+  return material;
+}
+
+/**
+ * Trajectory drawn from a ring buffer. Only the slots written since the
+ * previous frame are uploaded, so very long paths stay cheap to extend.
+ */
 export function Trajectory({
-  points,
+  buffer,
   color = '#ff6b6b',
   lineWidth = 2,
   fadeOpacity = false,
-  maxPoints = 100,
+  minOpacity = 0.05,
+  fadeColor,
+  convention,
 }: TrajectoryProps) {
-  const linePoints = useMemo(() => {
-    const recentPoints = points.slice(-maxPoints);
-    return recentPoints.map((coords) => {
-      const cart = sphericalToCartesian(coords);
-      // Map to Three.js coordinate system (Y-up)
-      return new THREE.Vector3(cart.x, cart.z, cart.y);
-    });
-  }, [points, maxPoints]);
-
-  if (linePoints.length < 2) return null;
-
-  return (
-    <Line
-      points={linePoints}
-      color={color}
-      lineWidth={lineWidth}
-      opacity={fadeOpacity ? 0.7 : 1}
-      transparent={fadeOpacity}
-    />
+  const line = useMemo(() => {
+    const geometry = new LineSegmentsGeometry();
+    const positions = new THREE.InstancedInterleavedBuffer(
+      buffer.positions,
+      6,
+      1
+    ).setUsage(THREE.DynamicDrawUsage);
+    geometry.setAttribute(
+      'instanceStart',
+      new THREE.InterleavedBufferAttribute(positions, 3, 0)
+    );
+    geometry.setAttribute(
+      'instanceEnd',
+      new THREE.InterleavedBufferAttribute(positions, 3, 3)
+    );
+    const samples = new THREE.InstancedInterleavedBuffer(
+      buffer.samples,
+      2,
+      1
+    ).setUsage(THREE.DynamicDrawUsage);
+    geometry.setAttribute(
+      'instanceSampleStart',
+      new THREE.InterleavedBufferAttribute(samples, 1, 0)
+    );
+    geometry.setAttribute(
+      'instanceSampleEnd',
+      new THREE.InterleavedBufferAttribute(samples, 1, 1)
+    );
+    geometry.instanceCount = buffer.count;
+
+    const line = new LineSegments2(geometry, createFadeMaterial());
+    // The path stays inside the Bloch ball; skip recomputing its bounds
+    line.frustumCulled = false;
+    line.matrixAutoUpdate = false;
+    return line;
+  }, [buffer]);
+
+  const invalidate = useThree((state) => state.invalidate);
+
+  useEffect(
+    () => () => {
+      line.geometry.dispose();
+      line.material.dispose();
+    },
+    [line]
   );
+
+  useEffect(() => {
+    const material = line.material;
+    material.color.set(color);
+    material.linewidth = lineWidth;
+    material.transparent = fadeOpacity;
+    material.uniforms.fadeColor.value.set(fadeColor ?? color);
+    material.uniforms.minOpacity.value = fadeOpacity ? minOpacity : 1;
+    material.needsUpdate = true;
+    invalidate();
+  }, [line, color, lineWidth, fadeOpacity, minOpacity, fadeColor, invalidate]);
+
+  // Bloch coordinates are mapped to the scene by the object's matrix
+  useEffect(() => {
+    const m = conventionMatrix(convention);
+    line.matrix.setFromMatrix3(
+      new THREE.Matrix3().set(...m[0], ...m[1], ...m[2])
+    );
+    line.matrixWorldNeedsUpdate = true;
+    invalidate();
+  }, [line, convention, invalidate]);
+
+  useFrame(() => {
+    const geometry = line.geometry;
+    const attribute = (name: string) =>
+      (geometry.getAttribute(name) as THREE.InterleavedBufferAttribute).data;
+    const positions = attribute('instanceStart');
+    const samples = attribute('instanceSampleStart');
+
+    for (const [first, count] of buffer.takeUpdates()) {
+      positions.addUpdateRange(first * 6, count * 6);
+      samples.addUpdateRange(first * 2, count * 2);
+      positions.needsUpdate = true;
+      samples.needsUpdate = true;
+    }
+    geometry.instanceCount = buffer.count;
+
+    const { uniforms } = line.material;
+    uniforms.newestSample.value = buffer.newest;
+    uniforms.sampleSpan.value = Math.max(1, buffer.newest - buffer.oldest);
+  });
+
+  return <primitive object={line} />;
 }
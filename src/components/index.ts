@@ -4,3 +4,15 @@ export { StateVector } from './StateVector';
 export { AxisLabels } from './AxisLabels';
 export { EquatorCircle } from './EquatorCircle';
 export { Trajectory } from './Trajectory';
+export { StateDragHandle } from './StateDragHandle';
+export { MeasurementAxis } from './MeasurementAxis';
+export { MeasurementHistogram } from './MeasurementHistogram';
+export { AnimatedStateVector } from './AnimatedStateVector';
+export { ComparisonReadout } from './ComparisonReadout';
+export { FieldVector } from './FieldVector';
+export { Ellipsoid } from './Ellipsoid';
+export { CameraController } from './CameraController';
+export { AngleAnnotations } from './AngleAnnotations';
+export { ExpectationPanel } from './ExpectationPanel';
+export { GridView, GridContext } from './GridView';
+export { EntanglementPanel } from './EntanglementPanel';
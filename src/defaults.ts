@@ -0,0 +1,63 @@
+import type {
+  BlochSphereStyle,
+  CameraConfig,
+  LabelledState,
+  SphericalCoordinates,
+} from './types';
+
+export const defaultStyle: Required<BlochSphereStyle> = {
+  sphereColor: '#4a90d9',
+  sphereOpacity: 0.3,
+  stateVectorColor: '#ff4444',
+  fieldVectorColor: '#00ddff',
+  ellipsoidColor: '#ffaa00',
+  ellipsoidOpacity: 0.25,
+  xAxisColor: '#ff0000',
+  yAxisColor: '#00ff00',
+  zAxisColor: '#0000ff',
+  labelSize: 0.15,
+  labelColor: '#ffffff',
+  showLabels: true,
+  showEquator: true,
+  showMeridians: false,
+  backgroundColor: 'transparent',
+};
+
+// Colors for additional states when comparing several on one sphere
+export const comparisonPalette = [
+  '#44aaff',
+  '#44dd88',
+  '#ffaa33',
+  '#dd66ff',
+  '#33dddd',
+  '#ffee55',
+];
+
+/**
+ * Color of the state at `index` of a state list: its own color, else the
+ * state vector color for the first state and the palette for the others
+ */
+export function stateColor(
+  entries: LabelledState[],
+  index: number,
+  stateVectorColor: string
+): string {
+  return (
+    entries[index]?.color ??
+    (index === 0
+      ? stateVectorColor
+      : comparisonPalette[(index - 1) % comparisonPalette.length])
+  );
+}
+
+// Default history; a shared array, so effects depending on it stay idle
+export const emptyHistory: SphericalCoordinates[] = [];
+
+export const defaultCamera: Required<CameraConfig> = {
+  position: [2.5, 2.5, 2.5],
+  fov: 50,
+  enableOrbitControls: true,
+  enableZoom: true,
+  enablePan: false,
+  autoRotateSpeed: 0,
+};
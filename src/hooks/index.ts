@@ -1 +1,9 @@
 export { useAnimation, useAnimationStatus } from './useAnimation';
+export { useMeasurement } from './useMeasurement';
+export { useTrajectoryRecorder } from './useTrajectoryRecorder';
+export { useTrajectoryBuffer } from './useTrajectoryBuffer';
+export { useTimeEvolution } from './useTimeEvolution';
+export { useCircuitPlayback } from './useCircuitPlayback';
+export { useTimeSeriesPlayback } from './useTimeSeriesPlayback';
+export { useFrameAnimation } from './useFrameAnimation';
+export { useStateFrame } from './useStateFrame';
@@ -1,11 +1,21 @@
 'use client';
 
-import { useState, useEffect, useRef, useCallback } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import type { SphericalCoordinates, AnimationConfig } from '../types';
-import { slerp, easingFunctions } from '../utils/quantum-math';
+import { createStateAnimator } from '../utils/animator';
 
 /**
  * Hook for animating between Bloch sphere states using spherical interpolation.
+ * In 'rotation' mode the state instead sweeps about the axis of
+ * `config.rotation` (or the smallest rotation if none is given); in
+ * 'collapse' mode it moves in a straight line through the ball.
+ * With a spring easing the state follows a damped spring instead of a
+ * fixed duration, and a new target picks up the current velocity rather
+ * than starting again from rest (in 'rotation' and 'collapse' mode, the
+ * speed along the new path).
+ *
+ * Every frame of the animation is a React state update. Inside a Canvas,
+ * prefer useFrameAnimation, which moves objects without re-rendering.
  *
  * @param targetState - The target spherical coordinates to animate to
  * @param config - Animation configuration (duration, easing, enabled)
@@ -19,85 +29,43 @@ export function useAnimation(
   onStart?: () => void,
   onEnd?: () => void
 ): SphericalCoordinates {
-  const { enabled = true, duration = 300, easing = 'easeInOut' } = config;
-
   const [currentState, setCurrentState] = useState(targetState);
-  const animationRef = useRef<number | null>(null);
-  const startStateRef = useRef(targetState);
-  const startTimeRef = useRef<number | null>(null);
-  const isFirstRender = useRef(true);
-  const prevTargetRef = useRef(targetState);
+  const [animator] = useState(() => createStateAnimator(targetState));
 
-  // Check if target actually changed
-  const targetChanged =
-    prevTargetRef.current.theta !== targetState.theta ||
-    prevTargetRef.current.phi !== targetState.phi;
+  // Latest config and callbacks; inline objects must not restart the effect
+  const latestRef = useRef({ config, onStart, onEnd });
+  latestRef.current = { config, onStart, onEnd };
 
+  const { theta, phi, r } = targetState;
   useEffect(() => {
-    // Skip animation on first render
-    if (isFirstRender.current) {
-      isFirstRender.current = false;
-      setCurrentState(targetState);
-      prevTargetRef.current = targetState;
-      return;
-    }
-
-    // Skip if target hasn't changed
-    if (!targetChanged) {
+    animator.setTarget({ theta, phi, r }, latestRef.current.config);
+    if (!animator.active) {
+      setCurrentState(animator.state);
       return;
     }
 
-    prevTargetRef.current = targetState;
-
-    // If animation disabled, jump immediately
-    if (!enabled) {
-      setCurrentState(targetState);
-      return;
-    }
-
-    // Cancel any ongoing animation
-    if (animationRef.current) {
-      cancelAnimationFrame(animationRef.current);
-    }
-
-    startStateRef.current = currentState;
-    startTimeRef.current = null;
-    onStart?.();
-
-    const easingFn = easingFunctions[easing];
+    let frameId: number | null = null;
+    let lastTimestamp: number | null = null;
 
     const animate = (timestamp: number) => {
-      if (startTimeRef.current === null) {
-        startTimeRef.current = timestamp;
-      }
-
-      const elapsed = timestamp - startTimeRef.current;
-      const progress = Math.min(elapsed / duration, 1);
-      const easedProgress = easingFn(progress);
-
-      const interpolated = slerp(
-        startStateRef.current,
-        targetState,
-        easedProgress
+      const frame = animator.step(
+        lastTimestamp === null ? 0 : timestamp - lastTimestamp
       );
-      setCurrentState(interpolated);
+      lastTimestamp = timestamp;
 
-      if (progress < 1) {
-        animationRef.current = requestAnimationFrame(animate);
-      } else {
-        animationRef.current = null;
-        onEnd?.();
-      }
+      if (frame.started) latestRef.current.onStart?.();
+      if (frame.changed) setCurrentState(frame.state);
+      if (frame.finished) latestRef.current.onEnd?.();
+      frameId = animator.active ? requestAnimationFrame(animate) : null;
     };
 
-    animationRef.current = requestAnimationFrame(animate);
-
+    frameId = requestAnimationFrame(animate);
     return () => {
-      if (animationRef.current) {
-        cancelAnimationFrame(animationRef.current);
+      if (frameId !== null) {
+        cancelAnimationFrame(frameId);
       }
     };
-  }, [targetState.theta, targetState.phi, enabled, duration, easing]);
+  }, [animator, theta, phi, r]);
 
   return currentState;
 }
@@ -0,0 +1,252 @@
+'use client';
+
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import type { Gate, QuantumState, SphericalCoordinates } from '../types';
+import {
+  cartesianToSpherical,
+  quantumStateToSpherical,
+  sphericalToCartesian,
+} from '../utils/quantum-math';
+import {
+  buildCircuitTimeline,
+  circuitBoundaries,
+  circuitDuration,
+  circuitPositionAt,
+  sampleCircuitPath,
+} from '../utils/circuit';
+
+interface UseCircuitPlaybackOptions {
+  /** Duration of every gate, or one duration per gate, in ms (default: 800) */
+  gateDuration?: number | number[];
+  /** Restart from the beginning after the last gate (default: false) */
+  loop?: boolean;
+  /** Start playing on mount (default: false) */
+  autoPlay?: boolean;
+  /** Playback speed multiplier (default: 1) */
+  speed?: number;
+  /** Trajectory points per gate (default: 16) */
+  samplesPerGate?: number;
+}
+
+/**
+ * Hook that plays a sequence of single-qubit gates on a timeline.
+ * Pass `state` to BlochSphere (with animation disabled) and `history`
+ * as its trajectory.
+ *
+ * @param gates - Gates in application order
+ * @param initialState - State before the first gate
+ * @param options - Gate durations, looping, autoplay and speed
+ * @returns Current state, timeline position, gate-by-gate history and controls
+ */
+export function useCircuitPlayback(
+  gates: Gate[],
+  initialState: QuantumState,
+  options: UseCircuitPlaybackOptions = {}
+) {
+  const {
+    gateDuration = 800,
+    loop: initialLoop = false,
+    autoPlay = false,
+    speed = 1,
+    samplesPerGate = 16,
+  } = options;
+
+  const initial = useMemo(
+    () => sphericalToCartesian(quantumStateToSpherical(initialState)),
+    [initialState]
+  );
+  const steps = useMemo(
+    () => buildCircuitTimeline(gates, initial, gateDuration),
+    [gates, initial, gateDuration]
+  );
+  const duration = circuitDuration(steps);
+
+  const [time, setTime] = useState(0);
+  const [playing, setPlaying] = useState(autoPlay);
+  const [loop, setLoop] = useState(initialLoop);
+
+  // Follow changes to the `loop` option
+  useEffect(() => setLoop(initialLoop), [initialLoop]);
+
+  // Keep the latest values without restarting the render loop
+  const timeRef = useRef(time);
+  timeRef.current = time;
+  const durationRef = useRef(duration);
+  durationRef.current = duration;
+  const loopRef = useRef(loop);
+  loopRef.current = loop;
+  // Target time when stepping; playback runs towards it and pauses there
+  const stopAtRef = useRef<number | null>(null);
+
+  const updateTime = useCallback((next: number) => {
+    timeRef.current = next;
+    setTime(next);
+  }, []);
+
+  // Clamp the playhead when the circuit gets shorter
+  useEffect(() => {
+    if (timeRef.current > duration) updateTime(duration);
+  }, [duration, updateTime]);
+
+  useEffect(() => {
+    if (!playing) return;
+
+    let frame: number;
+    let lastTimestamp: number | null = null;
+
+    const tick = (timestamp: number) => {
+      if (lastTimestamp !== null) {
+        const dt = (timestamp - lastTimestamp) * speed;
+        const total = durationRef.current;
+        const stopAt = stopAtRef.current;
+        const current = timeRef.current;
+
+        if (stopAt !== null) {
+          const next =
+            stopAt >= current
+              ? Math.min(stopAt, current + dt)
+              : Math.max(stopAt, current - dt);
+          updateTime(next);
+          if (next === stopAt) {
+            stopAtRef.current = null;
+            setPlaying(false);
+            return;
+          }
+        } else if (current + dt >= total) {
+          if (loopRef.current && total > 0) {
+            updateTime((current + dt) % total);
+          } else {
+            updateTime(total);
+            setPlaying(false);
+            return;
+          }
+        } else {
+          updateTime(current + dt);
+        }
+      }
+      lastTimestamp = timestamp;
+      frame = requestAnimationFrame(tick);
+    };
+
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [playing, speed, updateTime]);
+
+  const play = useCallback(() => {
+    stopAtRef.current = null;
+    // Restart a finished circuit
+    if (timeRef.current >= durationRef.current) updateTime(0);
+    setPlaying(true);
+  }, [updateTime]);
+
+  const pause = useCallback(() => {
+    stopAtRef.current = null;
+    setPlaying(false);
+  }, []);
+
+  /** Jump to a time on the timeline (ms) */
+  const seek = useCallback(
+    (target: number) => {
+      stopAtRef.current = null;
+      setPlaying(false);
+      updateTime(Math.min(Math.max(target, 0), durationRef.current));
+    },
+    [updateTime]
+  );
+
+  /** Jump to the end of a gate; -1 returns to the initial state */
+  const seekToGate = useCallback(
+    (index: number) => {
+      const step = steps[index];
+      seek(step ? step.start + step.duration : 0);
+    },
+    [steps, seek]
+  );
+
+  /** Animate to the next gate boundary */
+  const stepForward = useCallback(() => {
+    const next = circuitBoundaries(steps).find((t) => t > timeRef.current);
+    if (next === undefined) return;
+    stopAtRef.current = next;
+    setPlaying(true);
+  }, [steps]);
+
+  /** Animate backwards to the previous gate boundary */
+  const stepBack = useCallback(() => {
+    const previous = circuitBoundaries(steps)
+      .reverse()
+      .find((t) => t < timeRef.current);
+    if (previous === undefined) return;
+    stopAtRef.current = previous;
+    setPlaying(true);
+  }, [steps]);
+
+  const reset = useCallback(() => seek(0), [seek]);
+
+  const position = useMemo(
+    () => circuitPositionAt(steps, initial, time),
+    [steps, initial, time]
+  );
+
+  // Samples along every gate, computed once per circuit. The history is
+  // assembled from these same objects, so as it grows a trajectory only
+  // appends the new samples instead of rebuilding.
+  const gatePaths = useMemo(
+    () =>
+      steps.map((step) =>
+        sampleCircuitPath([step], step.before, Infinity, samplesPerGate)
+          .slice(1)
+          .map(cartesianToSpherical)
+      ),
+    [steps, samplesPerGate]
+  );
+  const start = useMemo(() => cartesianToSpherical(initial), [initial]);
+
+  const history = useMemo<SphericalCoordinates[]>(() => {
+    const path = [start];
+    for (let i = 0; i < steps.length; i++) {
+      const step = steps[i];
+      if (time <= step.start) break;
+      const progress =
+        step.duration > 0 ? (time - step.start) / step.duration : 1;
+      if (progress >= 1) {
+        path.push(...gatePaths[i]);
+        continue;
+      }
+      // Samples passed so far, then the current state
+      const passed = Math.floor(progress * gatePaths[i].length);
+      path.push(...gatePaths[i].slice(0, passed));
+      path.push(cartesianToSpherical(position.vector));
+      break;
+    }
+    return path;
+  }, [steps, gatePaths, start, time, position]);
+
+  // Longest history: every sample plus the current state
+  const pathLength = gatePaths.reduce((sum, path) => sum + path.length, 2);
+
+  const state: QuantumState = { type: 'blochVector', vector: position.vector };
+
+  return {
+    state,
+    coords: cartesianToSpherical(position.vector),
+    history,
+    pathLength,
+    steps,
+    time,
+    duration,
+    activeIndex: position.index,
+    activeGate: steps[position.index]?.gate ?? null,
+    progress: position.progress,
+    playing,
+    play,
+    pause,
+    seek,
+    seekToGate,
+    stepForward,
+    stepBack,
+    reset,
+    loop,
+    setLoop,
+  };
+}
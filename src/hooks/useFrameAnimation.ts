@@ -0,0 +1,101 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import type { RefObject } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import type {
+  AnimationConfig,
+  OnAnimationProgress,
+  SphericalCoordinates,
+} from '../types';
+import { createStateAnimator } from '../utils/animator';
+
+interface UseFrameAnimationOptions {
+  /** Called when a transition starts */
+  onStart?: () => void;
+  /** Called when a transition reaches its target */
+  onEnd?: () => void;
+  /**
+   * Called with the animated state at most every `config.progressInterval`
+   * ms, and whenever the state comes to rest
+   */
+  onProgress?: OnAnimationProgress;
+  /**
+   * Called inside the render loop on the first frame and on every frame the
+   * state changes; must not set React state
+   */
+  onFrame?: (state: SphericalCoordinates) => void;
+  /** Ref to write the animated state into (one is created otherwise) */
+  stateRef?: RefObject<SphericalCoordinates>;
+}
+
+/**
+ * Hook that animates a state inside the render loop. The animated state is
+ * written to a ref on every frame, so objects reading it (through refs in
+ * `useFrame`) move without React re-rendering; React only hears about
+ * start, end and throttled progress. Frames are requested while a
+ * transition runs, so it also works with `frameloop="demand"`. Must be used
+ * inside a Canvas.
+ *
+ * @param targetState - The target spherical coordinates to animate to
+ * @param config - Animation configuration, as for useAnimation
+ * @param options - Callbacks and an optional ref to write to
+ * @returns Ref holding the current animated state
+ */
+export function useFrameAnimation(
+  targetState: SphericalCoordinates,
+  config: AnimationConfig = {},
+  options: UseFrameAnimationOptions = {}
+): RefObject<SphericalCoordinates> {
+  const [animator] = useState(() => createStateAnimator(targetState));
+  const ownRef = useRef(targetState);
+  const stateRef = options.stateRef ?? ownRef;
+
+  const latestRef = useRef({ targetState, config, options });
+  latestRef.current = { targetState, config, options };
+
+  const sinceProgressRef = useRef(Infinity);
+  const firstFrameRef = useRef(true);
+
+  // The target is picked up on the next frame
+  const invalidate = useThree((state) => state.invalidate);
+  const { theta, phi, r } = targetState;
+  useEffect(() => {
+    invalidate();
+  }, [invalidate, theta, phi, r]);
+
+  // Negative priority: runs before the objects that read the state
+  useFrame((state, delta) => {
+    const { targetState, config, options } = latestRef.current;
+    // Time since an idle frame is not part of the new transition (with
+    // frameloop="demand" that can be minutes)
+    const wasActive = animator.active;
+    animator.setTarget(targetState, config);
+    const frame = animator.step(wasActive ? delta * 1000 : 0);
+
+    if (firstFrameRef.current) {
+      firstFrameRef.current = false;
+      if (!frame.changed) options.onFrame?.(frame.state);
+    }
+    if (!frame.changed) return;
+
+    stateRef.current = frame.state;
+    options.onFrame?.(frame.state);
+    if (frame.started) {
+      options.onStart?.();
+      // Report the first step of a new transition right away
+      sinceProgressRef.current = Infinity;
+    }
+
+    sinceProgressRef.current += delta * 1000;
+    const interval = config.progressInterval ?? 50;
+    if (!animator.active || sinceProgressRef.current >= interval) {
+      sinceProgressRef.current = 0;
+      options.onProgress?.(frame.state, frame.progress);
+    }
+    if (frame.finished) options.onEnd?.();
+    if (animator.active) state.invalidate();
+  }, -1);
+
+  return stateRef;
+}
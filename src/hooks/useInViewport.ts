@@ -0,0 +1,35 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { RefObject } from 'react';
+
+/**
+ * Hook that tracks whether an element is (partly) inside the viewport.
+ * Reports true until the first observation, and always where
+ * IntersectionObserver is unavailable.
+ *
+ * @param ref - Element to observe
+ * @param enabled - Observe only while true (reports true otherwise)
+ * @returns Whether the element is visible
+ */
+export function useInViewport(
+  ref: RefObject<Element | null>,
+  enabled = true
+): boolean {
+  const [inViewport, setInViewport] = useState(true);
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!enabled || !element || typeof IntersectionObserver === 'undefined') {
+      setInViewport(true);
+      return;
+    }
+    const observer = new IntersectionObserver(([entry]) =>
+      setInViewport(entry.isIntersecting)
+    );
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [ref, enabled]);
+
+  return inViewport;
+}
@@ -0,0 +1,87 @@
+'use client';
+
+import { useState, useRef, useCallback } from 'react';
+import type {
+  CartesianCoordinates,
+  MeasurementResult,
+  SphericalCoordinates,
+} from '../types';
+import {
+  createRng,
+  measure,
+  measurementBases,
+  sampleMeasurements,
+} from '../utils/measurement';
+
+interface UseMeasurementOptions {
+  /** Measurement axis (default: +Z) */
+  axis?: CartesianCoordinates;
+  /** Seed for reproducible outcomes (default: random) */
+  seed?: number;
+}
+
+/**
+ * Hook for simulating projective measurements and accumulating statistics.
+ * Feed `lastResult.postState` back into BlochSphere (with animation mode
+ * 'collapse') to show the state collapsing onto the measured eigenstate,
+ * and `counts` into `measurement.counts` for the histogram overlay.
+ *
+ * @param options - Measurement axis and RNG seed
+ * @returns Measurement actions, outcome counts and the last single-shot result
+ */
+export function useMeasurement(options: UseMeasurementOptions = {}) {
+  const { axis = measurementBases.Z, seed } = options;
+
+  const rngRef = useRef<() => number>(
+    seed === undefined ? Math.random : createRng(seed)
+  );
+  const [counts, setCounts] = useState<[number, number]>([0, 0]);
+  const [lastResult, setLastResult] = useState<MeasurementResult | null>(
+    null
+  );
+
+  const { x, y, z } = axis;
+
+  /** Measure once, collapsing the state */
+  const measureOnce = useCallback(
+    (state: SphericalCoordinates): MeasurementResult => {
+      const result = measure(state, { x, y, z }, rngRef.current);
+      setLastResult(result);
+      setCounts(([n0, n1]) =>
+        result.outcome === 0 ? [n0 + 1, n1] : [n0, n1 + 1]
+      );
+      return result;
+    },
+    [x, y, z]
+  );
+
+  /** Measure many identically prepared copies without collapsing `state` */
+  const measureShots = useCallback(
+    (state: SphericalCoordinates, shots: number): [number, number] => {
+      const shotCounts = sampleMeasurements(
+        state,
+        shots,
+        { x, y, z },
+        rngRef.current
+      );
+      setCounts(([n0, n1]) => [n0 + shotCounts[0], n1 + shotCounts[1]]);
+      return shotCounts;
+    },
+    [x, y, z]
+  );
+
+  /** Clear statistics and restart the seeded sequence */
+  const reset = useCallback(() => {
+    rngRef.current = seed === undefined ? Math.random : createRng(seed);
+    setCounts([0, 0]);
+    setLastResult(null);
+  }, [seed]);
+
+  return {
+    measure: measureOnce,
+    measureShots,
+    counts,
+    lastResult,
+    reset,
+  };
+}
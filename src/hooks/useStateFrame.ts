@@ -0,0 +1,33 @@
+'use client';
+
+import { useLayoutEffect, useRef } from 'react';
+import type { RefObject } from 'react';
+import { useFrame } from '@react-three/fiber';
+import type { SphericalCoordinates } from '../types';
+
+/**
+ * Hook that keeps three.js objects in sync with a state ref, such as the
+ * one returned by useFrameAnimation. `apply` runs after every render (its
+ * props may have changed) and on every frame the ref holds a new state.
+ *
+ * @param stateRef - Ref holding the current state
+ * @param apply - Updates object transforms and geometry for a state
+ */
+export function useStateFrame(
+  stateRef: RefObject<SphericalCoordinates>,
+  apply: (state: SphericalCoordinates) => void
+): void {
+  const appliedRef = useRef<SphericalCoordinates | null>(null);
+
+  useLayoutEffect(() => {
+    appliedRef.current = stateRef.current;
+    apply(stateRef.current);
+  });
+
+  useFrame(() => {
+    const state = stateRef.current;
+    if (state === appliedRef.current) return;
+    appliedRef.current = state;
+    apply(state);
+  });
+}
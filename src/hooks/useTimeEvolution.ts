@@ -0,0 +1,193 @@
+'use client';
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import type {
+  CartesianCoordinates,
+  ComplexMatrix2x2,
+  Hamiltonian,
+  QuantumState,
+  RelaxationParameters,
+  SphericalCoordinates,
+} from '../types';
+import {
+  blochVectorToDensityMatrix,
+  cartesianToSpherical,
+  densityMatrixToBlochVector,
+  quantumStateToSpherical,
+  sphericalToCartesian,
+} from '../utils/quantum-math';
+import {
+  evolveBlochVector,
+  hamiltonianAt,
+  hamiltonianField,
+} from '../utils/time-evolution';
+import {
+  evolveBlochEquations,
+  evolveDensityMatrix,
+  relaxationCollapseOperators,
+} from '../utils/open-system';
+
+interface UseTimeEvolutionOptions {
+  /** Simulation time units per real second (default: 1) */
+  speed?: number;
+  /** Start playing on mount (default: true) */
+  autoPlay?: boolean;
+  /** Maximum integration step for time-dependent or open-system dynamics */
+  maxStep?: number;
+  /** T1/T2 relaxation; the state leaves the surface and decays inside the ball */
+  relaxation?: RelaxationParameters;
+  /** Additional Lindblad collapse operators */
+  collapseOperators?: ComplexMatrix2x2[];
+}
+
+interface EvolutionSnapshot {
+  vector: CartesianCoordinates;
+  time: number;
+}
+
+/**
+ * Hook that evolves a qubit state in real time under a Hamiltonian,
+ * optionally with T1/T2 relaxation or custom Lindblad collapse operators.
+ * Pass `state` to BlochSphere (with animation disabled) and `field` as its
+ * `fieldVector` to show the instantaneous rotation axis.
+ *
+ * @param hamiltonian - Static Pauli coefficients or a function of time
+ * @param initialState - State at t = 0
+ * @param options - Playback speed, autoplay and integration step
+ * @returns Current state, simulation time, field vector and playback controls
+ */
+export function useTimeEvolution(
+  hamiltonian: Hamiltonian,
+  initialState: QuantumState,
+  options: UseTimeEvolutionOptions = {}
+) {
+  const {
+    speed: initialSpeed = 1,
+    autoPlay = true,
+    maxStep = 0.01,
+    relaxation,
+    collapseOperators,
+  } = options;
+
+  const toVector = (state: QuantumState) =>
+    sphericalToCartesian(quantumStateToSpherical(state));
+
+  const [snapshot, setSnapshot] = useState<EvolutionSnapshot>(() => ({
+    vector: toVector(initialState),
+    time: 0,
+  }));
+  const [playing, setPlaying] = useState(autoPlay);
+  const [speed, setSpeed] = useState(initialSpeed);
+
+  // Keep the latest inputs without restarting the render loop
+  const hamiltonianRef = useRef(hamiltonian);
+  hamiltonianRef.current = hamiltonian;
+  const initialStateRef = useRef(initialState);
+  initialStateRef.current = initialState;
+  const snapshotRef = useRef(snapshot);
+  snapshotRef.current = snapshot;
+  const relaxationRef = useRef(relaxation);
+  relaxationRef.current = relaxation;
+  const collapseOperatorsRef = useRef(collapseOperators);
+  collapseOperatorsRef.current = collapseOperators;
+
+  // Unitary rotation, Bloch equations, or the full Lindblad equation
+  const step = (
+    vector: CartesianCoordinates,
+    time: number,
+    dt: number
+  ): CartesianCoordinates => {
+    const hamiltonian = hamiltonianRef.current;
+    const relaxationParams = relaxationRef.current;
+    const extraOperators = collapseOperatorsRef.current ?? [];
+
+    if (extraOperators.length > 0) {
+      const operators = [
+        ...(relaxationParams
+          ? relaxationCollapseOperators(relaxationParams)
+          : []),
+        ...extraOperators,
+      ];
+      return densityMatrixToBlochVector(
+        evolveDensityMatrix(
+          blochVectorToDensityMatrix(vector),
+          hamiltonian,
+          operators,
+          time,
+          dt,
+          maxStep
+        )
+      );
+    }
+    if (relaxationParams) {
+      return evolveBlochEquations(
+        vector,
+        hamiltonian,
+        relaxationParams,
+        time,
+        dt,
+        maxStep
+      );
+    }
+    return evolveBlochVector(vector, hamiltonian, time, dt, maxStep);
+  };
+  const stepRef = useRef(step);
+  stepRef.current = step;
+
+  useEffect(() => {
+    if (!playing) return;
+
+    let frame: number;
+    let lastTimestamp: number | null = null;
+
+    const tick = (timestamp: number) => {
+      if (lastTimestamp !== null) {
+        const dt = ((timestamp - lastTimestamp) / 1000) * speed;
+        const { vector, time } = snapshotRef.current;
+        const next = {
+          vector: stepRef.current(vector, time, dt),
+          time: time + dt,
+        };
+        snapshotRef.current = next;
+        setSnapshot(next);
+      }
+      lastTimestamp = timestamp;
+      frame = requestAnimationFrame(tick);
+    };
+
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [playing, speed]);
+
+  const play = useCallback(() => setPlaying(true), []);
+  const pause = useCallback(() => setPlaying(false), []);
+
+  /** Return to the initial state at t = 0 */
+  const reset = useCallback(() => {
+    const next = {
+      vector: sphericalToCartesian(
+        quantumStateToSpherical(initialStateRef.current)
+      ),
+      time: 0,
+    };
+    snapshotRef.current = next;
+    setSnapshot(next);
+  }, []);
+
+  const coords: SphericalCoordinates = cartesianToSpherical(snapshot.vector);
+  const state: QuantumState = { type: 'blochVector', vector: snapshot.vector };
+  const field = hamiltonianField(hamiltonianAt(hamiltonian, snapshot.time));
+
+  return {
+    state,
+    coords,
+    time: snapshot.time,
+    field,
+    playing,
+    play,
+    pause,
+    reset,
+    speed,
+    setSpeed,
+  };
+}
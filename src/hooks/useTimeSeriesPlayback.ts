@@ -0,0 +1,156 @@
+'use client';
+
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import type {
+  QuantumState,
+  SphericalCoordinates,
+  TimeSeriesInterpolation,
+  TimeSeriesSample,
+} from '../types';
+import {
+  sampleTimeSeries,
+  timeSeriesDuration,
+  timeSeriesHistory,
+} from '../utils/timeseries';
+
+interface UseTimeSeriesPlaybackOptions {
+  /** Playback speed multiplier; 1 plays in real time (default: 1) */
+  speed?: number;
+  /** Milliseconds per time unit of the series (default: 1000, seconds) */
+  timeUnit?: number;
+  /** Path between samples (default: 'slerp') */
+  interpolation?: TimeSeriesInterpolation;
+  /** Restart from the beginning after the last sample (default: false) */
+  loop?: boolean;
+  /** Start playing on mount (default: false) */
+  autoPlay?: boolean;
+}
+
+/**
+ * Hook that plays a recorded time series (see parseTimeSeries) at real or
+ * scaled time. Pass `state` to BlochSphere (with animation disabled) and
+ * `history` as its trajectory.
+ *
+ * @param samples - Samples in time order
+ * @param options - Speed, time unit, interpolation, looping and autoplay
+ * @returns Interpolated state, path so far, playhead and controls
+ */
+export function useTimeSeriesPlayback(
+  samples: TimeSeriesSample[],
+  options: UseTimeSeriesPlaybackOptions = {}
+) {
+  const {
+    speed = 1,
+    timeUnit = 1000,
+    interpolation = 'slerp',
+    loop: initialLoop = false,
+    autoPlay = false,
+  } = options;
+
+  const duration = timeSeriesDuration(samples);
+
+  // Playhead in series units, relative to the first sample
+  const [time, setTime] = useState(0);
+  const [playing, setPlaying] = useState(autoPlay);
+  const [loop, setLoop] = useState(initialLoop);
+
+  // Follow changes to the `loop` option
+  useEffect(() => setLoop(initialLoop), [initialLoop]);
+
+  // Keep the latest values without restarting the render loop
+  const timeRef = useRef(time);
+  timeRef.current = time;
+  const durationRef = useRef(duration);
+  durationRef.current = duration;
+  const loopRef = useRef(loop);
+  loopRef.current = loop;
+
+  const updateTime = useCallback((next: number) => {
+    timeRef.current = next;
+    setTime(next);
+  }, []);
+
+  // Clamp the playhead when a shorter series is loaded
+  useEffect(() => {
+    if (timeRef.current > duration) updateTime(duration);
+  }, [duration, updateTime]);
+
+  useEffect(() => {
+    if (!playing) return;
+
+    let frame: number;
+    let lastTimestamp: number | null = null;
+
+    const tick = (timestamp: number) => {
+      if (lastTimestamp !== null) {
+        const dt = ((timestamp - lastTimestamp) * speed) / timeUnit;
+        const total = durationRef.current;
+        const current = timeRef.current;
+
+        if (current + dt >= total) {
+          if (loopRef.current && total > 0) {
+            updateTime((current + dt) % total);
+          } else {
+            updateTime(total);
+            setPlaying(false);
+            return;
+          }
+        } else {
+          updateTime(current + dt);
+        }
+      }
+      lastTimestamp = timestamp;
+      frame = requestAnimationFrame(tick);
+    };
+
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [playing, speed, timeUnit, updateTime]);
+
+  const play = useCallback(() => {
+    // Restart a finished series
+    if (timeRef.current >= durationRef.current) updateTime(0);
+    setPlaying(true);
+  }, [updateTime]);
+
+  const pause = useCallback(() => setPlaying(false), []);
+
+  /** Jump to a time since the first sample, in series units */
+  const seek = useCallback(
+    (target: number) => {
+      setPlaying(false);
+      updateTime(Math.min(Math.max(target, 0), durationRef.current));
+    },
+    [updateTime]
+  );
+
+  const reset = useCallback(() => seek(0), [seek]);
+
+  const coords = useMemo<SphericalCoordinates>(
+    () => sampleTimeSeries(samples, time, interpolation),
+    [samples, time, interpolation]
+  );
+  const history = useMemo(
+    () => timeSeriesHistory(samples, time, interpolation),
+    [samples, time, interpolation]
+  );
+
+  const state: QuantumState = { type: 'spherical', coords };
+
+  return {
+    state,
+    coords,
+    history,
+    time,
+    duration,
+    /** Index of the last sample at or before the playhead */
+    index: Math.max(0, history.length - 2),
+    playing,
+    play,
+    pause,
+    seek,
+    reset,
+    loop,
+    setLoop,
+  };
+}
@@ -0,0 +1,92 @@
+'use client';
+
+import { useEffect, useMemo, useRef } from 'react';
+import { useThree } from '@react-three/fiber';
+import type { SphericalCoordinates, TrajectoryBuffer } from '../types';
+import { createTrajectoryBuffer } from '../utils/trajectory';
+
+interface UseTrajectoryBufferOptions {
+  /** Keep the path while true; it is cleared when this turns false */
+  enabled?: boolean;
+  /** Maximum number of points to keep */
+  maxPoints?: number;
+  /** Minimum distance between kept points (default: 0) */
+  minDistance?: number;
+  /** Decimation tolerance (default: 0, keep every point) */
+  decimation?: number;
+  /** Change this value to clear the path */
+  resetKey?: string | number;
+}
+
+/**
+ * Hook that keeps a trajectory ring buffer for the Trajectory component.
+ * A `points` array is synced into it, appending only the entries added
+ * since the previous render; without `points` the buffer is filled through
+ * its `append` method (from the render loop or a ref handle).
+ *
+ * The last entry of `points` is drawn as a provisional tail, so histories
+ * ending in an interpolated current state still sync incrementally.
+ * Changing `maxPoints`, `minDistance` or `decimation` starts a new buffer.
+ * Synced changes request a frame from the enclosing canvas, for canvases
+ * rendering on demand. Must be used inside a Canvas.
+ *
+ * @param points - Path to show, oldest first, or undefined to append manually
+ * @param options - Capacity, spacing, decimation and reset options
+ * @returns The buffer to pass to Trajectory
+ */
+export function useTrajectoryBuffer(
+  points: SphericalCoordinates[] | undefined,
+  options: UseTrajectoryBufferOptions = {}
+): TrajectoryBuffer {
+  const {
+    enabled = true,
+    maxPoints = 100,
+    minDistance = 0,
+    decimation = 0,
+    resetKey,
+  } = options;
+
+  const invalidate = useThree((state) => state.invalidate);
+
+  const buffer = useMemo(
+    () =>
+      createTrajectoryBuffer({ maxPoints, minDistance, tolerance: decimation }),
+    [maxPoints, minDistance, decimation]
+  );
+
+  // Points synced so far; the last one is the provisional tail
+  const syncedRef = useRef<SphericalCoordinates[]>([]);
+
+  // Start over when disabled or reset
+  useEffect(() => {
+    buffer.clear();
+    syncedRef.current = [];
+    invalidate();
+  }, [buffer, enabled, resetKey, invalidate]);
+
+  useEffect(() => {
+    if (!points || !enabled) return;
+    const synced = syncedRef.current;
+    const kept = synced.length - 1;
+
+    // Appending is enough when the old entries are still in place; only
+    // the ends are compared, so this stays cheap for long histories
+    const extended =
+      synced.length > 0 &&
+      points.length >= synced.length &&
+      points[0] === synced[0] &&
+      (kept === 0 || points[kept - 1] === synced[kept - 1]);
+
+    if (extended) {
+      buffer.append(points.slice(kept, -1));
+    } else {
+      buffer.clear();
+      buffer.append(points.slice(0, -1));
+    }
+    buffer.setTail(points[points.length - 1] ?? null);
+    syncedRef.current = points;
+    invalidate();
+  }, [buffer, points, enabled, resetKey, invalidate]);
+
+  return buffer;
+}
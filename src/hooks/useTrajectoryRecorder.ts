@@ -0,0 +1,52 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import type { SphericalCoordinates } from '../types';
+import { appendTrajectoryPoint } from '../utils/trajectory';
+
+interface UseTrajectoryRecorderOptions {
+  /** Record while true; the path is cleared when recording stops */
+  enabled?: boolean;
+  /** Maximum number of points to keep */
+  maxPoints?: number;
+  /** Minimum distance between recorded points */
+  minDistance?: number;
+  /** Change this value to clear the recorded path */
+  resetKey?: string | number;
+}
+
+/**
+ * Hook that records the path of an (animated) state, replacing the
+ * history reducer otherwise kept outside the component.
+ *
+ * @param current - The state to record, typically the output of useAnimation
+ * @param options - Recording options
+ * @returns Recorded points, oldest first
+ */
+export function useTrajectoryRecorder(
+  current: SphericalCoordinates,
+  options: UseTrajectoryRecorderOptions = {}
+): SphericalCoordinates[] {
+  const {
+    enabled = true,
+    maxPoints = 100,
+    minDistance = 0.01,
+    resetKey,
+  } = options;
+
+  const [points, setPoints] = useState<SphericalCoordinates[]>([]);
+
+  // Start over when recording is toggled or reset
+  useEffect(() => {
+    setPoints([]);
+  }, [enabled, resetKey]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    setPoints((prev) =>
+      appendTrajectoryPoint(prev, current, { maxPoints, minDistance })
+    );
+  }, [current, enabled, maxPoints, minDistance, resetKey]);
+
+  return points;
+}
@@ -1,20 +1,83 @@
 // Main component export
 export { BlochSphere } from './BlochSphere';
+export { BlochSphereScene } from './BlochSphereScene';
+export { BlochCircuitPlayer } from './BlochCircuitPlayer';
+export { BlochSphereSvg } from './BlochSphereSvg';
+export { BlochSphereGrid } from './BlochSphereGrid';
+export { MultiQubitBlochSphere } from './MultiQubitBlochSphere';
 
 // Type exports
 export type {
   BlochSphereProps,
+  BlochSphereHandle,
+  BlochSphereSceneProps,
+  BlochSphereSceneHandle,
+  BlochCircuitPlayerProps,
+  BlochSphereGridProps,
+  MultiQubitBlochSphereProps,
+  BlochSphereSvgOptions,
+  SvgPrimitive,
   QuantumState,
+  StateLike,
+  MultiQubitState,
+  QubitSummary,
+  QubitPairSummary,
+  EntanglementSummary,
+  LabelledState,
+  StateComparison,
   SphericalCoordinates,
   CartesianCoordinates,
   ComplexAmplitude,
   Complex,
+  ComplexMatrix2x2,
+  DensityMatrix,
+  Gate,
+  AxisAngle,
+  CircuitStep,
+  CircuitPosition,
+  QasmProgram,
+  QasmMeasurement,
+  TimeSeriesSample,
+  TimeSeriesInterpolation,
+  PauliHamiltonian,
+  Hamiltonian,
+  DriveParameters,
+  RelaxationParameters,
+  QuantumChannel,
+  PauliTransferMatrix,
+  AffineBlochMap,
+  TomographyCounts,
+  TomographyMethod,
+  TomographyOptions,
+  TomographyResult,
   AnimationConfig,
   TrajectoryConfig,
+  TrajectoryRecordOptions,
+  TrajectoryBufferOptions,
+  TrajectoryBuffer,
   BlochSphereStyle,
   CameraConfig,
+  CoordinateConvention,
+  CameraView,
+  CameraState,
+  CameraLink,
+  RenderMode,
+  CameraMoveOptions,
+  InteractionConfig,
+  MeasurementConfig,
+  AnnotationConfig,
+  MeasurementOutcome,
+  MeasurementResult,
   EasingFunction,
+  Easing,
+  SpringConfig,
+  SpringState,
+  AnimationMode,
+  AnimationFrame,
+  StateAnimator,
   OnStateChange,
+  OnStateInput,
+  OnAnimationProgress,
 } from './types';
 
 // Utility exports for advanced usage
@@ -23,9 +86,222 @@ export {
   sphericalToAmplitudes,
   sphericalToCartesian,
   cartesianToSpherical,
+  densityMatrixToBlochVector,
+  blochVectorToDensityMatrix,
+  quantumStateToSpherical,
   slerp,
+  lerpBlochVector,
   commonStates,
+  snapToCommonStates,
+  snapToGrid,
 } from './utils/quantum-math';
 
+// Single-qubit gate library
+export {
+  commonGates,
+  rx,
+  ry,
+  rz,
+  phase,
+  u3,
+  rotation,
+  unitary,
+  isUnitary,
+  composeGates,
+  inverseGate,
+  gateToAxisAngle,
+  rotateBlochVector,
+  rotationBetween,
+  interpolateRotation,
+  applyGate,
+  applyGateToSpherical,
+} from './utils/gates';
+
+// Circuit timelines
+export {
+  buildCircuitTimeline,
+  circuitDuration,
+  circuitBoundaries,
+  circuitPositionAt,
+  sampleCircuitPath,
+} from './utils/circuit';
+
+// OpenQASM import (single-qubit programs)
+export { parseQasm, evaluateQasmExpression, QasmError } from './utils/qasm';
+
+// Recorded time series (CSV/JSON)
+export {
+  parseTimeSeries,
+  parseTimeSeriesCsv,
+  parseTimeSeriesJson,
+  sampleTimeSeries,
+  timeSeriesHistory,
+  timeSeriesDuration,
+  TimeSeriesError,
+} from './utils/timeseries';
+
+// Measurement simulation
+export {
+  measurementBases,
+  createRng,
+  measurementProbabilities,
+  measurementEigenstate,
+  measure,
+  sampleMeasurements,
+} from './utils/measurement';
+
+// Hamiltonian time evolution
+export {
+  hamiltonianAt,
+  hamiltonianField,
+  drivenHamiltonian,
+  evolveBlochVector,
+} from './utils/time-evolution';
+
+// Open-system dynamics (T1/T2 relaxation, Lindblad equation)
+export {
+  relaxationRates,
+  thermalState,
+  blochEquationsDerivative,
+  evolveBlochEquations,
+  hamiltonianMatrix,
+  sigmaMinus,
+  sigmaPlus,
+  relaxationCollapseOperators,
+  lindbladDerivative,
+  evolveDensityMatrix,
+} from './utils/open-system';
+
+// Quantum channels (Kraus / Pauli transfer matrix)
+export {
+  depolarizingChannel,
+  amplitudeDampingChannel,
+  phaseFlipChannel,
+  bitFlipChannel,
+  pauliChannel,
+  applyChannel,
+  applyChannelToBlochVector,
+  channelToPtm,
+  channelToAffineMap,
+  composeChannels,
+  choiMatrix,
+  isCompletelyPositive,
+  isTracePreserving,
+  isCPTP,
+} from './utils/channels';
+
+// State tomography from measurement counts
+export {
+  tomography,
+  linearInversionTomography,
+  maximumLikelihoodTomography,
+  bootstrapTomography,
+  confidenceEllipsoid,
+  histogramCounts,
+} from './utils/tomography';
+
+// Multi-qubit states: partial trace and entanglement measures
+export {
+  qubitCount,
+  partialTrace,
+  reducedDensityMatrix,
+  reducedStates,
+  entanglementEntropy,
+  concurrence,
+  analyzeEntanglement,
+} from './utils/multi-qubit';
+
+// Camera viewpoints and linking
+export { cameraViewPosition, createCameraLink } from './utils/camera';
+
+// Bloch <-> scene coordinate conventions
+export {
+  defaultConvention,
+  resolveConvention,
+  conventionMatrix,
+  blochToScene,
+  sceneToBloch,
+  displayToScene,
+  sceneUp,
+  blochMatrixToScene,
+} from './utils/coordinates';
+
+// WebGL-free SVG rendering
+export { buildBlochSphereSvg, renderBlochSphereSvg } from './utils/svg';
+
+// Teaching overlays
+export {
+  angleArcs,
+  axisProjections,
+  pauliExpectations,
+} from './utils/annotations';
+
+// Easing curves and springs
+export {
+  cubicBezier,
+  steps,
+  resolveEasing,
+  isSpring,
+  defaultSpring,
+  springFromState,
+  springToSpherical,
+  stepSpring,
+  springSettled,
+  stepSpringProgress,
+} from './utils/easing';
+
+// Frame-driven state animation
+export { createStateAnimator } from './utils/animator';
+
+// Trajectory helpers
+export {
+  appendTrajectoryPoint,
+  trajectoryFade,
+  createTrajectoryBuffer,
+} from './utils/trajectory';
+
+// State comparison metrics
+export {
+  fidelity,
+  infidelity,
+  traceDistance,
+  buresAngle,
+  angularDistance,
+  greatCircleDistance,
+  statesEqual,
+  purity,
+  vonNeumannEntropy,
+} from './utils/metrics';
+
+// Complex arithmetic helpers
+export {
+  complex,
+  complexFromPolar,
+  complexAdd,
+  complexSub,
+  complexMul,
+  complexScale,
+  complexConj,
+  complexAbs,
+  complexArg,
+  identityMatrix,
+  matrixMultiply,
+  matrixAdd,
+  matrixAdjoint,
+  matrixScale,
+  matrixDeterminant,
+  matrixApply,
+} from './utils/complex';
+
 // Hook exports for custom implementations
-export { useAnimation, useAnimationStatus } from './hooks';
+export {
+  useAnimation,
+  useAnimationStatus,
+  useFrameAnimation,
+  useStateFrame,
+  useMeasurement,
+  useTrajectoryRecorder,
+  useTimeEvolution,
+  useCircuitPlayback,
+  useTimeSeriesPlayback,
+} from './hooks';
@@ -0,0 +1,14 @@
+// WebGL-free entry point: no three.js or react-three-fiber imports
+export { BlochSphereSvg } from './BlochSphereSvg';
+export { buildBlochSphereSvg, renderBlochSphereSvg } from './utils/svg';
+export type {
+  BlochSphereSvgOptions,
+  SvgPrimitive,
+  BlochSphereStyle,
+  CameraConfig,
+  CoordinateConvention,
+  TrajectoryConfig,
+  QuantumState,
+  LabelledState,
+  SphericalCoordinates,
+} from './types';
@@ -1,3 +1,5 @@
+import type { CSSProperties, ReactNode } from 'react';
+
 /**
  * Complex number representation
  */
@@ -15,6 +17,17 @@ export interface ComplexAmplitude {
   beta: Complex;
 }
 
+/**
+ * 2x2 complex matrix, indexed as matrix[row][column]
+ */
+export type ComplexMatrix2x2 = [[Complex, Complex], [Complex, Complex]];
+
+/**
+ * Density matrix of a (possibly mixed) qubit state
+ * rho = (I + x*X + y*Y + z*Z) / 2
+ */
+export type DensityMatrix = ComplexMatrix2x2;
+
 /**
  * Spherical coordinate representation
  * |psi> = cos(theta/2)|0> + e^(i*phi)*sin(theta/2)|1>
@@ -24,6 +37,8 @@ export interface SphericalCoordinates {
   theta: number;
   /** Azimuthal angle [0, 2*PI] - from +X axis in XY plane */
   phi: number;
+  /** Bloch vector length [0, 1] - omitted means 1 (pure state) */
+  r?: number;
 }
 
 /**
@@ -36,17 +51,350 @@ export interface CartesianCoordinates {
 }
 
 /**
- * Quantum state can be specified in either format
+ * Single-qubit gate: a named 2x2 unitary
+ */
+export interface Gate {
+  /** Display name, e.g. 'H' or 'Rx' */
+  name: string;
+  /** Unitary matrix acting on (alpha, beta) */
+  matrix: ComplexMatrix2x2;
+  /** Gate parameters (angles in radians), if any */
+  params?: number[];
+}
+
+/**
+ * Rotation of the Bloch sphere about a unit axis
+ */
+export interface AxisAngle {
+  /** Unit rotation axis in Bloch coordinates */
+  axis: CartesianCoordinates;
+  /** Rotation angle in radians (right-hand rule) */
+  angle: number;
+}
+
+/**
+ * Single-qubit Hamiltonian in Pauli form (hbar = 1):
+ * H = x*X + y*Y + z*Z
+ * The identity component only adds a global phase and is omitted.
+ */
+export interface PauliHamiltonian {
+  x?: number;
+  y?: number;
+  z?: number;
+}
+
+/**
+ * Static Hamiltonian, or a function of time for driven systems
+ */
+export type Hamiltonian = PauliHamiltonian | ((t: number) => PauliHamiltonian);
+
+/**
+ * Parameters of a resonantly (or near-resonantly) driven qubit
+ */
+export interface DriveParameters {
+  /** Rabi frequency Omega (angular, rad per time unit) */
+  amplitude: number;
+  /** Drive frequency omega_d (angular); only used in the lab frame */
+  frequency?: number;
+  /** Detuning Delta = omega_qubit - omega_d (angular) */
+  detuning?: number;
+  /** Drive phase; 0 drives about X, PI/2 about Y */
+  phase?: number;
+  /**
+   * 'rotating': H = (Delta/2) Z + (Omega/2)(cos(phase) X + sin(phase) Y)
+   * 'lab': H(t) = (omega_q/2) Z + Omega cos(omega_d t + phase) X
+   */
+  frame?: 'rotating' | 'lab';
+}
+
+/**
+ * Relaxation times for open-system (Bloch equation) dynamics.
+ * Omitted times mean no relaxation of that kind; T2 is capped at 2*T1.
+ */
+export interface RelaxationParameters {
+  /** Energy relaxation (amplitude damping) time */
+  T1?: number;
+  /** Total coherence time, including the T1 contribution */
+  T2?: number;
+  /** Excited-state (|1>) population of the thermal state (default: 0) */
+  excitedPopulation?: number;
+}
+
+/**
+ * Pauli transfer matrix of a single-qubit channel (4x4, basis I, X, Y, Z):
+ * R[i][j] = Tr(sigma_i * E(sigma_j)) / 2
+ */
+export type PauliTransferMatrix = number[][];
+
+/**
+ * Single-qubit quantum channel, given by Kraus operators or its PTM
+ */
+export type QuantumChannel =
+  | { type: 'kraus'; operators: ComplexMatrix2x2[] }
+  | { type: 'ptm'; matrix: PauliTransferMatrix };
+
+/**
+ * Action of a channel on Bloch vectors: r' = matrix * r + offset.
+ * The image of the Bloch sphere is an ellipsoid centered at `offset`.
+ */
+export interface AffineBlochMap {
+  /** 3x3 real matrix acting on (x, y, z) */
+  matrix: number[][];
+  /** Translation (non-unital part) */
+  offset: CartesianCoordinates;
+}
+
+/**
+ * Measurement counts [n0, n1] in the X, Y and Z bases, where outcome 0 is
+ * the +1 eigenstate (|+⟩, |+i⟩, |0⟩)
+ */
+export interface TomographyCounts {
+  x: [number, number];
+  y: [number, number];
+  z: [number, number];
+}
+
+/**
+ * State reconstruction method: linear inversion of the measured
+ * expectation values, or maximum likelihood restricted to physical states
+ */
+export type TomographyMethod = 'linear' | 'mle';
+
+export interface TomographyOptions {
+  /** Reconstruction method (default: 'mle') */
+  method?: TomographyMethod;
+  /** Number of bootstrap resamples for error estimates (default: 0, off) */
+  bootstrap?: number;
+  /** Confidence level of the ellipsoid (default: 0.95) */
+  confidence?: number;
+  /** Seed for the bootstrap resampling */
+  seed?: number;
+}
+
+export interface TomographyResult {
+  /** Estimated Bloch vector; linear inversion may leave the unit ball */
+  vector: CartesianCoordinates;
+  /** Estimate in spherical coordinates, clamped into the Bloch ball */
+  state: SphericalCoordinates;
+  method: TomographyMethod;
+  /** Whether `vector` is a valid state (|r| <= 1) */
+  physical: boolean;
+  /** Bootstrap covariance of the Bloch vector (with `bootstrap` > 0) */
+  covariance?: number[][];
+  /** Confidence ellipsoid around `vector` (with `bootstrap` > 0) */
+  ellipsoid?: AffineBlochMap;
+}
+
+/**
+ * One gate placed on a circuit timeline (times in milliseconds)
+ */
+export interface CircuitStep {
+  gate: Gate;
+  /** Start time on the timeline */
+  start: number;
+  duration: number;
+  /** Bloch rotation performed by the gate */
+  rotation: AxisAngle;
+  /** Bloch vector before the gate */
+  before: CartesianCoordinates;
+  /** Bloch vector after the gate */
+  after: CartesianCoordinates;
+}
+
+/**
+ * Position on a circuit timeline
+ */
+export interface CircuitPosition {
+  /** Interpolated Bloch vector */
+  vector: CartesianCoordinates;
+  /** Gate being (or most recently) applied; -1 before the first gate */
+  index: number;
+  /** Progress through that gate, 0..1 */
+  progress: number;
+}
+
+/**
+ * Measurement statement in an OpenQASM program
+ */
+export interface QasmMeasurement {
+  /** 1-based source line */
+  line: number;
+  /** Measured qubit, e.g. 'q[0]' */
+  qubit: string;
+  /** Classical target, e.g. 'c[0]' (null for a bare `measure q[0];`) */
+  bit: string | null;
+}
+
+/**
+ * Result of parsing a single-qubit OpenQASM program
+ */
+export interface QasmProgram {
+  /** Version from the OPENQASM header, if present */
+  version: string | null;
+  /** Gates in application order */
+  gates: Gate[];
+  /** Measurements (after the last gate) */
+  measurements: QasmMeasurement[];
+  /** State after all gates, starting from |0⟩ (before measurement) */
+  amplitudes: ComplexAmplitude;
+}
+
+/**
+ * One recorded state of a Bloch vector time series
+ */
+export interface TimeSeriesSample {
+  /** Timestamp in the units of the source (ISO dates become ms since epoch) */
+  time: number;
+  state: SphericalCoordinates;
+}
+
+/**
+ * How states between two samples are reconstructed:
+ * along the great circle, along the straight chord, or held until the next
+ */
+export type TimeSeriesInterpolation = 'slerp' | 'linear' | 'step';
+
+/**
+ * Quantum state can be specified in any of these formats.
+ * 'densityMatrix' and 'blochVector' can describe mixed states (|r| < 1).
  */
 export type QuantumState =
   | { type: 'spherical'; coords: SphericalCoordinates }
-  | { type: 'amplitudes'; amplitudes: ComplexAmplitude };
+  | { type: 'amplitudes'; amplitudes: ComplexAmplitude }
+  | { type: 'densityMatrix'; matrix: DensityMatrix }
+  | { type: 'blochVector'; vector: CartesianCoordinates };
+
+/**
+ * State accepted by the comparison metrics: any QuantumState, or bare
+ * spherical coordinates
+ */
+export type StateLike = QuantumState | SphericalCoordinates;
+
+/**
+ * State of n qubits, as 2^n amplitudes or a 2^n x 2^n density matrix
+ * (normalized on use). By default qubit 0 is the most significant bit of
+ * the basis index: amplitudes[i] belongs to |q0 q1 … q(n-1)⟩ with i written
+ * in binary. Set `littleEndian` for data where qubit 0 is the least
+ * significant bit, as in Qiskit.
+ */
+export type MultiQubitState =
+  | { type: 'statevector'; amplitudes: Complex[]; littleEndian?: boolean }
+  | { type: 'densityMatrix'; matrix: Complex[][]; littleEndian?: boolean };
+
+/**
+ * Reduced state of one qubit of a multi-qubit state
+ */
+export interface QubitSummary {
+  /** Reduced density matrix, ready to pass to BlochSphere */
+  state: QuantumState;
+  /** Bloch vector; `r` < 1 when the qubit is entangled or mixed */
+  spherical: SphericalCoordinates;
+  /** Tr(ρ²) of the reduced state, 1/2 to 1 */
+  purity: number;
+  /**
+   * Von Neumann entropy of the reduced state in bits; the entanglement
+   * entropy with the other qubits when the whole state is pure
+   */
+  entropy: number;
+}
+
+/**
+ * Concurrence of the reduced state of a pair of qubits
+ */
+export interface QubitPairSummary {
+  qubits: [number, number];
+  /** 0 (separable) to 1 (maximally entangled) */
+  concurrence: number;
+}
+
+/**
+ * Per-qubit and pairwise entanglement measures of a multi-qubit state
+ */
+export interface EntanglementSummary {
+  qubits: QubitSummary[];
+  /** Every pair (i, j) with i < j */
+  pairs: QubitPairSummary[];
+}
+
+/**
+ * A state rendered alongside others on the same sphere
+ */
+export interface LabelledState {
+  /** Identifier used by `comparisons` (defaults to the array index) */
+  id?: string;
+  /** The quantum state */
+  state: QuantumState;
+  /** Text shown next to the arrowhead */
+  label?: string;
+  /** Arrow and trajectory color */
+  color?: string;
+  /** Per-state animation settings, merged over the shared `animation` prop */
+  animation?: AnimationConfig;
+  /** History for this state's trajectory */
+  history?: SphericalCoordinates[];
+}
+
+/**
+ * Pair of states (by id or array index) whose fidelity and angular
+ * distance are shown in the comparison readout
+ */
+export type StateComparison = [string | number, string | number];
 
 /**
  * Animation easing function types
  */
 export type EasingFunction = 'linear' | 'easeInOut' | 'easeIn' | 'easeOut';
 
+/**
+ * Damped spring parameters. Springs ignore `duration`: the state moves
+ * like a mass on a spring until it settles on the target.
+ */
+export interface SpringConfig {
+  /** Spring constant (default: 170) */
+  stiffness?: number;
+  /** Damping coefficient (default: 26, critically damped for mass 1) */
+  damping?: number;
+  /** Mass (default: 1) */
+  mass?: number;
+  /** Distance and speed below which the spring is at rest (default: 1e-4) */
+  precision?: number;
+}
+
+/**
+ * Timing of an animation: a named curve, a CSS-style
+ * `'cubic-bezier(x1, y1, x2, y2)'` or `'steps(n[, start | end])'`,
+ * a spring, or any function mapping progress [0, 1] to eased progress
+ */
+export type Easing =
+  | EasingFunction
+  | `cubic-bezier(${string})`
+  | `steps(${string})`
+  | ({ type: 'spring' } & SpringConfig)
+  | ((t: number) => number);
+
+/**
+ * Physical state of a spring animation on the Bloch sphere: direction and
+ * length of the Bloch vector with their velocities
+ */
+export interface SpringState {
+  /** Unit direction of the Bloch vector */
+  direction: CartesianCoordinates;
+  /** Angular velocity vector (rad/s) */
+  angularVelocity: CartesianCoordinates;
+  /** Bloch vector length */
+  radius: number;
+  /** Rate of change of the length (1/s) */
+  radialVelocity: number;
+}
+
+/**
+ * Path followed by animated state transitions
+ * - 'geodesic': shortest great circle (slerp)
+ * - 'rotation': physical rotation about a gate axis
+ * - 'collapse': straight line through the ball, as for measurement collapse
+ */
+export type AnimationMode = 'geodesic' | 'rotation' | 'collapse';
+
 /**
  * Animation configuration
  */
@@ -55,8 +403,54 @@ export interface AnimationConfig {
   enabled?: boolean;
   /** Duration of state transition in milliseconds */
   duration?: number;
-  /** Easing function */
-  easing?: EasingFunction;
+  /** Easing curve, spring or custom function (default: 'easeInOut') */
+  easing?: Easing;
+  /** Transition path (default: 'geodesic') */
+  mode?: AnimationMode;
+  /**
+   * Rotation that produced the latest state change, used in 'rotation' mode.
+   * Give the gate (or axis and angle) together with the new `state`;
+   * when omitted, the smallest rotation between the two states is used.
+   */
+  rotation?: AxisAngle | Gate;
+  /**
+   * Minimum time between progress updates handed to React while animating,
+   * in milliseconds (default: 50). The vector itself moves every frame.
+   */
+  progressInterval?: number;
+}
+
+/**
+ * Result of advancing a StateAnimator by one frame
+ */
+export interface AnimationFrame {
+  /** Animated state after the step */
+  state: SphericalCoordinates;
+  /** Progress of the current transition in [0, 1] (1 when at rest) */
+  progress: number;
+  /** The state differs from the one reported by the previous step */
+  changed: boolean;
+  /** A transition started since the previous step */
+  started: boolean;
+  /** The running transition reached its target in this step */
+  finished: boolean;
+}
+
+/**
+ * Frame-driven state animation, advanced explicitly (e.g. from `useFrame`)
+ * instead of through React state
+ */
+export interface StateAnimator {
+  /** Current animated state */
+  readonly state: SphericalCoordinates;
+  /** State the animation is heading to */
+  readonly target: SphericalCoordinates;
+  /** A transition is in progress */
+  readonly active: boolean;
+  /** Head for a new target; ignored when the target is unchanged */
+  setTarget: (target: SphericalCoordinates, config?: AnimationConfig) => void;
+  /** Advance by `delta` milliseconds */
+  step: (delta: number) => AnimationFrame;
 }
 
 /**
@@ -71,8 +465,73 @@ export interface TrajectoryConfig {
   color?: string;
   /** Line width/thickness */
   lineWidth?: number;
-  /** Opacity of older points (creates fade effect) */
+  /** Fade older points towards `minOpacity` (per-vertex, by age) */
   fadeOpacity?: boolean;
+  /** Opacity of the oldest point when fading (default: 0.05) */
+  minOpacity?: number;
+  /** Color of the oldest point; blends towards `color` for newer points */
+  fadeColor?: string;
+  /** Record the animated path internally instead of using `history` */
+  record?: boolean;
+  /** Minimum distance between recorded points (default: 0.01) */
+  minDistance?: number;
+  /** Change this value to clear the recorded path */
+  resetKey?: string | number;
+  /**
+   * Drop points that lie within this distance of the simplified curve
+   * (default: 0, keep every point). About 0.002 is one pixel on a 500px
+   * sphere at the default zoom, so the curve keeps its shape when zoomed
+   * out while long traces need far fewer vertices.
+   */
+  decimation?: number;
+}
+
+/**
+ * Options for recording a trajectory
+ */
+export interface TrajectoryRecordOptions {
+  /** Maximum number of points to keep (oldest are dropped) */
+  maxPoints: number;
+  /** Minimum Cartesian distance between consecutive points */
+  minDistance: number;
+}
+
+/**
+ * Options for a trajectory buffer
+ */
+export interface TrajectoryBufferOptions {
+  /** Maximum number of vertices kept (the oldest are overwritten) */
+  maxPoints: number;
+  /** Skip points closer than this to the previous one (default: 0) */
+  minDistance?: number;
+  /** Decimation tolerance, see `TrajectoryConfig.decimation` (default: 0) */
+  tolerance?: number;
+}
+
+/**
+ * Preallocated ring buffer holding a trajectory as line segments, so new
+ * points are appended without copying or re-uploading the rest
+ */
+export interface TrajectoryBuffer {
+  /** Number of segment slots in `positions` and `samples` */
+  readonly slots: number;
+  /** Segment endpoints in Bloch coordinates, 6 floats per slot */
+  readonly positions: Float32Array;
+  /** Sample numbers of each segment's start and end, 2 floats per slot */
+  readonly samples: Float32Array;
+  /** Number of slots to draw, starting at slot 0 */
+  readonly count: number;
+  /** Sample numbers of the oldest and newest drawn vertex */
+  readonly oldest: number;
+  readonly newest: number;
+  /** Append points to the path */
+  append: (points: SphericalCoordinates[]) => void;
+  /** Provisional end point drawn after the path (null to remove) */
+  setTail: (point: SphericalCoordinates | null) => void;
+  /** Remove all points */
+  clear: () => void;
+  /** Slot ranges written since the last call, as [first slot, count] */
+  takeUpdates: () => [number, number][];
 }
 
 /**
@@ -85,6 +544,12 @@ export interface BlochSphereStyle {
   sphereOpacity?: number;
   /** State vector arrow color */
   stateVectorColor?: string;
+  /** Field vector (rotation axis) arrow color */
+  fieldVectorColor?: string;
+  /** Channel ellipsoid color */
+  ellipsoidColor?: string;
+  /** Channel ellipsoid opacity */
+  ellipsoidOpacity?: number;
   /** X-axis color (default: red) */
   xAxisColor?: string;
   /** Y-axis color (default: green) */
@@ -93,6 +558,8 @@ export interface BlochSphereStyle {
   zAxisColor?: string;
   /** Label font size */
   labelSize?: number;
+  /** Axis label color */
+  labelColor?: string;
   /** Show axis labels (|0>, |1>, etc.) */
   showLabels?: boolean;
   /** Show equator circle */
@@ -103,11 +570,30 @@ export interface BlochSphereStyle {
   backgroundColor?: string;
 }
 
+/**
+ * How Bloch coordinates are laid out in the 3D scene.
+ * The default is three.js' Y-up, right-handed, with |0⟩ at the top.
+ */
+export interface CoordinateConvention {
+  /**
+   * Scene axis along which the Bloch Z axis is drawn (default: 'y').
+   * 'z' matches physics software; the camera up vector follows it.
+   */
+  up?: 'y' | 'z';
+  /** Handedness of the displayed Bloch frame (default: 'right') */
+  handedness?: 'right' | 'left';
+  /** Draw |0⟩ at the bottom, as in some textbooks (default: false) */
+  zeroAtBottom?: boolean;
+}
+
 /**
  * Camera/view configuration
  */
 export interface CameraConfig {
-  /** Initial camera position [x, y, z] */
+  /**
+   * Initial camera position [x, y, z] in scene coordinates
+   * (default: the 'iso' view)
+   */
   position?: [number, number, number];
   /** Field of view in degrees */
   fov?: number;
@@ -122,9 +608,183 @@ export interface CameraConfig {
 }
 
 /**
- * Callback for state changes
+ * Named camera viewpoint, or a camera position [x, y, z] in scene
+ * coordinates (as in `CameraConfig.position`)
+ * - 'top': looking down the Z axis (|0⟩ towards the viewer)
+ * - 'front': looking along the X axis
+ * - 'side': looking along the Y axis
+ * - 'iso': the isometric default view
+ */
+export type CameraView =
+  | 'top'
+  | 'front'
+  | 'side'
+  | 'iso'
+  | [number, number, number];
+
+/**
+ * Options for programmatic camera moves
+ */
+export interface CameraMoveOptions {
+  /** Animate the move (default: true) */
+  animate?: boolean;
+  /** Transition duration in milliseconds (default: 600) */
+  duration?: number;
+}
+
+/**
+ * Camera position and orbit target, as reported by `onCameraChange`
+ */
+export interface CameraState {
+  position: [number, number, number];
+  target: [number, number, number];
+}
+
+/**
+ * Shares camera moves between spheres. A sphere publishes its camera
+ * position when the user (or the ref API) moves it; the other subscribers
+ * move their cameras to match.
+ */
+export interface CameraLink {
+  /**
+   * Register a listener for camera moves
+   * @returns Function that removes the listener
+   */
+  subscribe: (
+    listener: (position: [number, number, number]) => void
+  ) => () => void;
+  /** Send a camera position to every listener except `source` */
+  publish: (
+    position: [number, number, number],
+    source?: (position: [number, number, number]) => void
+  ) => void;
+}
+
+/**
+ * When the render loop runs
+ * - 'always': every animation frame
+ * - 'demand': only while something changes (animations, camera moves,
+ *   prop updates); paused while the sphere is scrolled out of view
+ */
+export type RenderMode = 'always' | 'demand';
+
+/**
+ * Imperative handle exposed through BlochSphereScene's `ref`
+ */
+export interface BlochSphereSceneHandle {
+  /**
+   * Append points to the trajectory of the (first) state without passing
+   * the whole history through props
+   */
+  appendTrajectory: (points: SphericalCoordinates[]) => void;
+  /** Remove all trajectory points */
+  clearTrajectory: () => void;
+}
+
+/**
+ * Imperative handle exposed through BlochSphere's `ref`
+ */
+export interface BlochSphereHandle extends BlochSphereSceneHandle {
+  /** Move the camera to a named viewpoint or position */
+  setView: (view: CameraView, options?: CameraMoveOptions) => void;
+  /** Return to `camera.position` (animated by default) */
+  resetCamera: (options?: CameraMoveOptions) => void;
+  /** Current camera position and target */
+  getCamera: () => CameraState;
+  /** Snapshot of the canvas as a data URL (default: PNG) */
+  toDataURL: (type?: string, quality?: number) => string;
+  /** Snapshot of the canvas as a Blob (default: PNG) */
+  toBlob: (type?: string, quality?: number) => Promise<Blob | null>;
+}
+
+/**
+ * Outcome of a projective qubit measurement.
+ * 0 is the eigenstate along +axis (|0> for the Z basis), 1 along -axis.
+ */
+export type MeasurementOutcome = 0 | 1;
+
+/**
+ * Result of a single measurement
+ */
+export interface MeasurementResult {
+  outcome: MeasurementOutcome;
+  /** Born-rule probability of this outcome */
+  probability: number;
+  /** Post-measurement eigenstate */
+  postState: SphericalCoordinates;
+}
+
+/**
+ * Measurement visualization configuration
+ */
+export interface MeasurementConfig {
+  /** Measurement axis in Bloch coordinates (default: +Z, computational basis) */
+  axis?: CartesianCoordinates;
+  /** Draw the measurement axis through the sphere */
+  showAxis?: boolean;
+  /** Measurement axis color */
+  axisColor?: string;
+  /** Outcome counts [n0, n1] shown as a histogram overlay */
+  counts?: [number, number];
+  /** Show Born-rule probabilities of the current state in the histogram */
+  showProbabilities?: boolean;
+  /** Histogram labels for outcomes 0 and 1 */
+  outcomeLabels?: [string, string];
+}
+
+/**
+ * Teaching overlays for the primary state, drawn for the animated state
+ */
+export interface AnnotationConfig {
+  /** Polar arc for θ from +Z and azimuth arc for φ from +X */
+  angles?: boolean;
+  /** Dashed projections of the state vector onto the x, y and z axes */
+  projections?: boolean;
+  /** Side panel with ⟨X⟩, ⟨Y⟩, ⟨Z⟩ bars and the |0⟩/|1⟩ probabilities */
+  expectations?: boolean;
+  /** Radius of the angle arcs (default: 0.4) */
+  arcRadius?: number;
+  /** Color of arcs, angle labels and projections (default: '#ffffff') */
+  color?: string;
+}
+
+/**
+ * Direct manipulation configuration
+ */
+export interface InteractionConfig {
+  /** Let the user drag the state vector arrowhead over the sphere */
+  editable?: boolean;
+  /** Snap to the nearest of `commonStates` while dragging */
+  snapToCommonStates?: boolean;
+  /** Angular distance in radians within which common states snap */
+  snapThreshold?: number;
+  /** Snap theta/phi to multiples of these steps in radians */
+  snapGrid?: { theta: number; phi: number };
+}
+
+/**
+ * Callback for state changes.
+ * `cartesian` is the Bloch vector, scaled by `radius` for mixed states.
  */
 export type OnStateChange = (
+  state: SphericalCoordinates,
+  cartesian: CartesianCoordinates,
+  radius: number
+) => void;
+
+/**
+ * Callback for animation progress, with progress in [0, 1]
+ */
+export type OnAnimationProgress = (
+  state: SphericalCoordinates,
+  progress: number
+) => void;
+
+/**
+ * Callback for user input (dragging the state vector).
+ * The parent should feed the reported state back through the `state` prop.
+ */
+export type OnStateInput = (
   state: SphericalCoordinates,
   cartesian: CartesianCoordinates
 ) => void;
@@ -133,8 +793,14 @@ export type OnStateChange = (
  * Main BlochSphere component props
  */
 export interface BlochSphereProps {
-  /** Current quantum state (controlled component) */
-  state: QuantumState;
+  /**
+   * Current quantum state (controlled component).
+   * Pass an array to compare several labelled states on one sphere;
+   * the first entry drives callbacks, dragging and measurement.
+   */
+  state: QuantumState | LabelledState[];
+  /** Pairs of states to compare in a fidelity / angular distance readout */
+  comparisons?: StateComparison[];
 
   /** Width of the canvas (CSS value or number in pixels) */
   width?: number | string;
@@ -148,20 +814,184 @@ export interface BlochSphereProps {
   style?: BlochSphereStyle;
   /** Camera and controls configuration */
   camera?: CameraConfig;
+  /** Scene axis layout (up axis, handedness, |0⟩ at top or bottom) */
+  convention?: CoordinateConvention;
+  /** Direct manipulation (dragging) configuration */
+  interaction?: InteractionConfig;
+  /** Measurement axis and outcome histogram */
+  measurement?: MeasurementConfig;
+  /**
+   * Instantaneous rotation axis, e.g. the Hamiltonian field from
+   * useTimeEvolution, drawn as a dashed arrow (direction only)
+   */
+  fieldVector?: CartesianCoordinates;
+  /** Channel whose image of the Bloch sphere is drawn as an ellipsoid */
+  channel?: QuantumChannel;
+  /** θ/φ arcs, axis projections and expectation value panel */
+  annotations?: AnnotationConfig;
+  /**
+   * Region drawn as a wireframe ellipsoid around the state, e.g. the
+   * `ellipsoid` of a tomography result
+   */
+  confidenceEllipsoid?: AffineBlochMap;
 
   /** Called when state transition completes (after animation) */
   onStateChange?: OnStateChange;
+  /** Called while the user drags the state vector (requires `interaction.editable`) */
+  onStateInput?: OnStateInput;
+  /** Called when the camera moves (orbit controls or the ref API) */
+  onCameraChange?: (camera: CameraState) => void;
+  /** Link the camera to other spheres sharing the same CameraLink */
+  cameraLink?: CameraLink;
+  /**
+   * When to render (default: 'always'). Ignored inside a BlochSphereGrid,
+   * which sets it for all of its spheres.
+   */
+  frameloop?: RenderMode;
   /** Called when animation starts */
   onAnimationStart?: () => void;
   /** Called when animation ends */
   onAnimationEnd?: () => void;
+  /**
+   * Called with the animated state while animating, at most every
+   * `animation.progressInterval` ms, and once the state settles
+   */
+  onAnimationProgress?: OnAnimationProgress;
 
   /**
    * External history array for trajectory visualization.
-   * Use this with onStateChange to maintain history externally.
+   * Use this with onStateChange to maintain history externally,
+   * or set `trajectory.record` to let the component keep it.
    */
   history?: SphericalCoordinates[];
 
   /** CSS class name for the container */
   className?: string;
 }
+
+/**
+ * Props for the BlochSphereScene component. The canvas, camera and HTML
+ * overlays (comparison readout, expectation panel, measurement histogram)
+ * belong to BlochSphere, so their props are left out.
+ */
+export interface BlochSphereSceneProps extends Omit<
+  BlochSphereProps,
+  | 'comparisons'
+  | 'width'
+  | 'height'
+  | 'camera'
+  | 'onCameraChange'
+  | 'cameraLink'
+  | 'frameloop'
+  | 'className'
+> {
+  /**
+   * Objects drawn in the Bloch frame: a point at (x, y, z) sits at the
+   * Bloch vector (x, y, z), whatever the convention, and 1 is the radius
+   */
+  children?: ReactNode;
+  /** Position of the sphere's center in the surrounding scene */
+  position?: [number, number, number];
+  /** Radius of the sphere in scene units (default: 1) */
+  scale?: number;
+}
+
+/**
+ * Props for the BlochSphereGrid component
+ */
+export interface BlochSphereGridProps {
+  /** BlochSphere elements (any depth); each is drawn in its own viewport */
+  children?: ReactNode;
+  /** Number of columns (default: as many as fit) */
+  columns?: number;
+  /** Space between cells (CSS value or number in pixels, default: 8) */
+  gap?: number | string;
+  /** Rotate and zoom all spheres together (default: false) */
+  linkCameras?: boolean;
+  /** When to render (default: 'demand') */
+  frameloop?: RenderMode;
+  /** CSS class name for the container */
+  className?: string;
+  /** Inline styles for the container */
+  style?: CSSProperties;
+}
+
+/**
+ * Props for the MultiQubitBlochSphere component
+ */
+export interface MultiQubitBlochSphereProps extends Omit<
+  BlochSphereProps,
+  'state' | 'history' | 'comparisons' | 'width' | 'height' | 'cameraLink'
+> {
+  /** n-qubit state vector or density matrix */
+  state: MultiQubitState;
+  /** Width and height of each qubit's sphere in pixels (default: 200) */
+  size?: number;
+  /** Spheres per row (default: one row) */
+  columns?: number;
+  /** Rotate all spheres together (default: true) */
+  linkCameras?: boolean;
+  /** Names shown for the qubits (default: q0, q1, …) */
+  qubitLabels?: string[];
+  /** Show purity, entropy and pairwise concurrence (default: true) */
+  showEntanglement?: boolean;
+}
+
+/**
+ * Props for the BlochCircuitPlayer component
+ */
+export interface BlochCircuitPlayerProps extends Omit<
+  BlochSphereProps,
+  'state' | 'history' | 'fieldVector'
+> {
+  /** Gates in application order */
+  gates: Gate[];
+  /** State before the first gate (default: |0⟩) */
+  initialState?: QuantumState;
+  /** Duration of every gate, or one duration per gate, in ms (default: 800) */
+  gateDuration?: number | number[];
+  /** Restart after the last gate (default: false) */
+  loop?: boolean;
+  /** Start playing on mount (default: false) */
+  autoPlay?: boolean;
+  /** Show the active gate's rotation axis (default: true) */
+  showGateAxis?: boolean;
+  /** Show the controls and gate timeline below the sphere (default: true) */
+  showControls?: boolean;
+  /** Called when the active gate changes (-1 before the first gate) */
+  onGateChange?: (index: number, gate: Gate | null) => void;
+}
+
+/**
+ * Options for the WebGL-free SVG renderer
+ */
+export interface BlochSphereSvgOptions {
+  /** State, or several labelled states (with optional `history`) */
+  state: QuantumState | LabelledState[];
+  /** Width in pixels (default: 400) */
+  width?: number;
+  /** Height in pixels (default: 400) */
+  height?: number;
+  /** Same style options as BlochSphere */
+  style?: BlochSphereStyle;
+  /** Only `position` is used; the view is an orthographic projection */
+  camera?: CameraConfig;
+  /** Scene axis layout, as for BlochSphere */
+  convention?: CoordinateConvention;
+  /** Trajectory drawing options (`enabled`, `color`, `lineWidth`, fading) */
+  trajectory?: TrajectoryConfig;
+  /** Trajectory of the first state */
+  history?: SphericalCoordinates[];
+  /** Label font family (default: sans-serif) */
+  fontFamily?: string;
+}
+
+/**
+ * Element of a rendered SVG scene: tag, attributes (SVG attribute names)
+ * and optional text content
+ */
+export interface SvgPrimitive {
+  tag: 'rect' | 'circle' | 'polyline' | 'polygon' | 'text';
+  attributes: Record<string, string | number>;
+  text?: string;
+}
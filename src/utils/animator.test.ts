@@ -0,0 +1,192 @@
+import { describe, it, expect } from 'vitest';
+import { createStateAnimator } from './animator';
+import { commonStates, slerp } from './quantum-math';
+import { commonGates, interpolateRotation } from './gates';
+import { angularDistance } from './metrics';
+import type { AnimationFrame, StateAnimator } from '../types';
+
+/** Step at 60 fps until the animator rests, returning every frame */
+function run(animator: StateAnimator, maxSeconds = 5): AnimationFrame[] {
+  const frames: AnimationFrame[] = [];
+  for (let t = 0; t < maxSeconds * 1000; t += 1000 / 60) {
+    frames.push(animator.step(1000 / 60));
+    if (!animator.active) break;
+  }
+  return frames;
+}
+
+describe('animator', () => {
+  it('rests at the initial state', () => {
+    const animator = createStateAnimator(commonStates.zero);
+    const frame = animator.step(16);
+    expect(frame.state).toBe(commonStates.zero);
+    expect(frame.changed).toBe(false);
+    expect(animator.active).toBe(false);
+  });
+
+  it('jumps when animation is disabled', () => {
+    const animator = createStateAnimator(commonStates.zero);
+    animator.setTarget(commonStates.one, { enabled: false });
+    expect(animator.active).toBe(false);
+    expect(animator.state).toBe(commonStates.one);
+
+    const frame = animator.step(16);
+    expect(frame).toMatchObject({ changed: true, started: false, progress: 1 });
+    expect(animator.step(16).changed).toBe(false);
+  });
+
+  it('follows the eased great circle over the duration', () => {
+    const animator = createStateAnimator(commonStates.zero);
+    animator.setTarget(commonStates.plus, { duration: 1000, easing: 'linear' });
+
+    const first = animator.step(250);
+    expect(first.started).toBe(true);
+    expect(first.progress).toBeCloseTo(0.25);
+    const expected = slerp(commonStates.zero, commonStates.plus, 0.25);
+    expect(first.state.theta).toBeCloseTo(expected.theta);
+
+    const middle = animator.step(500);
+    expect(middle.started).toBe(false);
+    expect(middle.finished).toBe(false);
+
+    const last = animator.step(250);
+    expect(last.finished).toBe(true);
+    expect(last.state).toBe(commonStates.plus);
+    expect(animator.active).toBe(false);
+  });
+
+  it('ignores an unchanged target', () => {
+    const animator = createStateAnimator(commonStates.zero);
+    animator.setTarget(commonStates.one, { duration: 1000 });
+    animator.step(500);
+    animator.setTarget({ ...commonStates.one }, { duration: 1000 });
+    expect(animator.step(500).finished).toBe(true);
+  });
+
+  it('restarts from the current state when retargeted', () => {
+    const animator = createStateAnimator(commonStates.zero);
+    animator.setTarget(commonStates.one, { duration: 1000, easing: 'linear' });
+    const midway = animator.step(500).state;
+
+    animator.setTarget(commonStates.plus, {
+      duration: 1000,
+      easing: 'linear',
+    });
+    const frame = animator.step(0);
+    expect(frame.started).toBe(true);
+    expect(angularDistance(frame.state, midway)).toBeCloseTo(0);
+  });
+
+  it('sweeps about the given rotation axis', () => {
+    const animator = createStateAnimator(commonStates.zero);
+    const config = {
+      duration: 1000,
+      easing: 'linear' as const,
+      mode: 'rotation' as const,
+      rotation: commonGates.X,
+    };
+    animator.setTarget(commonStates.one, config);
+    const frame = animator.step(500);
+    const expected = interpolateRotation(
+      commonStates.zero,
+      commonStates.one,
+      { axis: { x: 1, y: 0, z: 0 }, angle: Math.PI },
+      0.5
+    );
+    expect(angularDistance(frame.state, expected)).toBeCloseTo(0);
+  });
+
+  it('moves through the ball in collapse mode', () => {
+    const animator = createStateAnimator(commonStates.plus);
+    animator.setTarget(commonStates.zero, {
+      duration: 1000,
+      easing: 'linear',
+      mode: 'collapse',
+    });
+    expect(animator.step(500).state.r).toBeLessThan(1);
+  });
+
+  it('stays continuous when a gate arrives during a rotation', () => {
+    const animator = createStateAnimator(commonStates.zero);
+    const config = {
+      duration: 1000,
+      easing: 'linear' as const,
+      mode: 'rotation' as const,
+    };
+    animator.setTarget(commonStates.one, {
+      ...config,
+      rotation: commonGates.X,
+    });
+    animator.step(500);
+
+    // H|1> = |->, reached from the half-rotated state
+    animator.setTarget(commonStates.minus, {
+      ...config,
+      rotation: commonGates.H,
+    });
+    const states = [animator.state, ...run(animator).map((f) => f.state)];
+    const jumps = states
+      .slice(1)
+      .map((state, i) => angularDistance(states[i], state));
+    expect(Math.max(...jumps)).toBeLessThan(0.1);
+    expect(animator.state).toBe(commonStates.minus);
+  });
+
+  it('settles a geodesic spring on the target', () => {
+    const animator = createStateAnimator(commonStates.zero);
+    animator.setTarget(commonStates.plus, { easing: { type: 'spring' } });
+    const frames = run(animator);
+
+    expect(frames[0].started).toBe(true);
+    expect(frames.filter((frame) => frame.finished)).toHaveLength(1);
+    expect(frames[frames.length - 1].state).toBe(commonStates.plus);
+    const progress = frames.map((frame) => frame.progress);
+    expect(Math.min(...progress)).toBeGreaterThanOrEqual(0);
+    expect(Math.max(...progress)).toBeLessThanOrEqual(1);
+  });
+
+  it('keeps spring velocity when retargeted', () => {
+    const animator = createStateAnimator(commonStates.zero);
+    const config = { easing: { type: 'spring' as const } };
+    animator.setTarget(commonStates.plus, config);
+    animator.step(100);
+    const before = animator.state;
+
+    // Retarget behind the moving vector: it keeps going for a while
+    animator.setTarget(commonStates.zero, config);
+    const after = animator.step(16).state;
+    expect(after.theta).toBeGreaterThan(before.theta);
+  });
+
+  it('keeps progress spring speed when a path transition is retargeted', () => {
+    const config = {
+      easing: { type: 'spring' as const },
+      mode: 'collapse' as const,
+    };
+    const moving = createStateAnimator(commonStates.zero);
+    moving.setTarget(commonStates.one, config);
+    moving.step(100);
+    const start = moving.state;
+
+    // Same new target, once from the moving vector and once from rest
+    const resting = createStateAnimator(start);
+    moving.setTarget(commonStates.plus, config);
+    resting.setTarget(commonStates.plus, config);
+    const distance = (animator: StateAnimator) =>
+      Math.abs((animator.step(16).state.r ?? 1) - (start.r ?? 1)) +
+      angularDistance(animator.state, start);
+    expect(distance(moving)).toBeGreaterThan(2 * distance(resting));
+  });
+
+  it('drives path transitions with a spring', () => {
+    const animator = createStateAnimator(commonStates.zero);
+    animator.setTarget(commonStates.one, {
+      easing: { type: 'spring' },
+      mode: 'rotation',
+      rotation: commonGates.X,
+    });
+    const frames = run(animator);
+    expect(frames[frames.length - 1].finished).toBe(true);
+    expect(animator.state).toBe(commonStates.one);
+  });
+});
@@ -0,0 +1,282 @@
+import type {
+  AnimationConfig,
+  AnimationFrame,
+  AnimationMode,
+  AxisAngle,
+  SpringConfig,
+  SpringState,
+  SphericalCoordinates,
+  StateAnimator,
+} from '../types';
+import { lerpBlochVector, slerp, sphericalToCartesian } from './quantum-math';
+import {
+  defaultSpring,
+  isSpring,
+  resolveEasing,
+  springFromState,
+  springSettled,
+  springToSpherical,
+  stepSpring,
+  stepSpringProgress,
+} from './easing';
+import { gateToAxisAngle, interpolateRotation, rotationBetween } from './gates';
+
+/** Longest physics step (ms), so a background tab does not fling the vector */
+const MAX_SPRING_STEP = 64;
+
+/** Spring pulling the Bloch vector along the sphere ('geodesic' mode) */
+interface SpringTransition {
+  kind: 'spring';
+  spring: SpringConfig;
+  /** Distance to the target when the transition started */
+  distance: number;
+}
+
+/** Transition along a fixed path, timed by an easing or a 1D spring */
+interface PathTransition {
+  kind: 'path';
+  start: SphericalCoordinates;
+  mode: AnimationMode;
+  rotation: AxisAngle | null;
+  /** Easing curve, or null when a spring drives the progress */
+  easing: ((t: number) => number) | null;
+  spring: SpringConfig;
+  duration: number;
+  elapsed: number;
+  /** Progress and velocity of the progress spring */
+  springProgress: [number, number];
+}
+
+function sameState(a: SphericalCoordinates, b: SphericalCoordinates): boolean {
+  return a.theta === b.theta && a.phi === b.phi && a.r === b.r;
+}
+
+/** Distance between two Bloch vectors */
+function separation(a: SphericalCoordinates, b: SphericalCoordinates): number {
+  const p = sphericalToCartesian(a);
+  const q = sphericalToCartesian(b);
+  return Math.hypot(p.x - q.x, p.y - q.y, p.z - q.z);
+}
+
+/**
+ * Length of a transition path: the arc swept by a rotation, otherwise the
+ * straight distance (close enough to compare speeds along two paths)
+ */
+function pathLength(
+  start: SphericalCoordinates,
+  target: SphericalCoordinates,
+  rotation: AxisAngle | null
+): number {
+  if (!rotation) return separation(start, target);
+  const p = sphericalToCartesian(start);
+  const { axis, angle } = rotation;
+  const along = p.x * axis.x + p.y * axis.y + p.z * axis.z;
+  const perpendicular = Math.hypot(
+    p.x - along * axis.x,
+    p.y - along * axis.y,
+    p.z - along * axis.z
+  );
+  return Math.abs(angle) * perpendicular;
+}
+
+function interpolatePath(
+  transition: PathTransition,
+  target: SphericalCoordinates,
+  t: number
+): SphericalCoordinates {
+  if (transition.rotation) {
+    return interpolateRotation(
+      transition.start,
+      target,
+      transition.rotation,
+      t
+    );
+  }
+  if (transition.mode === 'collapse') {
+    return lerpBlochVector(transition.start, target, t);
+  }
+  return slerp(transition.start, target, t);
+}
+
+/**
+ * Create an animator for Bloch sphere states. It follows the same paths
+ * and timing as useAnimation, but holds no React state: call `setTarget`
+ * when the state changes and `step` once per frame.
+ *
+ * @param initial - State to start at (no transition)
+ * @returns Animator resting at `initial`
+ */
+export function createStateAnimator(
+  initial: SphericalCoordinates
+): StateAnimator {
+  let state = initial;
+  let target = initial;
+  let transition: SpringTransition | PathTransition | null = null;
+  // Running spring, kept across target changes to preserve its velocity
+  let spring: SpringState | null = null;
+  let changed = false;
+  let started = false;
+
+  const setTarget = (
+    next: SphericalCoordinates,
+    config: AnimationConfig = {}
+  ) => {
+    if (sameState(next, target)) return;
+    const previous = target;
+    const running = transition !== null;
+    target = next;
+
+    const {
+      enabled = true,
+      duration = 300,
+      easing = 'easeInOut',
+      mode = 'geodesic',
+      rotation,
+    } = config;
+
+    // If animation disabled, jump immediately
+    if (!enabled) {
+      transition = null;
+      spring = null;
+      state = next;
+      changed = true;
+      return;
+    }
+    started = true;
+
+    // Geodesic springs integrate the motion on the sphere directly
+    if (isSpring(easing) && mode === 'geodesic') {
+      spring ??= springFromState(state);
+      transition = {
+        kind: 'spring',
+        spring: easing,
+        distance: separation(state, next),
+      };
+      return;
+    }
+    spring = null;
+
+    let rotationPath: AxisAngle | null = null;
+    if (mode === 'rotation') {
+      // Part-way through a transition, the gate's full rotation would not
+      // take the current state to the target
+      if (!rotation || running) {
+        rotationPath = rotationBetween(state, next);
+      } else if ('matrix' in rotation) {
+        rotationPath = gateToAxisAngle(rotation);
+      } else {
+        rotationPath = rotation;
+      }
+    }
+
+    // A running progress spring passes its speed on to the new path
+    let velocity = 0;
+    if (transition?.kind === 'path' && !transition.easing && isSpring(easing)) {
+      const length = pathLength(state, next, rotationPath);
+      velocity =
+        length > 0
+          ? (transition.springProgress[1] *
+              pathLength(transition.start, previous, transition.rotation)) /
+            length
+          : 0;
+    }
+
+    transition = {
+      kind: 'path',
+      start: state,
+      mode,
+      rotation: rotationPath,
+      // Other springs drive the progress along the mode's path
+      easing: resolveEasing(easing),
+      spring: isSpring(easing) ? easing : {},
+      duration,
+      elapsed: 0,
+      springProgress: [0, velocity],
+    };
+  };
+
+  const step = (delta: number): AnimationFrame => {
+    const frame: AnimationFrame = {
+      state,
+      progress: 1,
+      changed,
+      started,
+      finished: false,
+    };
+    changed = false;
+    started = false;
+    if (!transition) return frame;
+
+    const dt = Math.min(delta, MAX_SPRING_STEP) / 1000;
+    let progress: number;
+    let settled: boolean;
+
+    if (transition.kind === 'spring') {
+      spring = stepSpring(
+        spring ?? springFromState(state),
+        target,
+        dt,
+        transition.spring
+      );
+      settled = springSettled(spring, target, transition.spring.precision);
+      state = springToSpherical(spring);
+      progress =
+        transition.distance > 0
+          ? Math.max(0, 1 - separation(state, target) / transition.distance)
+          : 1;
+    } else {
+      let eased: number;
+      if (transition.easing) {
+        transition.elapsed += delta;
+        progress =
+          transition.duration > 0
+            ? Math.min(transition.elapsed / transition.duration, 1)
+            : 1;
+        settled = progress >= 1;
+        eased = transition.easing(progress);
+      } else {
+        transition.springProgress = stepSpringProgress(
+          transition.springProgress,
+          dt,
+          transition.spring
+        );
+        const [value, velocity] = transition.springProgress;
+        const precision =
+          transition.spring.precision ?? defaultSpring.precision;
+        settled =
+          Math.abs(1 - value) < precision && Math.abs(velocity) < precision;
+        progress = settled ? 1 : Math.max(0, Math.min(1, value));
+        eased = settled ? 1 : value;
+      }
+      state = interpolatePath(transition, target, eased);
+    }
+
+    if (settled) {
+      transition = null;
+      spring = null;
+      state = target;
+      progress = 1;
+    }
+    return {
+      state,
+      progress,
+      changed: true,
+      started: frame.started,
+      finished: settled,
+    };
+  };
+
+  return {
+    get state() {
+      return state;
+    },
+    get target() {
+      return target;
+    },
+    get active() {
+      return transition !== null;
+    },
+    setTarget,
+    step,
+  };
+}
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { angleArcs, axisProjections, pauliExpectations } from './annotations';
+import { commonStates } from './quantum-math';
+
+describe('annotations', () => {
+  describe('angleArcs', () => {
+    it('runs the θ arc from +Z to the state direction', () => {
+      const { theta } = angleArcs({ theta: Math.PI / 2, phi: Math.PI / 2 }, 1);
+      const first = theta[0];
+      const last = theta[theta.length - 1];
+      expect(first.z).toBeCloseTo(1);
+      expect(last.x).toBeCloseTo(0);
+      expect(last.y).toBeCloseTo(1);
+      expect(last.z).toBeCloseTo(0);
+    });
+
+    it('runs the φ arc from +X in the equatorial plane', () => {
+      const { phi } = angleArcs({ theta: 1, phi: Math.PI }, 0.5);
+      expect(phi[0]).toEqual({ x: 0.5, y: 0, z: 0 });
+      expect(phi[phi.length - 1].x).toBeCloseTo(-0.5);
+      phi.forEach((p) => {
+        expect(p.z).toBe(0);
+        expect(Math.hypot(p.x, p.y)).toBeCloseTo(0.5);
+      });
+    });
+
+    it('takes negative azimuths the long way round from +X', () => {
+      const { phi } = angleArcs({ theta: 1, phi: -Math.PI / 2 }, 1, 4);
+      // Halfway along 3π/2 is 3π/4
+      expect(phi[2].x).toBeCloseTo(-Math.SQRT1_2);
+      expect(phi[2].y).toBeCloseTo(Math.SQRT1_2);
+      expect(phi[4].y).toBeCloseTo(-1);
+    });
+
+    it('uses segments + 1 points per arc', () => {
+      const arcs = angleArcs(commonStates.plus, 0.4, 10);
+      expect(arcs.theta).toHaveLength(11);
+      expect(arcs.phi).toHaveLength(11);
+    });
+  });
+
+  describe('pauliExpectations', () => {
+    it('returns the Bloch vector components', () => {
+      const plusI = pauliExpectations(commonStates.plusI);
+      expect(plusI.x).toBeCloseTo(0);
+      expect(plusI.y).toBeCloseTo(1);
+      expect(plusI.z).toBeCloseTo(0);
+    });
+
+    it('shrinks with the purity of mixed states', () => {
+      expect(pauliExpectations({ theta: 0, phi: 0, r: 0.5 }).z).toBeCloseTo(
+        0.5
+      );
+    });
+  });
+
+  describe('axisProjections', () => {
+    it('drops perpendiculars onto each axis and the equator', () => {
+      const v = { theta: Math.PI / 3, phi: Math.PI / 4 };
+      const { x, y, z, equator } = axisProjections(v);
+      const s = Math.sin(Math.PI / 3) * Math.SQRT1_2;
+      expect(x.x).toBeCloseTo(s);
+      expect(y.y).toBeCloseTo(s);
+      expect(z.z).toBeCloseTo(0.5);
+      expect([x.y, x.z, y.x, y.z, z.x, z.y]).toEqual([0, 0, 0, 0, 0, 0]);
+      expect(equator).toEqual({ x: x.x, y: y.y, z: 0 });
+    });
+  });
+});
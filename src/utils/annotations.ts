@@ -0,0 +1,67 @@
+import type { CartesianCoordinates, SphericalCoordinates } from '../types';
+import { sphericalToCartesian } from './quantum-math';
+
+/**
+ * Points of the polar and azimuth arcs that mark θ and φ.
+ * The θ arc runs from +Z to the state direction in its meridian plane,
+ * the φ arc from +X to the state's azimuth in the equatorial plane
+ * (φ is taken in [0, 2π)).
+ *
+ * @param coords - State in spherical coordinates
+ * @param radius - Arc radius
+ * @param segments - Number of line segments per arc
+ * @returns Arc points in Bloch coordinates
+ */
+export function angleArcs(
+  coords: SphericalCoordinates,
+  radius = 0.4,
+  segments = 32
+): { theta: CartesianCoordinates[]; phi: CartesianCoordinates[] } {
+  const { theta } = coords;
+  const phi = ((coords.phi % (2 * Math.PI)) + 2 * Math.PI) % (2 * Math.PI);
+  const cosPhi = Math.cos(phi);
+  const sinPhi = Math.sin(phi);
+
+  const thetaArc: CartesianCoordinates[] = [];
+  const phiArc: CartesianCoordinates[] = [];
+  for (let i = 0; i <= segments; i++) {
+    const t = (i / segments) * theta;
+    thetaArc.push({
+      x: radius * Math.sin(t) * cosPhi,
+      y: radius * Math.sin(t) * sinPhi,
+      z: radius * Math.cos(t),
+    });
+    const s = (i / segments) * phi;
+    phiArc.push({ x: radius * Math.cos(s), y: radius * Math.sin(s), z: 0 });
+  }
+  return { theta: thetaArc, phi: phiArc };
+}
+
+/**
+ * Pauli expectation values of a (possibly mixed) state: the Bloch vector
+ * components ⟨X⟩, ⟨Y⟩, ⟨Z⟩
+ */
+export function pauliExpectations(
+  coords: SphericalCoordinates
+): CartesianCoordinates {
+  return sphericalToCartesian(coords);
+}
+
+/**
+ * Feet of the perpendiculars from the Bloch vector onto each axis and
+ * onto the equatorial plane, in Bloch coordinates
+ */
+export function axisProjections(coords: SphericalCoordinates): {
+  x: CartesianCoordinates;
+  y: CartesianCoordinates;
+  z: CartesianCoordinates;
+  equator: CartesianCoordinates;
+} {
+  const { x, y, z } = sphericalToCartesian(coords);
+  return {
+    x: { x, y: 0, z: 0 },
+    y: { x: 0, y, z: 0 },
+    z: { x: 0, y: 0, z },
+    equator: { x, y, z: 0 },
+  };
+}
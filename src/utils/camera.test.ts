@@ -0,0 +1,64 @@
+import { describe, it, expect, vi } from 'vitest';
+import { cameraViewPosition, createCameraLink } from './camera';
+
+describe('camera', () => {
+  describe('cameraViewPosition', () => {
+    it('places named views at the requested distance', () => {
+      (['top', 'front', 'side', 'iso'] as const).forEach((view) => {
+        expect(Math.hypot(...cameraViewPosition(view, 4))).toBeCloseTo(4);
+      });
+    });
+
+    it('looks down the Bloch Z axis (scene Y) from the top', () => {
+      const [x, y, z] = cameraViewPosition('top', 3);
+      expect(x).toBeCloseTo(0);
+      expect(y).toBeCloseTo(3);
+      expect(z).toBeCloseTo(0, 2);
+    });
+
+    it('views the isometric corner of the Bloch octant (+x, +y, +z)', () => {
+      const [x, y, z] = cameraViewPosition('iso', Math.sqrt(3));
+      expect(x).toBeCloseTo(1);
+      expect(y).toBeCloseTo(1);
+      expect(z).toBeCloseTo(-1);
+    });
+
+    it('places views in the scene frame of the convention', () => {
+      const top = cameraViewPosition('top', 3, { up: 'z' });
+      expect(top[2]).toBeCloseTo(3);
+      const side = cameraViewPosition('side', 2, { up: 'z' });
+      expect(side).toEqual([0, 2, 0]);
+    });
+
+    it('returns explicit positions unchanged', () => {
+      expect(cameraViewPosition([1, 2, 3], 10)).toEqual([1, 2, 3]);
+    });
+  });
+
+  describe('createCameraLink', () => {
+    it('sends positions to every listener except the source', () => {
+      const link = createCameraLink();
+      const a = vi.fn();
+      const b = vi.fn();
+      link.subscribe(a);
+      link.subscribe(b);
+
+      link.publish([1, 2, 3], a);
+      expect(a).not.toHaveBeenCalled();
+      expect(b).toHaveBeenCalledWith([1, 2, 3]);
+
+      link.publish([0, 0, 4]);
+      expect(a).toHaveBeenCalledWith([0, 0, 4]);
+      expect(b).toHaveBeenCalledTimes(2);
+    });
+
+    it('stops calling listeners once unsubscribed', () => {
+      const link = createCameraLink();
+      const listener = vi.fn();
+      const unsubscribe = link.subscribe(listener);
+      unsubscribe();
+      link.publish([1, 1, 1]);
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,65 @@
+import type { CameraLink, CameraView, CoordinateConvention } from '../types';
+import { displayToScene } from './coordinates';
+
+/**
+ * Viewing directions of the named views in the display frame (z drawn
+ * upwards). 'top' is tilted very slightly so that the orbit controls keep a
+ * well-defined up direction, with +y at the top of the screen.
+ */
+const viewDirections: Record<
+  Exclude<CameraView, number[]>,
+  [number, number, number]
+> = {
+  top: [0, -1e-3, 1],
+  front: [1, 0, 0],
+  side: [0, 1, 0],
+  iso: [1, 1, 1],
+};
+
+/**
+ * Camera position for a view
+ *
+ * @param view - Named view, or an explicit position (returned unchanged)
+ * @param distance - Distance from the origin for named views
+ * @param convention - Scene axis layout
+ * @returns Position [x, y, z] in scene coordinates
+ */
+export function cameraViewPosition(
+  view: CameraView,
+  distance: number,
+  convention?: CoordinateConvention
+): [number, number, number] {
+  if (Array.isArray(view)) return [view[0], view[1], view[2]];
+
+  const direction = displayToScene(viewDirections[view], convention);
+  const length = Math.hypot(direction[0], direction[1], direction[2]);
+  return [
+    (direction[0] / length) * distance,
+    (direction[1] / length) * distance,
+    (direction[2] / length) * distance,
+  ];
+}
+
+/**
+ * Create a link that keeps several sphere cameras in step. Pass it as
+ * `cameraLink` to each BlochSphere (BlochSphereGrid's `linkCameras` does
+ * this for its spheres).
+ *
+ * @returns Link with no listeners
+ */
+export function createCameraLink(): CameraLink {
+  const listeners = new Set<(position: [number, number, number]) => void>();
+  return {
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    publish: (position, source) => {
+      listeners.forEach((listener) => {
+        if (listener !== source) listener(position);
+      });
+    },
+  };
+}
@@ -0,0 +1,172 @@
+import { describe, it, expect } from 'vitest';
+import {
+  amplitudeDampingChannel,
+  applyChannel,
+  applyChannelToBlochVector,
+  bitFlipChannel,
+  channelToAffineMap,
+  channelToPtm,
+  composeChannels,
+  depolarizingChannel,
+  isCompletelyPositive,
+  isCPTP,
+  isTracePreserving,
+  pauliChannel,
+  phaseFlipChannel,
+} from './channels';
+import { complex } from './complex';
+import { commonGates } from './gates';
+import {
+  blochVectorToDensityMatrix,
+  densityMatrixToBlochVector,
+} from './quantum-math';
+import type { QuantumChannel } from '../types';
+
+function expectVectorClose(
+  actual: { x: number; y: number; z: number },
+  expected: { x: number; y: number; z: number }
+) {
+  expect(actual.x).toBeCloseTo(expected.x);
+  expect(actual.y).toBeCloseTo(expected.y);
+  expect(actual.z).toBeCloseTo(expected.z);
+}
+
+describe('channels', () => {
+  describe('presets', () => {
+    it('depolarizing shrinks the sphere uniformly', () => {
+      const { matrix, offset } = channelToAffineMap(depolarizingChannel(0.4));
+      expect(matrix[0][0]).toBeCloseTo(0.6);
+      expect(matrix[1][1]).toBeCloseTo(0.6);
+      expect(matrix[2][2]).toBeCloseTo(0.6);
+      expectVectorClose(offset, { x: 0, y: 0, z: 0 });
+    });
+
+    it('amplitude damping contracts towards |0>', () => {
+      const gamma = 0.36;
+      const { matrix, offset } = channelToAffineMap(
+        amplitudeDampingChannel(gamma)
+      );
+      expect(matrix[0][0]).toBeCloseTo(0.8);
+      expect(matrix[1][1]).toBeCloseTo(0.8);
+      expect(matrix[2][2]).toBeCloseTo(1 - gamma);
+      expectVectorClose(offset, { x: 0, y: 0, z: gamma });
+    });
+
+    it('phase flip squeezes the equatorial plane', () => {
+      const image = applyChannelToBlochVector(phaseFlipChannel(0.25), {
+        x: 1,
+        y: 0,
+        z: 0,
+      });
+      expectVectorClose(image, { x: 0.5, y: 0, z: 0 });
+      expectVectorClose(
+        applyChannelToBlochVector(phaseFlipChannel(0.25), { x: 0, y: 0, z: 1 }),
+        { x: 0, y: 0, z: 1 }
+      );
+    });
+
+    it('bit flip keeps the X axis', () => {
+      const { matrix } = channelToAffineMap(bitFlipChannel(0.1));
+      expect(matrix[0][0]).toBeCloseTo(1);
+      expect(matrix[1][1]).toBeCloseTo(0.8);
+      expect(matrix[2][2]).toBeCloseTo(0.8);
+    });
+
+    it('pauli channel scales each axis independently', () => {
+      const { matrix } = channelToAffineMap(pauliChannel(0.1, 0.2, 0.3));
+      expect(matrix[0][0]).toBeCloseTo(1 - 2 * (0.2 + 0.3));
+      expect(matrix[1][1]).toBeCloseTo(1 - 2 * (0.1 + 0.3));
+      expect(matrix[2][2]).toBeCloseTo(1 - 2 * (0.1 + 0.2));
+    });
+
+    it('all presets are CPTP', () => {
+      [
+        depolarizingChannel(0.3),
+        amplitudeDampingChannel(0.7),
+        phaseFlipChannel(0.5),
+        bitFlipChannel(1),
+        pauliChannel(0.1, 0.2, 0.3),
+      ].forEach((channel) => expect(isCPTP(channel)).toBe(true));
+    });
+  });
+
+  describe('applyChannel', () => {
+    it('agrees between Kraus and PTM representations', () => {
+      const kraus = amplitudeDampingChannel(0.3);
+      const ptm: QuantumChannel = { type: 'ptm', matrix: channelToPtm(kraus) };
+      const rho = blochVectorToDensityMatrix({ x: 0.3, y: -0.5, z: 0.6 });
+
+      expectVectorClose(
+        densityMatrixToBlochVector(applyChannel(ptm, rho)),
+        densityMatrixToBlochVector(applyChannel(kraus, rho))
+      );
+    });
+  });
+
+  describe('composeChannels', () => {
+    it('applies channels in array order', () => {
+      const unitaryX: QuantumChannel = {
+        type: 'kraus',
+        operators: [commonGates.X.matrix],
+      };
+      const damping = amplitudeDampingChannel(1);
+      // Damping resets to |0>, X then flips to |1>
+      const composed = composeChannels([damping, unitaryX]);
+
+      expectVectorClose(
+        applyChannelToBlochVector(composed, { x: 0, y: 0, z: 1 }),
+        { x: 0, y: 0, z: -1 }
+      );
+    });
+
+    it('multiplies shrink factors', () => {
+      const composed = composeChannels([
+        depolarizingChannel(0.5),
+        { type: 'ptm', matrix: channelToPtm(depolarizingChannel(0.5)) },
+      ]);
+      expect(composed.type).toBe('ptm');
+      expect(channelToAffineMap(composed).matrix[0][0]).toBeCloseTo(0.25);
+    });
+
+    it('keeps Kraus form when composing Kraus channels', () => {
+      const composed = composeChannels([
+        bitFlipChannel(0.2),
+        phaseFlipChannel(0.1),
+      ]);
+      expect(composed.type).toBe('kraus');
+      expect(isCPTP(composed)).toBe(true);
+    });
+  });
+
+  describe('CPTP checks', () => {
+    it('detects non-trace-preserving Kraus sets', () => {
+      const channel: QuantumChannel = {
+        type: 'kraus',
+        operators: [
+          [
+            [complex(1), complex(0)],
+            [complex(0), complex(0)],
+          ],
+        ],
+      };
+      expect(isTracePreserving(channel)).toBe(false);
+      expect(isCompletelyPositive(channel)).toBe(true);
+    });
+
+    it('rejects the transpose map as not completely positive', () => {
+      // Transpose flips y -> -y: trace preserving and positive, but not CP
+      const transpose: QuantumChannel = {
+        type: 'ptm',
+        matrix: [
+          [1, 0, 0, 0],
+          [0, 1, 0, 0],
+          [0, 0, -1, 0],
+          [0, 0, 0, 1],
+        ],
+      };
+      expect(isTracePreserving(transpose)).toBe(true);
+      expect(isCompletelyPositive(transpose)).toBe(false);
+      expect(isCPTP(transpose)).toBe(false);
+    });
+  });
+});
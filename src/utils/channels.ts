@@ -0,0 +1,280 @@
+import type {
+  AffineBlochMap,
+  CartesianCoordinates,
+  Complex,
+  ComplexMatrix2x2,
+  DensityMatrix,
+  PauliTransferMatrix,
+  QuantumChannel,
+} from '../types';
+import {
+  complex,
+  complexAbs,
+  complexAdd,
+  complexScale,
+  complexSub,
+  identityMatrix,
+  matrixAdd,
+  matrixAdjoint,
+  matrixMultiply,
+  matrixScale,
+} from './complex';
+import { commonGates } from './gates';
+import { hermitianEigenvalues } from './linear-algebra';
+
+/** Pauli basis I, X, Y, Z */
+const paulis: ComplexMatrix2x2[] = [
+  commonGates.I.matrix,
+  commonGates.X.matrix,
+  commonGates.Y.matrix,
+  commonGates.Z.matrix,
+];
+
+function zeroMatrix(): ComplexMatrix2x2 {
+  return [
+    [complex(0), complex(0)],
+    [complex(0), complex(0)],
+  ];
+}
+
+function trace(m: ComplexMatrix2x2): Complex {
+  return complexAdd(m[0][0], m[1][1]);
+}
+
+function krausChannel(operators: ComplexMatrix2x2[]): QuantumChannel {
+  return { type: 'kraus', operators };
+}
+
+function scaled(m: ComplexMatrix2x2, factor: number): ComplexMatrix2x2 {
+  return matrixScale(m, complex(factor));
+}
+
+/**
+ * Depolarizing channel: rho -> (1 - p) rho + p I/2.
+ * Shrinks the Bloch sphere uniformly by (1 - p).
+ */
+export function depolarizingChannel(p: number): QuantumChannel {
+  return pauliChannel(p / 4, p / 4, p / 4);
+}
+
+/**
+ * Amplitude damping with decay probability gamma.
+ * Contracts the sphere towards |0>: (x, y, z) -> (s x, s y, gamma + (1 - gamma) z)
+ * with s = sqrt(1 - gamma).
+ */
+export function amplitudeDampingChannel(gamma: number): QuantumChannel {
+  return krausChannel([
+    [
+      [complex(1), complex(0)],
+      [complex(0), complex(Math.sqrt(1 - gamma))],
+    ],
+    [
+      [complex(0), complex(Math.sqrt(gamma))],
+      [complex(0), complex(0)],
+    ],
+  ]);
+}
+
+/**
+ * Phase flip (Z error with probability p): squeezes x and y by (1 - 2p)
+ */
+export function phaseFlipChannel(p: number): QuantumChannel {
+  return pauliChannel(0, 0, p);
+}
+
+/**
+ * Bit flip (X error with probability p): squeezes y and z by (1 - 2p)
+ */
+export function bitFlipChannel(p: number): QuantumChannel {
+  return pauliChannel(p, 0, 0);
+}
+
+/**
+ * Pauli channel: X, Y, Z errors with probabilities px, py, pz
+ */
+export function pauliChannel(
+  px: number,
+  py: number,
+  pz: number
+): QuantumChannel {
+  const pi = Math.max(0, 1 - px - py - pz);
+  return krausChannel([
+    scaled(paulis[0], Math.sqrt(pi)),
+    scaled(paulis[1], Math.sqrt(px)),
+    scaled(paulis[2], Math.sqrt(py)),
+    scaled(paulis[3], Math.sqrt(pz)),
+  ]);
+}
+
+/**
+ * Apply a channel to any 2x2 operator (linear extension)
+ */
+export function applyChannel(
+  channel: QuantumChannel,
+  rho: DensityMatrix
+): DensityMatrix {
+  if (channel.type === 'kraus') {
+    return channel.operators.reduce(
+      (acc, K) =>
+        matrixAdd(
+          acc,
+          matrixMultiply(matrixMultiply(K, rho), matrixAdjoint(K))
+        ),
+      zeroMatrix()
+    );
+  }
+
+  // Expand rho in the Pauli basis, map coefficients through the PTM
+  const coefficients = paulis.map((sigma) =>
+    complexScale(trace(matrixMultiply(sigma, rho)), 0.5)
+  );
+  return paulis.reduce((acc, sigma, i) => {
+    const coefficient = coefficients.reduce(
+      (sum, c, j) => complexAdd(sum, complexScale(c, channel.matrix[i][j])),
+      complex(0)
+    );
+    return matrixAdd(acc, matrixScale(sigma, coefficient));
+  }, zeroMatrix());
+}
+
+/**
+ * Pauli transfer matrix of a channel: R[i][j] = Tr(sigma_i E(sigma_j)) / 2
+ */
+export function channelToPtm(channel: QuantumChannel): PauliTransferMatrix {
+  if (channel.type === 'ptm') return channel.matrix;
+  const images = paulis.map((sigma) => applyChannel(channel, sigma));
+  return paulis.map((sigmaI) =>
+    images.map((image) => trace(matrixMultiply(sigmaI, image)).real / 2)
+  );
+}
+
+/**
+ * Affine action of a channel on Bloch vectors (r' = M r + c)
+ */
+export function channelToAffineMap(channel: QuantumChannel): AffineBlochMap {
+  const R = channelToPtm(channel);
+  return {
+    matrix: [1, 2, 3].map((i) => [R[i][1], R[i][2], R[i][3]]),
+    offset: { x: R[1][0], y: R[2][0], z: R[3][0] },
+  };
+}
+
+/**
+ * Apply a channel to a Bloch vector
+ */
+export function applyChannelToBlochVector(
+  channel: QuantumChannel,
+  vector: CartesianCoordinates
+): CartesianCoordinates {
+  const { matrix: M, offset } = channelToAffineMap(channel);
+  return {
+    x: M[0][0] * vector.x + M[0][1] * vector.y + M[0][2] * vector.z + offset.x,
+    y: M[1][0] * vector.x + M[1][1] * vector.y + M[1][2] * vector.z + offset.y,
+    z: M[2][0] * vector.x + M[2][1] * vector.y + M[2][2] * vector.z + offset.z,
+  };
+}
+
+/**
+ * Compose channels applied in array order (the first is applied first).
+ * Kraus channels compose to Kraus operators; otherwise the result is a PTM.
+ */
+export function composeChannels(channels: QuantumChannel[]): QuantumChannel {
+  if (channels.every((channel) => channel.type === 'kraus')) {
+    const operators = channels.reduce<ComplexMatrix2x2[]>(
+      (acc, channel) =>
+        (channel as { operators: ComplexMatrix2x2[] }).operators.flatMap((K) =>
+          acc.map((A) => matrixMultiply(K, A))
+        ),
+      [identityMatrix()]
+    );
+    return krausChannel(operators);
+  }
+
+  const product = channels.reduce<PauliTransferMatrix>(
+    (acc, channel) => multiplyReal(channelToPtm(channel), acc),
+    [0, 1, 2, 3].map((i) => [0, 1, 2, 3].map((j) => (i === j ? 1 : 0)))
+  );
+  return { type: 'ptm', matrix: product };
+}
+
+/**
+ * Choi matrix J = sum_ij |i><j| (x) E(|i><j|) (4x4)
+ */
+export function choiMatrix(channel: QuantumChannel): Complex[][] {
+  const J: Complex[][] = [0, 1, 2, 3].map(() =>
+    [0, 1, 2, 3].map(() => complex(0))
+  );
+  for (const i of [0, 1] as const) {
+    for (const j of [0, 1] as const) {
+      const unit = zeroMatrix();
+      unit[i][j] = complex(1);
+      const image = applyChannel(channel, unit);
+      for (const k of [0, 1] as const) {
+        for (const l of [0, 1] as const) {
+          J[2 * i + k][2 * j + l] = image[k][l];
+        }
+      }
+    }
+  }
+  return J;
+}
+
+/**
+ * Check complete positivity: the Choi matrix is positive semidefinite
+ */
+export function isCompletelyPositive(
+  channel: QuantumChannel,
+  tolerance = 1e-9
+): boolean {
+  const J = choiMatrix(channel);
+  // The Choi matrix must be Hermitian before its spectrum is meaningful
+  for (let i = 0; i < 4; i++) {
+    for (let j = 0; j < 4; j++) {
+      const conjugate = { real: J[j][i].real, imag: -J[j][i].imag };
+      if (complexAbs(complexSub(J[i][j], conjugate)) > tolerance) return false;
+    }
+  }
+  return hermitianEigenvalues(J)[0] >= -tolerance;
+}
+
+/**
+ * Check trace preservation: Tr E(rho) = Tr rho for all rho
+ */
+export function isTracePreserving(
+  channel: QuantumChannel,
+  tolerance = 1e-9
+): boolean {
+  if (channel.type === 'kraus') {
+    const sum = channel.operators.reduce(
+      (acc, K) => matrixAdd(acc, matrixMultiply(matrixAdjoint(K), K)),
+      zeroMatrix()
+    );
+    const identity = identityMatrix();
+    return ([0, 1] as const).every((i) =>
+      ([0, 1] as const).every(
+        (j) => complexAbs(complexSub(sum[i][j], identity[i][j])) <= tolerance
+      )
+    );
+  }
+  const [first] = channel.matrix;
+  return (
+    Math.abs(first[0] - 1) <= tolerance &&
+    first.slice(1).every((value) => Math.abs(value) <= tolerance)
+  );
+}
+
+/**
+ * Check that a channel is completely positive and trace preserving
+ */
+export function isCPTP(channel: QuantumChannel, tolerance = 1e-9): boolean {
+  return (
+    isTracePreserving(channel, tolerance) &&
+    isCompletelyPositive(channel, tolerance)
+  );
+}
+
+function multiplyReal(a: number[][], b: number[][]): number[][] {
+  return a.map((row) =>
+    b[0].map((_, j) => row.reduce((sum, value, k) => sum + value * b[k][j], 0))
+  );
+}
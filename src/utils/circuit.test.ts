@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildCircuitTimeline,
+  circuitBoundaries,
+  circuitDuration,
+  circuitPositionAt,
+  sampleCircuitPath,
+} from './circuit';
+import { commonGates } from './gates';
+
+const zero = { x: 0, y: 0, z: 1 };
+
+function expectVectorClose(
+  actual: { x: number; y: number; z: number },
+  expected: { x: number; y: number; z: number }
+) {
+  expect(actual.x).toBeCloseTo(expected.x);
+  expect(actual.y).toBeCloseTo(expected.y);
+  expect(actual.z).toBeCloseTo(expected.z);
+}
+
+describe('circuit', () => {
+  const { H, S, X } = commonGates;
+
+  describe('buildCircuitTimeline', () => {
+    it('applies gates in order', () => {
+      const steps = buildCircuitTimeline([H, S], zero, 500);
+      expectVectorClose(steps[0].after, { x: 1, y: 0, z: 0 });
+      expectVectorClose(steps[1].before, steps[0].after);
+      expectVectorClose(steps[1].after, { x: 0, y: 1, z: 0 });
+    });
+
+    it('accepts per-gate durations', () => {
+      const steps = buildCircuitTimeline([H, S, X], zero, [100, 300]);
+      expect(steps.map((step) => step.start)).toEqual([0, 100, 400]);
+      // Missing entries reuse the last duration
+      expect(steps[2].duration).toBe(300);
+      expect(circuitDuration(steps)).toBe(700);
+      expect(circuitBoundaries(steps)).toEqual([0, 100, 400, 700]);
+    });
+
+    it('is empty for an empty circuit', () => {
+      const steps = buildCircuitTimeline([], zero, 500);
+      expect(circuitDuration(steps)).toBe(0);
+      expect(circuitBoundaries(steps)).toEqual([0]);
+    });
+  });
+
+  describe('circuitPositionAt', () => {
+    const steps = buildCircuitTimeline([X, H], zero, 1000);
+
+    it('starts before the first gate', () => {
+      const position = circuitPositionAt(steps, zero, 0);
+      expect(position.index).toBe(-1);
+      expectVectorClose(position.vector, zero);
+    });
+
+    it('rotates about the gate axis mid-gate', () => {
+      const position = circuitPositionAt(steps, zero, 500);
+      expect(position.index).toBe(0);
+      expect(position.progress).toBeCloseTo(0.5);
+      // Halfway through an X rotation, |0> sits on the Y axis
+      expect(Math.abs(position.vector.y)).toBeCloseTo(1);
+      expect(position.vector.z).toBeCloseTo(0);
+    });
+
+    it('reports the finished gate at a boundary', () => {
+      const position = circuitPositionAt(steps, zero, 1000);
+      expect(position.index).toBe(0);
+      expect(position.progress).toBe(1);
+      expectVectorClose(position.vector, { x: 0, y: 0, z: -1 });
+    });
+
+    it('clamps past the end', () => {
+      const position = circuitPositionAt(steps, zero, 5000);
+      expect(position.index).toBe(1);
+      expectVectorClose(position.vector, { x: -1, y: 0, z: 0 });
+    });
+  });
+
+  describe('sampleCircuitPath', () => {
+    const steps = buildCircuitTimeline([H, S], zero, 1000);
+
+    it('samples completed gates and ends at the current state', () => {
+      const path = sampleCircuitPath(steps, zero, 1500, 8);
+      expect(path[0]).toBe(zero);
+      expect(path).toHaveLength(1 + 8 + 4);
+      expectVectorClose(
+        path[path.length - 1],
+        circuitPositionAt(steps, zero, 1500).vector
+      );
+    });
+
+    it('stays on the sphere surface', () => {
+      sampleCircuitPath(steps, zero, 2000).forEach(({ x, y, z }) =>
+        expect(Math.hypot(x, y, z)).toBeCloseTo(1)
+      );
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import type {
+  CartesianCoordinates,
+  CircuitPosition,
+  CircuitStep,
+  Gate,
+} from '../types';
+import { gateToAxisAngle, rotateBlochVector } from './gates';
+
+/**
+ * Lay out gates on a timeline, applying them in order to `initial`.
+ *
+ * @param gates - Gates in application order
+ * @param initial - Bloch vector before the first gate
+ * @param durations - Duration of every gate, or one duration per gate (ms)
+ */
+export function buildCircuitTimeline(
+  gates: Gate[],
+  initial: CartesianCoordinates,
+  durations: number | number[]
+): CircuitStep[] {
+  const steps: CircuitStep[] = [];
+  let start = 0;
+  let vector = initial;
+
+  gates.forEach((gate, index) => {
+    const duration = Math.max(
+      0,
+      typeof durations === 'number'
+        ? durations
+        : (durations[index] ?? durations[durations.length - 1] ?? 0)
+    );
+    const rotation = gateToAxisAngle(gate);
+    const after = rotateBlochVector(vector, rotation);
+    steps.push({ gate, start, duration, rotation, before: vector, after });
+    start += duration;
+    vector = after;
+  });
+
+  return steps;
+}
+
+/**
+ * Total length of a circuit timeline
+ */
+export function circuitDuration(steps: CircuitStep[]): number {
+  const last = steps[steps.length - 1];
+  return last ? last.start + last.duration : 0;
+}
+
+/**
+ * Times at which gates start, followed by the end of the circuit
+ */
+export function circuitBoundaries(steps: CircuitStep[]): number[] {
+  return [...steps.map((step) => step.start), circuitDuration(steps)];
+}
+
+/**
+ * State at a given time. A gate is active on (start, start + duration],
+ * so at a boundary the gate that just finished is reported.
+ */
+export function circuitPositionAt(
+  steps: CircuitStep[],
+  initial: CartesianCoordinates,
+  time: number
+): CircuitPosition {
+  let position: CircuitPosition = { vector: initial, index: -1, progress: 0 };
+
+  for (let index = 0; index < steps.length; index++) {
+    const step = steps[index];
+    if (time <= step.start) break;
+
+    const progress =
+      step.duration > 0 ? Math.min(1, (time - step.start) / step.duration) : 1;
+    position = {
+      vector:
+        progress === 1
+          ? step.after
+          : rotateBlochVector(step.before, {
+              axis: step.rotation.axis,
+              angle: step.rotation.angle * progress,
+            }),
+      index,
+      progress,
+    };
+    if (progress < 1) break;
+  }
+
+  return position;
+}
+
+/**
+ * Path traced from the initial state up to `time`, sampled along
+ * each gate's rotation
+ *
+ * @param samplesPerGate - Points per completed gate (default: 16)
+ */
+export function sampleCircuitPath(
+  steps: CircuitStep[],
+  initial: CartesianCoordinates,
+  time: number,
+  samplesPerGate = 16
+): CartesianCoordinates[] {
+  const path = [initial];
+
+  for (const step of steps) {
+    if (time <= step.start) break;
+
+    const progress =
+      step.duration > 0 ? Math.min(1, (time - step.start) / step.duration) : 1;
+    const samples = Math.max(1, Math.ceil(samplesPerGate * progress));
+    for (let i = 1; i <= samples; i++) {
+      path.push(
+        rotateBlochVector(step.before, {
+          axis: step.rotation.axis,
+          angle: (step.rotation.angle * progress * i) / samples,
+        })
+      );
+    }
+    if (progress < 1) break;
+  }
+
+  return path;
+}
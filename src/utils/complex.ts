@@ -0,0 +1,139 @@
+import type { Complex, ComplexAmplitude, ComplexMatrix2x2 } from '../types';
+
+/**
+ * Create a complex number
+ */
+export function complex(real: number, imag = 0): Complex {
+  return { real, imag };
+}
+
+/**
+ * Create a complex number from magnitude and phase: mag * e^(i*phase)
+ */
+export function complexFromPolar(magnitude: number, phase: number): Complex {
+  return {
+    real: magnitude * Math.cos(phase),
+    imag: magnitude * Math.sin(phase),
+  };
+}
+
+export function complexAdd(a: Complex, b: Complex): Complex {
+  return { real: a.real + b.real, imag: a.imag + b.imag };
+}
+
+export function complexSub(a: Complex, b: Complex): Complex {
+  return { real: a.real - b.real, imag: a.imag - b.imag };
+}
+
+export function complexMul(a: Complex, b: Complex): Complex {
+  return {
+    real: a.real * b.real - a.imag * b.imag,
+    imag: a.real * b.imag + a.imag * b.real,
+  };
+}
+
+export function complexScale(a: Complex, factor: number): Complex {
+  return { real: a.real * factor, imag: a.imag * factor };
+}
+
+export function complexConj(a: Complex): Complex {
+  return { real: a.real, imag: -a.imag };
+}
+
+export function complexAbs(a: Complex): number {
+  return Math.sqrt(a.real ** 2 + a.imag ** 2);
+}
+
+export function complexArg(a: Complex): number {
+  return Math.atan2(a.imag, a.real);
+}
+
+/**
+ * 2x2 identity matrix
+ */
+export function identityMatrix(): ComplexMatrix2x2 {
+  return [
+    [complex(1), complex(0)],
+    [complex(0), complex(1)],
+  ];
+}
+
+/**
+ * Matrix product a * b
+ */
+export function matrixMultiply(
+  a: ComplexMatrix2x2,
+  b: ComplexMatrix2x2
+): ComplexMatrix2x2 {
+  const entry = (row: 0 | 1, col: 0 | 1) =>
+    complexAdd(
+      complexMul(a[row][0], b[0][col]),
+      complexMul(a[row][1], b[1][col])
+    );
+  return [
+    [entry(0, 0), entry(0, 1)],
+    [entry(1, 0), entry(1, 1)],
+  ];
+}
+
+/**
+ * Entry-wise sum a + b
+ */
+export function matrixAdd(
+  a: ComplexMatrix2x2,
+  b: ComplexMatrix2x2
+): ComplexMatrix2x2 {
+  return [
+    [complexAdd(a[0][0], b[0][0]), complexAdd(a[0][1], b[0][1])],
+    [complexAdd(a[1][0], b[1][0]), complexAdd(a[1][1], b[1][1])],
+  ];
+}
+
+/**
+ * Conjugate transpose (dagger) of a matrix
+ */
+export function matrixAdjoint(m: ComplexMatrix2x2): ComplexMatrix2x2 {
+  return [
+    [complexConj(m[0][0]), complexConj(m[1][0])],
+    [complexConj(m[0][1]), complexConj(m[1][1])],
+  ];
+}
+
+/**
+ * Scale every entry of a matrix by a complex factor
+ */
+export function matrixScale(
+  m: ComplexMatrix2x2,
+  factor: Complex
+): ComplexMatrix2x2 {
+  return [
+    [complexMul(m[0][0], factor), complexMul(m[0][1], factor)],
+    [complexMul(m[1][0], factor), complexMul(m[1][1], factor)],
+  ];
+}
+
+/**
+ * Determinant of a 2x2 matrix
+ */
+export function matrixDeterminant(m: ComplexMatrix2x2): Complex {
+  return complexSub(complexMul(m[0][0], m[1][1]), complexMul(m[0][1], m[1][0]));
+}
+
+/**
+ * Apply a matrix to a state vector: |psi'> = M|psi>
+ */
+export function matrixApply(
+  m: ComplexMatrix2x2,
+  amp: ComplexAmplitude
+): ComplexAmplitude {
+  return {
+    alpha: complexAdd(
+      complexMul(m[0][0], amp.alpha),
+      complexMul(m[0][1], amp.beta)
+    ),
+    beta: complexAdd(
+      complexMul(m[1][0], amp.alpha),
+      complexMul(m[1][1], amp.beta)
+    ),
+  };
+}
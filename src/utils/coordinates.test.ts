@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import {
+  blochMatrixToScene,
+  blochToScene,
+  conventionMatrix,
+  displayToScene,
+  resolveConvention,
+  sceneToBloch,
+  sceneUp,
+} from './coordinates';
+
+const determinant = (m: number[][]) =>
+  m[0][0] * (m[1][1] * m[2][2] - m[1][2] * m[2][1]) -
+  m[0][1] * (m[1][0] * m[2][2] - m[1][2] * m[2][0]) +
+  m[0][2] * (m[1][0] * m[2][1] - m[1][1] * m[2][0]);
+
+const expectClose = (actual: number[], expected: number[]) =>
+  actual.forEach((value, i) => expect(value).toBeCloseTo(expected[i]));
+
+describe('coordinates', () => {
+  describe('resolveConvention', () => {
+    it('defaults to a right-handed Y-up layout with |0> at the top', () => {
+      expect(resolveConvention()).toEqual({
+        up: 'y',
+        handedness: 'right',
+        zeroAtBottom: false,
+      });
+      expect(resolveConvention({ up: 'z' }).handedness).toBe('right');
+    });
+  });
+
+  describe('blochToScene', () => {
+    it('maps Bloch (x, y, z) to scene (x, z, -y) by default', () => {
+      expectClose(blochToScene({ x: 1, y: 2, z: 3 }), [1, 3, -2]);
+    });
+
+    it('reproduces the mirrored (x, z, y) layout when left-handed', () => {
+      expectClose(
+        blochToScene({ x: 1, y: 2, z: 3 }, { handedness: 'left' }),
+        [1, 3, 2]
+      );
+    });
+
+    it('is the identity for right-handed Z-up', () => {
+      expectClose(blochToScene({ x: 1, y: 2, z: 3 }, { up: 'z' }), [1, 2, 3]);
+    });
+
+    it('draws |0> at the bottom with zeroAtBottom', () => {
+      const [, up] = blochToScene({ x: 0, y: 0, z: 1 }, { zeroAtBottom: true });
+      expect(up).toBeCloseTo(-1);
+    });
+  });
+
+  describe('conventionMatrix', () => {
+    it('is a rotation for right-handed and a reflection for left-handed', () => {
+      expect(determinant(conventionMatrix())).toBeCloseTo(1);
+      expect(determinant(conventionMatrix({ zeroAtBottom: true }))).toBeCloseTo(
+        1
+      );
+      expect(determinant(conventionMatrix({ up: 'z' }))).toBeCloseTo(1);
+      expect(determinant(conventionMatrix({ handedness: 'left' }))).toBeCloseTo(
+        -1
+      );
+    });
+  });
+
+  describe('sceneToBloch', () => {
+    it('inverts blochToScene for every convention', () => {
+      const v = { x: 0.3, y: -0.5, z: 0.8 };
+      (['y', 'z'] as const).forEach((up) =>
+        (['right', 'left'] as const).forEach((handedness) =>
+          [false, true].forEach((zeroAtBottom) => {
+            const convention = { up, handedness, zeroAtBottom };
+            const back = sceneToBloch(blochToScene(v, convention), convention);
+            expectClose([back.x, back.y, back.z], [v.x, v.y, v.z]);
+          })
+        )
+      );
+    });
+  });
+
+  describe('displayToScene and sceneUp', () => {
+    it('sends the display up direction to the scene up vector', () => {
+      expectClose(displayToScene([0, 0, 1]), sceneUp());
+      expectClose(displayToScene([0, 0, 1], { up: 'z' }), sceneUp({ up: 'z' }));
+      expect(sceneUp()).toEqual([0, 1, 0]);
+    });
+  });
+
+  describe('blochMatrixToScene', () => {
+    it('commutes with mapping vectors', () => {
+      const matrix = [
+        [1, 0.2, 0],
+        [0, 0.5, 0.1],
+        [0.3, 0, 0.7],
+      ];
+      const v = { x: 0.4, y: -0.2, z: 0.6 };
+      const image = {
+        x: matrix[0][0] * v.x + matrix[0][1] * v.y + matrix[0][2] * v.z,
+        y: matrix[1][0] * v.x + matrix[1][1] * v.y + matrix[1][2] * v.z,
+        z: matrix[2][0] * v.x + matrix[2][1] * v.y + matrix[2][2] * v.z,
+      };
+      const scene = blochMatrixToScene(matrix, { handedness: 'left' });
+      const p = blochToScene(v, { handedness: 'left' });
+      const mapped = scene.map(
+        (row) => row[0] * p[0] + row[1] * p[1] + row[2] * p[2]
+      );
+      expectClose(mapped, blochToScene(image, { handedness: 'left' }));
+    });
+  });
+});
@@ -0,0 +1,129 @@
+import type { CartesianCoordinates, CoordinateConvention } from '../types';
+
+type Vec3 = [number, number, number];
+type Matrix3 = [Vec3, Vec3, Vec3];
+
+/**
+ * Default layout: Y-up (three.js), right-handed, |0⟩ at the top
+ */
+export const defaultConvention: Required<CoordinateConvention> = {
+  up: 'y',
+  handedness: 'right',
+  zeroAtBottom: false,
+};
+
+export function resolveConvention(
+  convention: CoordinateConvention = {}
+): Required<CoordinateConvention> {
+  return { ...defaultConvention, ...convention };
+}
+
+function multiply(a: Matrix3, b: Matrix3): Matrix3 {
+  return a.map((row) =>
+    [0, 1, 2].map((j) => row[0] * b[0][j] + row[1] * b[1][j] + row[2] * b[2][j])
+  ) as Matrix3;
+}
+
+/**
+ * Orthogonal matrix taking the display frame (x, y, z with z drawn
+ * upwards) to scene coordinates. Y-up is a proper rotation, so both
+ * layouts keep the handedness of the display frame.
+ */
+function displayToSceneMatrix({ up }: Required<CoordinateConvention>): Matrix3 {
+  return up === 'z'
+    ? [
+        [1, 0, 0],
+        [0, 1, 0],
+        [0, 0, 1],
+      ]
+    : [
+        [1, 0, 0],
+        [0, 0, 1],
+        [0, -1, 0],
+      ];
+}
+
+/**
+ * Orthogonal matrix taking Bloch coordinates to the display frame:
+ * |0⟩ at the bottom is a half turn about X, left-handed mirrors Y
+ */
+function blochToDisplayMatrix({
+  handedness,
+  zeroAtBottom,
+}: Required<CoordinateConvention>): Matrix3 {
+  const flip = zeroAtBottom ? -1 : 1;
+  const mirror = handedness === 'left' ? -1 : 1;
+  return [
+    [1, 0, 0],
+    [0, flip * mirror, 0],
+    [0, 0, flip],
+  ];
+}
+
+/**
+ * Matrix M with scene = M * bloch for a convention. M is orthogonal
+ * (det -1 for left-handed layouts), so its inverse is its transpose.
+ */
+export function conventionMatrix(convention?: CoordinateConvention): Matrix3 {
+  const resolved = resolveConvention(convention);
+  return multiply(
+    displayToSceneMatrix(resolved),
+    blochToDisplayMatrix(resolved)
+  );
+}
+
+/**
+ * Map a Bloch vector to scene coordinates
+ */
+export function blochToScene(
+  { x, y, z }: CartesianCoordinates,
+  convention?: CoordinateConvention
+): Vec3 {
+  const m = conventionMatrix(convention);
+  return m.map((row) => row[0] * x + row[1] * y + row[2] * z) as Vec3;
+}
+
+/**
+ * Map scene coordinates back to a Bloch vector
+ */
+export function sceneToBloch(
+  [x, y, z]: Vec3,
+  convention?: CoordinateConvention
+): CartesianCoordinates {
+  const m = conventionMatrix(convention);
+  return {
+    x: m[0][0] * x + m[1][0] * y + m[2][0] * z,
+    y: m[0][1] * x + m[1][1] * y + m[2][1] * z,
+    z: m[0][2] * x + m[1][2] * y + m[2][2] * z,
+  };
+}
+
+/**
+ * Map a direction in the display frame (z drawn upwards) to the scene
+ */
+export function displayToScene(
+  [x, y, z]: Vec3,
+  convention?: CoordinateConvention
+): Vec3 {
+  const m = displayToSceneMatrix(resolveConvention(convention));
+  return m.map((row) => row[0] * x + row[1] * y + row[2] * z) as Vec3;
+}
+
+/**
+ * Scene up vector, used as the camera's up direction
+ */
+export function sceneUp(convention?: CoordinateConvention): Vec3 {
+  return resolveConvention(convention).up === 'z' ? [0, 0, 1] : [0, 1, 0];
+}
+
+/**
+ * Apply a 3x3 Bloch-space matrix in scene coordinates: M * A * M^T
+ */
+export function blochMatrixToScene(
+  matrix: number[][],
+  convention?: CoordinateConvention
+): Matrix3 {
+  const m = conventionMatrix(convention);
+  const transpose = [0, 1, 2].map((i) => m.map((row) => row[i])) as Matrix3;
+  return multiply(multiply(m, matrix as Matrix3), transpose);
+}
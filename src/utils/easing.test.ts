@@ -0,0 +1,180 @@
+import { describe, it, expect } from 'vitest';
+import {
+  cubicBezier,
+  steps,
+  isSpring,
+  resolveEasing,
+  springFromState,
+  springToSpherical,
+  springSettled,
+  stepSpring,
+  stepSpringProgress,
+} from './easing';
+import { easingFunctions, sphericalToCartesian } from './quantum-math';
+import { angularDistance } from './metrics';
+import type { SpringState } from '../types';
+
+function runSpring(
+  spring: SpringState,
+  target: { theta: number; phi: number; r?: number },
+  seconds: number
+) {
+  let state = spring;
+  for (let t = 0; t < seconds; t += 1 / 60) {
+    state = stepSpring(state, target, 1 / 60);
+  }
+  return state;
+}
+
+describe('easing', () => {
+  describe('cubicBezier', () => {
+    it('matches the linear and ease-in-out polynomials at the ends', () => {
+      const linear = cubicBezier(0, 0, 1, 1);
+      [0, 0.25, 0.5, 0.9, 1].forEach((t) => expect(linear(t)).toBeCloseTo(t));
+    });
+
+    it('is symmetric for symmetric control points', () => {
+      const ease = cubicBezier(0.42, 0, 0.58, 1);
+      expect(ease(0.5)).toBeCloseTo(0.5);
+      expect(ease(0.2) + ease(0.8)).toBeCloseTo(1);
+      expect(ease(0.2)).toBeLessThan(0.2);
+    });
+
+    it('matches the CSS "ease" curve', () => {
+      // cubic-bezier(0.25, 0.1, 0.25, 1) at x = 0.5
+      expect(cubicBezier(0.25, 0.1, 0.25, 1)(0.5)).toBeCloseTo(0.8024, 3);
+    });
+
+    it('allows overshooting y values', () => {
+      const back = cubicBezier(0.34, 1.56, 0.64, 1);
+      const samples = Array.from({ length: 99 }, (_, i) => back((i + 1) / 100));
+      expect(Math.max(...samples)).toBeGreaterThan(1);
+      expect(back(1)).toBe(1);
+    });
+
+    it('rejects x values outside [0, 1]', () => {
+      expect(() => cubicBezier(-0.1, 0, 1, 1)).toThrow();
+    });
+  });
+
+  describe('steps', () => {
+    it('jumps at the end of each interval by default', () => {
+      const fn = steps(4);
+      expect(fn(0)).toBe(0);
+      expect(fn(0.24)).toBe(0);
+      expect(fn(0.25)).toBe(0.25);
+      expect(fn(0.99)).toBe(0.75);
+      expect(fn(1)).toBe(1);
+    });
+
+    it('jumps at the start of each interval', () => {
+      const fn = steps(2, 'start');
+      expect(fn(0)).toBe(0.5);
+      expect(fn(0.49)).toBe(0.5);
+      expect(fn(0.5)).toBe(1);
+    });
+  });
+
+  describe('resolveEasing', () => {
+    it('resolves named curves, CSS strings and functions', () => {
+      expect(resolveEasing('easeIn')).toBe(easingFunctions.easeIn);
+      expect(resolveEasing('cubic-bezier(0, 0, 1, 1)')?.(0.3)).toBeCloseTo(0.3);
+      expect(resolveEasing('steps(2, start)')?.(0.1)).toBe(0.5);
+      expect(resolveEasing('steps(3)')?.(0.5)).toBeCloseTo(1 / 3);
+      const custom = (t: number) => t ** 3;
+      expect(resolveEasing(custom)).toBe(custom);
+    });
+
+    it('returns null for springs', () => {
+      expect(resolveEasing({ type: 'spring' })).toBeNull();
+      expect(isSpring({ type: 'spring', stiffness: 100 })).toBe(true);
+      expect(isSpring('linear')).toBe(false);
+    });
+
+    it('throws for malformed strings', () => {
+      expect(() => resolveEasing('cubic-bezier(0, 1)')).toThrow(
+        /Invalid easing/
+      );
+      expect(() => resolveEasing('steps(0)')).toThrow(/Invalid easing/);
+      expect(() => resolveEasing('steps(2, middle)')).toThrow(/Invalid easing/);
+    });
+  });
+
+  describe('stepSpring', () => {
+    it('settles on the target', () => {
+      const target = { theta: 2, phi: 1 };
+      const state = runSpring(
+        springFromState({ theta: 0.3, phi: -1 }),
+        target,
+        3
+      );
+      expect(springSettled(state, target)).toBe(true);
+      expect(angularDistance(springToSpherical(state), target)).toBeLessThan(
+        1e-4
+      );
+    });
+
+    it('keeps pure states on the sphere', () => {
+      let state = springFromState({ theta: 0, phi: 0 });
+      for (let i = 0; i < 30; i++) {
+        state = stepSpring(state, { theta: Math.PI / 2, phi: 0 }, 1 / 60);
+        const { x, y, z } = state.direction;
+        expect(Math.hypot(x, y, z)).toBeCloseTo(1);
+        expect(state.radius).toBe(1);
+      }
+    });
+
+    it('overshoots when underdamped', () => {
+      const target = { theta: Math.PI / 2, phi: 0 };
+      let state = springFromState({ theta: 0, phi: 0 });
+      let maxTheta = 0;
+      for (let i = 0; i < 120; i++) {
+        state = stepSpring(state, target, 1 / 60, { damping: 5 });
+        maxTheta = Math.max(maxTheta, springToSpherical(state).theta);
+      }
+      expect(maxTheta).toBeGreaterThan(Math.PI / 2 + 0.1);
+    });
+
+    it('keeps its velocity when the target changes', () => {
+      let state = springFromState({ theta: 0, phi: 0 });
+      for (let i = 0; i < 6; i++) {
+        state = stepSpring(state, { theta: Math.PI / 2, phi: 0 }, 1 / 60);
+      }
+      const before = sphericalToCartesian(springToSpherical(state));
+      // New target behind the motion: the vector keeps moving towards +X first
+      const next = stepSpring(state, { theta: 0.1, phi: Math.PI }, 1 / 60);
+      const after = sphericalToCartesian(springToSpherical(next));
+      expect(after.x).toBeGreaterThan(before.x);
+    });
+
+    it('moves away from an antipodal target', () => {
+      const state = stepSpring(
+        springFromState({ theta: 0, phi: 0 }),
+        { theta: Math.PI, phi: 0 },
+        0.1
+      );
+      expect(springToSpherical(state).theta).toBeGreaterThan(0.01);
+    });
+
+    it('springs the Bloch vector length within [0, 1]', () => {
+      const state = runSpring(
+        springFromState({ theta: 1, phi: 0, r: 1 }),
+        { theta: 1, phi: 0, r: 0.3 },
+        3
+      );
+      expect(state.radius).toBeCloseTo(0.3);
+      expect(springToSpherical(state).r).toBeCloseTo(0.3);
+    });
+  });
+
+  describe('stepSpringProgress', () => {
+    it('approaches 1 from rest', () => {
+      let progress: [number, number] = [0, 0];
+      for (let i = 0; i < 180; i++) {
+        progress = stepSpringProgress(progress, 1 / 60);
+      }
+      expect(progress[0]).toBeCloseTo(1, 4);
+      expect(progress[1]).toBeCloseTo(0, 3);
+    });
+  });
+});
@@ -0,0 +1,296 @@
+import type {
+  CartesianCoordinates,
+  Easing,
+  SpringConfig,
+  SpringState,
+  SphericalCoordinates,
+} from '../types';
+import {
+  cartesianToSpherical,
+  easingFunctions,
+  sphericalToCartesian,
+} from './quantum-math';
+
+export const defaultSpring: Required<SpringConfig> = {
+  stiffness: 170,
+  damping: 26,
+  mass: 1,
+  precision: 1e-4,
+};
+
+/**
+ * CSS cubic Bézier timing function through (0, 0), (x1, y1), (x2, y2),
+ * (1, 1). x1 and x2 must lie in [0, 1].
+ */
+export function cubicBezier(
+  x1: number,
+  y1: number,
+  x2: number,
+  y2: number
+): (t: number) => number {
+  if (x1 < 0 || x1 > 1 || x2 < 0 || x2 > 1) {
+    throw new Error('cubic-bezier x values must be in [0, 1]');
+  }
+  // Polynomial coefficients of the Bézier curve in s
+  const curve = (p1: number, p2: number) => {
+    const c = 3 * p1;
+    const b = 3 * (p2 - p1) - c;
+    const a = 1 - c - b;
+    return {
+      at: (s: number) => ((a * s + b) * s + c) * s,
+      slope: (s: number) => (3 * a * s + 2 * b) * s + c,
+    };
+  };
+  const x = curve(x1, x2);
+  const y = curve(y1, y2);
+
+  return (t: number) => {
+    if (t <= 0) return 0;
+    if (t >= 1) return 1;
+    // Newton's method, falling back to bisection on flat segments
+    let s = t;
+    for (let i = 0; i < 8; i++) {
+      const error = x.at(s) - t;
+      if (Math.abs(error) < 1e-7) return y.at(s);
+      const slope = x.slope(s);
+      if (Math.abs(slope) < 1e-6) break;
+      s -= error / slope;
+    }
+    let lo = 0;
+    let hi = 1;
+    s = t;
+    for (let i = 0; i < 50; i++) {
+      if (x.at(s) < t) lo = s;
+      else hi = s;
+      s = (lo + hi) / 2;
+    }
+    return y.at(s);
+  };
+}
+
+/**
+ * Step timing function with `count` equal jumps, at the start or the end
+ * of each interval (CSS `steps()`)
+ */
+export function steps(
+  count: number,
+  position: 'start' | 'end' = 'end'
+): (t: number) => number {
+  const n = Math.max(1, Math.floor(count));
+  return (t: number) => {
+    if (t < 0) return 0;
+    if (t >= 1) return 1;
+    const step = Math.floor(t * n) + (position === 'start' ? 1 : 0);
+    return Math.min(1, step / n);
+  };
+}
+
+/**
+ * Whether an easing is a spring
+ */
+export function isSpring(
+  easing: Easing
+): easing is { type: 'spring' } & SpringConfig {
+  return typeof easing === 'object' && easing.type === 'spring';
+}
+
+/**
+ * Timing function for a duration-based easing
+ *
+ * @param easing - Named curve, CSS-style string or function
+ * @returns Progress mapping, or null for springs
+ * @throws Error for unknown or malformed easing strings
+ */
+export function resolveEasing(easing: Easing): ((t: number) => number) | null {
+  if (typeof easing === 'function') return easing;
+  if (typeof easing === 'object') return null;
+  if (easing in easingFunctions) {
+    return easingFunctions[easing as keyof typeof easingFunctions];
+  }
+
+  const match = /^\s*(cubic-bezier|steps)\((.*)\)\s*$/.exec(easing);
+  const args = match ? match[2].split(',').map((arg) => arg.trim()) : [];
+  if (match?.[1] === 'cubic-bezier' && args.length === 4) {
+    const values = args.map(Number);
+    if (values.every(Number.isFinite)) {
+      const [x1, y1, x2, y2] = values;
+      return cubicBezier(x1, y1, x2, y2);
+    }
+  }
+  if (
+    match?.[1] === 'steps' &&
+    (args.length === 1 || args.length === 2) &&
+    Number.isInteger(Number(args[0])) &&
+    Number(args[0]) > 0 &&
+    (args[1] === undefined || args[1] === 'start' || args[1] === 'end')
+  ) {
+    return steps(Number(args[0]), args[1] as 'start' | 'end' | undefined);
+  }
+  throw new Error(`Invalid easing '${easing}'`);
+}
+
+type Vec = CartesianCoordinates;
+const dot = (a: Vec, b: Vec) => a.x * b.x + a.y * b.y + a.z * b.z;
+const cross = (a: Vec, b: Vec): Vec => ({
+  x: a.y * b.z - a.z * b.y,
+  y: a.z * b.x - a.x * b.z,
+  z: a.x * b.y - a.y * b.x,
+});
+const scale = (a: Vec, k: number): Vec => ({
+  x: a.x * k,
+  y: a.y * k,
+  z: a.z * k,
+});
+const add = (a: Vec, b: Vec): Vec => ({
+  x: a.x + b.x,
+  y: a.y + b.y,
+  z: a.z + b.z,
+});
+const length = (a: Vec) => Math.sqrt(dot(a, a));
+
+/**
+ * Spring at rest at a state
+ */
+export function springFromState(coords: SphericalCoordinates): SpringState {
+  return {
+    direction: sphericalToCartesian({ theta: coords.theta, phi: coords.phi }),
+    angularVelocity: { x: 0, y: 0, z: 0 },
+    radius: coords.r ?? 1,
+    radialVelocity: 0,
+  };
+}
+
+/**
+ * Current state of a spring animation
+ */
+export function springToSpherical(spring: SpringState): SphericalCoordinates {
+  const { theta, phi } = cartesianToSpherical(spring.direction);
+  return spring.radius === 1
+    ? { theta, phi }
+    : { theta, phi, r: spring.radius };
+}
+
+/**
+ * Advance a spring towards a target. The direction is pulled along the
+ * great circle by a torque proportional to the remaining angle, so pure
+ * states stay on the sphere; the length follows its own 1D spring.
+ * Velocities carry over, so retargeting mid-flight stays smooth.
+ *
+ * @param spring - Current spring state
+ * @param target - Target state
+ * @param dt - Time step in seconds
+ * @param config - Stiffness, damping and mass
+ * @returns New spring state
+ */
+export function stepSpring(
+  spring: SpringState,
+  target: SphericalCoordinates,
+  dt: number,
+  config: SpringConfig = {}
+): SpringState {
+  const { stiffness, damping, mass } = { ...defaultSpring, ...config };
+  const targetDirection = sphericalToCartesian({
+    theta: target.theta,
+    phi: target.phi,
+  });
+  const targetRadius = target.r ?? 1;
+
+  let { direction, angularVelocity, radius, radialVelocity } = spring;
+  // Small fixed substeps keep the semi-implicit Euler integration stable
+  const substeps = Math.max(1, Math.ceil(dt * 240));
+  const h = dt / substeps;
+
+  for (let i = 0; i < substeps; i++) {
+    const angle = Math.acos(
+      Math.max(-1, Math.min(1, dot(direction, targetDirection)))
+    );
+    let axis = cross(direction, targetDirection);
+    const axisLength = length(axis);
+    if (axisLength > 1e-9) {
+      axis = scale(axis, 1 / axisLength);
+    } else if (angle > Math.PI / 2) {
+      // Antipodal target: any perpendicular axis
+      const helper =
+        Math.abs(direction.x) < 0.9
+          ? { x: 1, y: 0, z: 0 }
+          : { x: 0, y: 1, z: 0 };
+      const perpendicular = cross(direction, helper);
+      axis = scale(perpendicular, 1 / length(perpendicular));
+    }
+    const torque = scale(axis, stiffness * angle);
+    angularVelocity = add(
+      angularVelocity,
+      scale(add(torque, scale(angularVelocity, -damping)), h / mass)
+    );
+
+    // Rotate the direction by the angular velocity (Rodrigues' formula)
+    const speed = length(angularVelocity);
+    if (speed > 0) {
+      const k = scale(angularVelocity, 1 / speed);
+      const turn = speed * h;
+      direction = add(
+        add(
+          scale(direction, Math.cos(turn)),
+          scale(cross(k, direction), Math.sin(turn))
+        ),
+        scale(k, dot(k, direction) * (1 - Math.cos(turn)))
+      );
+      direction = scale(direction, 1 / length(direction));
+    }
+
+    radialVelocity +=
+      ((stiffness * (targetRadius - radius) - damping * radialVelocity) * h) /
+      mass;
+    radius += radialVelocity * h;
+    if (radius > 1 || radius < 0) {
+      radius = Math.min(1, Math.max(0, radius));
+      radialVelocity = 0;
+    }
+  }
+
+  return { direction, angularVelocity, radius, radialVelocity };
+}
+
+/**
+ * Whether a spring has come to rest on the target
+ */
+export function springSettled(
+  spring: SpringState,
+  target: SphericalCoordinates,
+  precision = defaultSpring.precision
+): boolean {
+  const targetDirection = sphericalToCartesian({
+    theta: target.theta,
+    phi: target.phi,
+  });
+  const angle = Math.acos(
+    Math.max(-1, Math.min(1, dot(spring.direction, targetDirection)))
+  );
+  return (
+    angle < precision &&
+    length(spring.angularVelocity) < precision &&
+    Math.abs(spring.radius - (target.r ?? 1)) < precision &&
+    Math.abs(spring.radialVelocity) < precision
+  );
+}
+
+/**
+ * Advance a 1D spring from 0 towards 1, used as eased progress for
+ * springs in 'rotation' and 'collapse' mode (may overshoot 1)
+ *
+ * @returns [progress, velocity] after `dt` seconds
+ */
+export function stepSpringProgress(
+  [value, velocity]: [number, number],
+  dt: number,
+  config: SpringConfig = {}
+): [number, number] {
+  const { stiffness, damping, mass } = { ...defaultSpring, ...config };
+  const substeps = Math.max(1, Math.ceil(dt * 240));
+  const h = dt / substeps;
+  for (let i = 0; i < substeps; i++) {
+    velocity += ((stiffness * (1 - value) - damping * velocity) * h) / mass;
+    value += velocity * h;
+  }
+  return [value, velocity];
+}
@@ -0,0 +1,233 @@
+import { describe, it, expect } from 'vitest';
+import {
+  commonGates,
+  rx,
+  ry,
+  rz,
+  phase,
+  u3,
+  rotation,
+  isUnitary,
+  unitary,
+  composeGates,
+  inverseGate,
+  gateToAxisAngle,
+  applyGate,
+  applyGateToSpherical,
+  rotationBetween,
+  interpolateRotation,
+} from './gates';
+import {
+  commonStates,
+  sphericalToAmplitudes,
+  amplitudesToSpherical,
+  sphericalToCartesian,
+} from './quantum-math';
+import type { ComplexMatrix2x2 } from '../types';
+
+describe('gates', () => {
+  describe('commonGates', () => {
+    it('are all unitary', () => {
+      for (const gate of Object.values(commonGates)) {
+        expect(isUnitary(gate.matrix)).toBe(true);
+      }
+    });
+
+    it('X flips |0> to |1>', () => {
+      const result = applyGateToSpherical(commonGates.X, commonStates.zero);
+      expect(result.theta).toBeCloseTo(Math.PI);
+    });
+
+    it('H maps |0> to |+>', () => {
+      const result = amplitudesToSpherical(
+        applyGate(commonGates.H, sphericalToAmplitudes(commonStates.zero))
+      );
+      expect(result.theta).toBeCloseTo(Math.PI / 2);
+      expect(result.phi).toBeCloseTo(0);
+    });
+
+    it('S maps |+> to |+i>', () => {
+      const result = applyGateToSpherical(commonGates.S, commonStates.plus);
+      expect(result.theta).toBeCloseTo(Math.PI / 2);
+      expect(result.phi).toBeCloseTo(Math.PI / 2);
+    });
+
+    it('T twice equals S', () => {
+      const tt = composeGates([commonGates.T, commonGates.T]);
+      const result = applyGateToSpherical(tt, commonStates.plus);
+      const expected = applyGateToSpherical(commonGates.S, commonStates.plus);
+      expect(result.phi).toBeCloseTo(expected.phi);
+    });
+  });
+
+  describe('rotation gates', () => {
+    it('Rx(PI/2) maps |0> to |-i>', () => {
+      const result = applyGateToSpherical(rx(Math.PI / 2), commonStates.zero);
+      expect(result.theta).toBeCloseTo(Math.PI / 2);
+      expect(result.phi).toBeCloseTo((3 * Math.PI) / 2);
+    });
+
+    it('Ry(PI/2) maps |0> to |+>', () => {
+      const result = applyGateToSpherical(ry(Math.PI / 2), commonStates.zero);
+      expect(result.theta).toBeCloseTo(Math.PI / 2);
+      expect(result.phi).toBeCloseTo(0);
+    });
+
+    it('Rz and phase differ only by global phase', () => {
+      const a = gateToAxisAngle(rz(0.7));
+      const b = gateToAxisAngle(phase(0.7));
+      expect(a.angle).toBeCloseTo(b.angle);
+      expect(a.axis.z).toBeCloseTo(b.axis.z);
+    });
+
+    it('U3(PI, 0, PI) equals X', () => {
+      const result = applyGateToSpherical(
+        u3(Math.PI, 0, Math.PI),
+        commonStates.zero
+      );
+      expect(result.theta).toBeCloseTo(Math.PI);
+    });
+
+    it('rotation about an arbitrary axis is unitary', () => {
+      const gate = rotation({ axis: { x: 1, y: 2, z: 3 }, angle: 1.2 });
+      expect(isUnitary(gate.matrix)).toBe(true);
+    });
+  });
+
+  describe('unitary', () => {
+    it('rejects non-unitary matrices', () => {
+      const matrix: ComplexMatrix2x2 = [
+        [
+          { real: 1, imag: 0 },
+          { real: 1, imag: 0 },
+        ],
+        [
+          { real: 0, imag: 0 },
+          { real: 1, imag: 0 },
+        ],
+      ];
+      expect(() => unitary(matrix)).toThrow();
+    });
+
+    it('accepts unitary matrices', () => {
+      expect(unitary(commonGates.Y.matrix, 'Y').name).toBe('Y');
+    });
+  });
+
+  describe('composeGates', () => {
+    it('applies gates in array order', () => {
+      // H then S: |0> -> |+> -> |+i>
+      const gate = composeGates([commonGates.H, commonGates.S]);
+      const result = applyGateToSpherical(gate, commonStates.zero);
+      expect(result.theta).toBeCloseTo(Math.PI / 2);
+      expect(result.phi).toBeCloseTo(Math.PI / 2);
+    });
+
+    it('gate followed by its inverse is the identity', () => {
+      const gate = composeGates([
+        u3(0.3, 1.1, -0.4),
+        inverseGate(u3(0.3, 1.1, -0.4)),
+      ]);
+      expect(gateToAxisAngle(gate).angle).toBeCloseTo(0);
+    });
+  });
+
+  describe('gateToAxisAngle', () => {
+    it('reports H as PI about (X+Z)/sqrt(2)', () => {
+      const { axis, angle } = gateToAxisAngle(commonGates.H);
+      expect(angle).toBeCloseTo(Math.PI);
+      expect(Math.abs(axis.x)).toBeCloseTo(1 / Math.sqrt(2));
+      expect(axis.y).toBeCloseTo(0);
+      expect(axis.z / axis.x).toBeCloseTo(1);
+    });
+
+    it('reports S as PI/2 about +Z', () => {
+      const { axis, angle } = gateToAxisAngle(commonGates.S);
+      expect(angle).toBeCloseTo(Math.PI / 2);
+      expect(axis.z).toBeCloseTo(1);
+    });
+
+    it('reports S dagger as PI/2 about -Z', () => {
+      const { axis, angle } = gateToAxisAngle(commonGates.Sdg);
+      expect(angle).toBeCloseTo(Math.PI / 2);
+      expect(axis.z).toBeCloseTo(-1);
+    });
+
+    it('roundtrips with rotation', () => {
+      const axis = { x: 0.6, y: 0, z: 0.8 };
+      const result = gateToAxisAngle(rotation({ axis, angle: 2 }));
+      expect(result.angle).toBeCloseTo(2);
+      expect(result.axis.x).toBeCloseTo(0.6);
+      expect(result.axis.z).toBeCloseTo(0.8);
+    });
+  });
+
+  describe('applyGateToSpherical', () => {
+    it('preserves the Bloch vector length of mixed states', () => {
+      const result = applyGateToSpherical(commonGates.X, {
+        theta: 0,
+        phi: 0,
+        r: 0.4,
+      });
+      expect(result.theta).toBeCloseTo(Math.PI);
+      expect(result.r).toBe(0.4);
+    });
+  });
+
+  describe('rotationBetween', () => {
+    it('finds the geodesic rotation between |0> and |+>', () => {
+      const { axis, angle } = rotationBetween(
+        commonStates.zero,
+        commonStates.plus
+      );
+      expect(angle).toBeCloseTo(Math.PI / 2);
+      expect(axis.y).toBeCloseTo(1);
+    });
+
+    it('picks a perpendicular axis for antipodal states', () => {
+      const { axis, angle } = rotationBetween(
+        commonStates.zero,
+        commonStates.one
+      );
+      expect(angle).toBeCloseTo(Math.PI);
+      expect(axis.z).toBeCloseTo(0);
+      expect(Math.hypot(axis.x, axis.y, axis.z)).toBeCloseTo(1);
+    });
+  });
+
+  describe('interpolateRotation', () => {
+    it('sweeps H applied to |+i> about (X+Z)/sqrt(2)', () => {
+      const start = commonStates.plusI;
+      const end = applyGateToSpherical(commonGates.H, start);
+      const mid = sphericalToCartesian(
+        interpolateRotation(start, end, gateToAxisAngle(commonGates.H), 0.5)
+      );
+      // Halfway around the H axis |+i> passes through (-X+Z)/sqrt(2)
+      const sign = Math.sign(mid.z);
+      expect(mid.x).toBeCloseTo(-sign / Math.sqrt(2));
+      expect(mid.y).toBeCloseTo(0);
+      expect(Math.abs(mid.z)).toBeCloseTo(1 / Math.sqrt(2));
+    });
+
+    it('returns the exact end state at t=1', () => {
+      const end = { theta: 1, phi: 2, r: 0.5 };
+      const result = interpolateRotation(
+        commonStates.zero,
+        end,
+        { axis: { x: 0, y: 0, z: 1 }, angle: 1 },
+        1
+      );
+      expect(result).toBe(end);
+    });
+
+    it('interpolates the Bloch vector length linearly', () => {
+      const result = interpolateRotation(
+        { theta: 0, phi: 0, r: 1 },
+        { theta: 0, phi: 0, r: 0.5 },
+        { axis: { x: 0, y: 0, z: 1 }, angle: 0 },
+        0.5
+      );
+      expect(result.r).toBeCloseTo(0.75);
+    });
+  });
+});
@@ -0,0 +1,400 @@
+import type {
+  AxisAngle,
+  CartesianCoordinates,
+  ComplexAmplitude,
+  ComplexMatrix2x2,
+  Gate,
+  SphericalCoordinates,
+} from '../types';
+import {
+  complex,
+  complexAbs,
+  complexArg,
+  complexFromPolar,
+  complexSub,
+  identityMatrix,
+  matrixAdjoint,
+  matrixApply,
+  matrixDeterminant,
+  matrixMultiply,
+  matrixScale,
+} from './complex';
+import { cartesianToSpherical, sphericalToCartesian } from './quantum-math';
+
+const SQRT2_INV = 1 / Math.sqrt(2);
+
+/**
+ * Common single-qubit gates
+ */
+export const commonGates = {
+  /** Identity */
+  I: { name: 'I', matrix: identityMatrix() } as Gate,
+  /** Pauli X (bit flip) - rotation by PI about X */
+  X: {
+    name: 'X',
+    matrix: [
+      [complex(0), complex(1)],
+      [complex(1), complex(0)],
+    ],
+  } as Gate,
+  /** Pauli Y - rotation by PI about Y */
+  Y: {
+    name: 'Y',
+    matrix: [
+      [complex(0), complex(0, -1)],
+      [complex(0, 1), complex(0)],
+    ],
+  } as Gate,
+  /** Pauli Z (phase flip) - rotation by PI about Z */
+  Z: {
+    name: 'Z',
+    matrix: [
+      [complex(1), complex(0)],
+      [complex(0), complex(-1)],
+    ],
+  } as Gate,
+  /** Hadamard - rotation by PI about (X+Z)/sqrt(2) */
+  H: {
+    name: 'H',
+    matrix: [
+      [complex(SQRT2_INV), complex(SQRT2_INV)],
+      [complex(SQRT2_INV), complex(-SQRT2_INV)],
+    ],
+  } as Gate,
+  /** S = sqrt(Z) - rotation by PI/2 about Z */
+  S: {
+    name: 'S',
+    matrix: [
+      [complex(1), complex(0)],
+      [complex(0), complex(0, 1)],
+    ],
+  } as Gate,
+  /** S dagger - rotation by -PI/2 about Z */
+  Sdg: {
+    name: 'S†',
+    matrix: [
+      [complex(1), complex(0)],
+      [complex(0), complex(0, -1)],
+    ],
+  } as Gate,
+  /** T = sqrt(S) - rotation by PI/4 about Z */
+  T: {
+    name: 'T',
+    matrix: [
+      [complex(1), complex(0)],
+      [complex(0), complexFromPolar(1, Math.PI / 4)],
+    ],
+  } as Gate,
+  /** T dagger - rotation by -PI/4 about Z */
+  Tdg: {
+    name: 'T†',
+    matrix: [
+      [complex(1), complex(0)],
+      [complex(0), complexFromPolar(1, -Math.PI / 4)],
+    ],
+  } as Gate,
+};
+
+/**
+ * Rotation about the X axis: Rx(theta) = exp(-i*theta*X/2)
+ */
+export function rx(theta: number): Gate {
+  const c = Math.cos(theta / 2);
+  const s = Math.sin(theta / 2);
+  return {
+    name: 'Rx',
+    matrix: [
+      [complex(c), complex(0, -s)],
+      [complex(0, -s), complex(c)],
+    ],
+    params: [theta],
+  };
+}
+
+/**
+ * Rotation about the Y axis: Ry(theta) = exp(-i*theta*Y/2)
+ */
+export function ry(theta: number): Gate {
+  const c = Math.cos(theta / 2);
+  const s = Math.sin(theta / 2);
+  return {
+    name: 'Ry',
+    matrix: [
+      [complex(c), complex(-s)],
+      [complex(s), complex(c)],
+    ],
+    params: [theta],
+  };
+}
+
+/**
+ * Rotation about the Z axis: Rz(theta) = exp(-i*theta*Z/2)
+ */
+export function rz(theta: number): Gate {
+  return {
+    name: 'Rz',
+    matrix: [
+      [complexFromPolar(1, -theta / 2), complex(0)],
+      [complex(0), complexFromPolar(1, theta / 2)],
+    ],
+    params: [theta],
+  };
+}
+
+/**
+ * Phase gate: P(lambda) = diag(1, e^(i*lambda))
+ */
+export function phase(lambda: number): Gate {
+  return {
+    name: 'P',
+    matrix: [
+      [complex(1), complex(0)],
+      [complex(0), complexFromPolar(1, lambda)],
+    ],
+    params: [lambda],
+  };
+}
+
+/**
+ * General single-qubit gate (OpenQASM convention):
+ * U3(theta, phi, lambda) = [[cos(theta/2), -e^(i*lambda)*sin(theta/2)],
+ *                           [e^(i*phi)*sin(theta/2), e^(i*(phi+lambda))*cos(theta/2)]]
+ */
+export function u3(theta: number, phi: number, lambda: number): Gate {
+  const c = Math.cos(theta / 2);
+  const s = Math.sin(theta / 2);
+  return {
+    name: 'U3',
+    matrix: [
+      [complex(c), complexFromPolar(-s, lambda)],
+      [complexFromPolar(s, phi), complexFromPolar(c, phi + lambda)],
+    ],
+    params: [theta, phi, lambda],
+  };
+}
+
+/**
+ * Rotation by `angle` about an arbitrary axis:
+ * R_n(angle) = cos(angle/2)*I - i*sin(angle/2)*(n . sigma)
+ * The axis is normalized; a zero axis yields the identity.
+ */
+export function rotation({ axis, angle }: AxisAngle): Gate {
+  const norm = Math.sqrt(axis.x ** 2 + axis.y ** 2 + axis.z ** 2);
+  if (norm === 0) {
+    return { name: 'R', matrix: identityMatrix(), params: [angle] };
+  }
+
+  const n = { x: axis.x / norm, y: axis.y / norm, z: axis.z / norm };
+  const c = Math.cos(angle / 2);
+  const s = Math.sin(angle / 2);
+  return {
+    name: 'R',
+    matrix: [
+      [complex(c, -s * n.z), complex(-s * n.y, -s * n.x)],
+      [complex(s * n.y, -s * n.x), complex(c, s * n.z)],
+    ],
+    params: [angle],
+  };
+}
+
+/**
+ * Check whether a matrix is unitary (U^dagger U = I) within a tolerance
+ */
+export function isUnitary(matrix: ComplexMatrix2x2, tolerance = 1e-9): boolean {
+  const product = matrixMultiply(matrixAdjoint(matrix), matrix);
+  const identity = identityMatrix();
+  for (const row of [0, 1] as const) {
+    for (const col of [0, 1] as const) {
+      if (
+        complexAbs(complexSub(product[row][col], identity[row][col])) >
+        tolerance
+      ) {
+        return false;
+      }
+    }
+  }
+  return true;
+}
+
+/**
+ * Wrap an arbitrary 2x2 unitary as a gate.
+ * Throws if the matrix is not unitary within the tolerance.
+ */
+export function unitary(
+  matrix: ComplexMatrix2x2,
+  name = 'U',
+  tolerance = 1e-9
+): Gate {
+  if (!isUnitary(matrix, tolerance)) {
+    throw new Error(`Gate ${name} is not unitary`);
+  }
+  return { name, matrix };
+}
+
+/**
+ * Compose gates into a single gate. Gates are applied in array order,
+ * so composeGates([a, b]) applies `a` first: matrix = b * a.
+ */
+export function composeGates(gates: Gate[], name?: string): Gate {
+  const matrix = gates.reduce(
+    (acc, gate) => matrixMultiply(gate.matrix, acc),
+    identityMatrix()
+  );
+  return { name: name ?? gates.map((gate) => gate.name).join('·'), matrix };
+}
+
+/**
+ * Inverse (adjoint) of a gate
+ */
+export function inverseGate(gate: Gate): Gate {
+  return { name: `${gate.name}†`, matrix: matrixAdjoint(gate.matrix) };
+}
+
+/**
+ * Decompose a gate into its Bloch sphere rotation.
+ * Any U equals e^(i*alpha) * R_n(angle) up to global phase; the returned
+ * angle is in [0, PI], and the identity reports angle 0 about +Z.
+ */
+export function gateToAxisAngle(gate: Gate): AxisAngle {
+  // Remove global phase so that det(V) = 1
+  const det = matrixDeterminant(gate.matrix);
+  const v = matrixScale(gate.matrix, complexFromPolar(1, -complexArg(det) / 2));
+
+  // V = c*I - i*s*(nx*X + ny*Y + nz*Z)
+  let c = (v[0][0].real + v[1][1].real) / 2;
+  let sx = -(v[0][1].imag + v[1][0].imag) / 2;
+  let sy = (v[1][0].real - v[0][1].real) / 2;
+  let sz = (v[1][1].imag - v[0][0].imag) / 2;
+
+  // V and -V describe the same rotation; pick the one with angle <= PI
+  if (c < 0) {
+    c = -c;
+    sx = -sx;
+    sy = -sy;
+    sz = -sz;
+  }
+
+  const s = Math.sqrt(sx ** 2 + sy ** 2 + sz ** 2);
+  if (s < 1e-12) {
+    return { axis: { x: 0, y: 0, z: 1 }, angle: 0 };
+  }
+
+  return {
+    axis: { x: sx / s, y: sy / s, z: sz / s },
+    angle: 2 * Math.atan2(s, c),
+  };
+}
+
+/**
+ * Rotate a Bloch vector about a unit axis (Rodrigues' rotation formula)
+ */
+export function rotateBlochVector(
+  vector: CartesianCoordinates,
+  { axis, angle }: AxisAngle
+): CartesianCoordinates {
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const dot = axis.x * vector.x + axis.y * vector.y + axis.z * vector.z;
+  const axisCrossVector = cross(axis, vector);
+  return {
+    x: vector.x * cos + axisCrossVector.x * sin + axis.x * dot * (1 - cos),
+    y: vector.y * cos + axisCrossVector.y * sin + axis.y * dot * (1 - cos),
+    z: vector.z * cos + axisCrossVector.z * sin + axis.z * dot * (1 - cos),
+  };
+}
+
+/**
+ * Apply a gate to a state vector: |psi'> = U|psi>
+ */
+export function applyGate(
+  gate: Gate,
+  amplitudes: ComplexAmplitude
+): ComplexAmplitude {
+  return matrixApply(gate.matrix, amplitudes);
+}
+
+/**
+ * Apply a gate to a state given in spherical coordinates.
+ * The gate acts as a rotation, so mixed states keep their length `r`.
+ */
+export function applyGateToSpherical(
+  gate: Gate,
+  coords: SphericalCoordinates
+): SphericalCoordinates {
+  const rotated = rotateBlochVector(
+    sphericalToCartesian({ theta: coords.theta, phi: coords.phi }),
+    gateToAxisAngle(gate)
+  );
+  const { theta, phi } = cartesianToSpherical(rotated);
+  return coords.r === undefined ? { theta, phi } : { theta, phi, r: coords.r };
+}
+
+/**
+ * Smallest rotation taking one state direction to another.
+ * For antipodal states the axis is chosen perpendicular to `start`,
+ * preferring the Y axis so that |0> -> |1> sweeps through |+>.
+ */
+export function rotationBetween(
+  start: SphericalCoordinates,
+  end: SphericalCoordinates
+): AxisAngle {
+  const a = sphericalToCartesian({ theta: start.theta, phi: start.phi });
+  const b = sphericalToCartesian({ theta: end.theta, phi: end.phi });
+  const dot = Math.max(-1, Math.min(1, a.x * b.x + a.y * b.y + a.z * b.z));
+  const angle = Math.acos(dot);
+
+  let axis = cross(a, b);
+  let norm = Math.sqrt(axis.x ** 2 + axis.y ** 2 + axis.z ** 2);
+
+  if (norm < 1e-9) {
+    if (dot > 0) {
+      return { axis: { x: 0, y: 0, z: 1 }, angle: 0 };
+    }
+    // Antipodal: any axis perpendicular to start works
+    axis = cross(
+      a,
+      Math.abs(a.x) < 0.9 ? { x: 1, y: 0, z: 0 } : { x: 0, y: 1, z: 0 }
+    );
+    norm = Math.sqrt(axis.x ** 2 + axis.y ** 2 + axis.z ** 2);
+  }
+
+  return {
+    axis: { x: axis.x / norm, y: axis.y / norm, z: axis.z / norm },
+    angle,
+  };
+}
+
+/**
+ * Interpolate along the path of a physical rotation.
+ * The start direction is rotated by `t * angle` about the axis, and the
+ * Bloch vector length is interpolated linearly. At t = 1 the exact end
+ * state is returned so accumulated error never leaves the vector off target.
+ */
+export function interpolateRotation(
+  start: SphericalCoordinates,
+  end: SphericalCoordinates,
+  { axis, angle }: AxisAngle,
+  t: number
+): SphericalCoordinates {
+  if (t >= 1) return end;
+
+  const startR = start.r ?? 1;
+  const endR = end.r ?? 1;
+  const rotated = rotateBlochVector(
+    sphericalToCartesian({ theta: start.theta, phi: start.phi }),
+    { axis, angle: angle * t }
+  );
+  const { theta, phi } = cartesianToSpherical(rotated);
+  return { theta, phi, r: startR + t * (endR - startR) };
+}
+
+function cross(
+  a: CartesianCoordinates,
+  b: CartesianCoordinates
+): CartesianCoordinates {
+  return {
+    x: a.y * b.z - a.z * b.y,
+    y: a.z * b.x - a.x * b.z,
+    z: a.x * b.y - a.y * b.x,
+  };
+}
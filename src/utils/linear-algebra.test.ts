@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import {
+  hermitianEigenvalues,
+  hermitianFunction,
+  symmetricEigensystem,
+  symmetricEigenvalues,
+} from './linear-algebra';
+import { complex } from './complex';
+
+describe('linear-algebra', () => {
+  it('diagonalizes a real symmetric matrix', () => {
+    const eigenvalues = symmetricEigenvalues([
+      [2, 1, 0],
+      [1, 2, 0],
+      [0, 0, 5],
+    ]);
+    expect(eigenvalues[0]).toBeCloseTo(1);
+    expect(eigenvalues[1]).toBeCloseTo(3);
+    expect(eigenvalues[2]).toBeCloseTo(5);
+  });
+
+  it('returns orthonormal eigenvectors matching the eigenvalues', () => {
+    const matrix = [
+      [4, 1, 2],
+      [1, 3, 0],
+      [2, 0, 1],
+    ];
+    const { values, vectors } = symmetricEigensystem(matrix);
+    vectors.forEach((vector, i) => {
+      const image = matrix.map((row) =>
+        row.reduce((sum, value, j) => sum + value * vector[j], 0)
+      );
+      image.forEach((value, j) =>
+        expect(value).toBeCloseTo(values[i] * vector[j])
+      );
+      vectors.forEach((other, j) =>
+        expect(
+          other.reduce((sum, value, k) => sum + value * vector[k], 0)
+        ).toBeCloseTo(i === j ? 1 : 0)
+      );
+    });
+  });
+
+  it('finds the spectrum of a complex Hermitian matrix', () => {
+    // Pauli Y has eigenvalues -1 and 1
+    const eigenvalues = hermitianEigenvalues([
+      [complex(0), complex(0, -1)],
+      [complex(0, 1), complex(0)],
+    ]);
+    expect(eigenvalues).toHaveLength(2);
+    expect(eigenvalues[0]).toBeCloseTo(-1);
+    expect(eigenvalues[1]).toBeCloseTo(1);
+  });
+
+  it('applies a function to a Hermitian matrix through its spectrum', () => {
+    // Eigenvalues 1 and 4, so the square root is well defined
+    const matrix = [
+      [complex(2), complex(1, -1)],
+      [complex(1, 1), complex(3)],
+    ];
+    const root = hermitianFunction(matrix, Math.sqrt);
+    for (let i = 0; i < 2; i++) {
+      for (let j = 0; j < 2; j++) {
+        const square = [0, 1].reduce(
+          (sum, k) =>
+            complex(
+              sum.real +
+                root[i][k].real * root[k][j].real -
+                root[i][k].imag * root[k][j].imag,
+              sum.imag +
+                root[i][k].real * root[k][j].imag +
+                root[i][k].imag * root[k][j].real
+            ),
+          complex(0)
+        );
+        expect(square.real).toBeCloseTo(matrix[i][j].real);
+        expect(square.imag).toBeCloseTo(matrix[i][j].imag);
+      }
+    }
+  });
+});
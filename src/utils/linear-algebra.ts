@@ -0,0 +1,126 @@
+import type { Complex } from '../types';
+
+/**
+ * Eigenvalues and orthonormal eigenvectors of a real symmetric matrix
+ * (cyclic Jacobi method), sorted by ascending eigenvalue.
+ * `vectors[i]` belongs to `values[i]`.
+ */
+export function symmetricEigensystem(matrix: number[][]): {
+  values: number[];
+  vectors: number[][];
+} {
+  const n = matrix.length;
+  const a = matrix.map((row) => [...row]);
+  // Accumulated rotations; column j converges to the j-th eigenvector
+  const v: number[][] = matrix.map((_, i) =>
+    matrix.map((__, j) => (i === j ? 1 : 0))
+  );
+
+  for (let sweep = 0; sweep < 100; sweep++) {
+    let offDiagonal = 0;
+    for (let p = 0; p < n; p++) {
+      for (let q = p + 1; q < n; q++) offDiagonal += a[p][q] ** 2;
+    }
+    if (offDiagonal < 1e-22) break;
+
+    for (let p = 0; p < n; p++) {
+      for (let q = p + 1; q < n; q++) {
+        if (Math.abs(a[p][q]) < 1e-300) continue;
+
+        // Rotation angle that zeroes a[p][q]
+        const theta = (a[q][q] - a[p][p]) / (2 * a[p][q]);
+        const t =
+          Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta ** 2 + 1));
+        const c = 1 / Math.sqrt(t ** 2 + 1);
+        const s = t * c;
+
+        for (let k = 0; k < n; k++) {
+          const akp = a[k][p];
+          const akq = a[k][q];
+          a[k][p] = c * akp - s * akq;
+          a[k][q] = s * akp + c * akq;
+          const vkp = v[k][p];
+          const vkq = v[k][q];
+          v[k][p] = c * vkp - s * vkq;
+          v[k][q] = s * vkp + c * vkq;
+        }
+        for (let k = 0; k < n; k++) {
+          const apk = a[p][k];
+          const aqk = a[q][k];
+          a[p][k] = c * apk - s * aqk;
+          a[q][k] = s * apk + c * aqk;
+        }
+      }
+    }
+  }
+
+  const order = a.map((_, i) => i).sort((i, j) => a[i][i] - a[j][j]);
+  return {
+    values: order.map((i) => a[i][i]),
+    vectors: order.map((j) => v.map((row) => row[j])),
+  };
+}
+
+/**
+ * Eigenvalues of a real symmetric matrix, sorted in ascending order
+ */
+export function symmetricEigenvalues(matrix: number[][]): number[] {
+  return symmetricEigensystem(matrix).values;
+}
+
+/**
+ * Real symmetric embedding [[A, -B], [B, A]] of a Hermitian H = A + iB
+ */
+function hermitianEmbedding(matrix: Complex[][]): number[][] {
+  const n = matrix.length;
+  const embedded: number[][] = [];
+  for (let i = 0; i < 2 * n; i++) {
+    embedded.push(new Array(2 * n).fill(0));
+  }
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < n; j++) {
+      const { real, imag } = matrix[i][j];
+      embedded[i][j] = real;
+      embedded[i + n][j + n] = real;
+      embedded[i][j + n] = -imag;
+      embedded[i + n][j] = imag;
+    }
+  }
+  return embedded;
+}
+
+/**
+ * Eigenvalues of a complex Hermitian matrix, sorted in ascending order.
+ * Uses the real symmetric embedding, whose spectrum is that of H with
+ * every eigenvalue doubled.
+ */
+export function hermitianEigenvalues(matrix: Complex[][]): number[] {
+  const doubled = symmetricEigenvalues(hermitianEmbedding(matrix));
+  return doubled.filter((_, i) => i % 2 === 0);
+}
+
+/**
+ * Apply a function to a complex Hermitian matrix through its spectrum,
+ * f(H) = Σ f(λ) |v⟩⟨v|, e.g. `Math.sqrt` for the square root of a density
+ * matrix. Works on the same real embedding as hermitianEigenvalues, where
+ * f(embedding of H) is the embedding of f(H).
+ */
+export function hermitianFunction(
+  matrix: Complex[][],
+  f: (eigenvalue: number) => number
+): Complex[][] {
+  const n = matrix.length;
+  const embedded = hermitianEmbedding(matrix);
+  const { values, vectors } = symmetricEigensystem(embedded);
+  const mapped = values.map(f);
+
+  // Top-left block is the real part, bottom-left block the imaginary part
+  const entry = (row: number, col: number) =>
+    vectors.reduce(
+      (sum, vector, k) => sum + mapped[k] * vector[row] * vector[col],
+      0
+    );
+  return matrix.map((_, i) =>
+    matrix.map((__, j) => ({ real: entry(i, j), imag: entry(i + n, j) }))
+  );
+}
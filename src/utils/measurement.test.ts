@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createRng,
+  measurementBases,
+  measurementProbabilities,
+  measurementEigenstate,
+  measure,
+  sampleMeasurements,
+} from './measurement';
+import { commonStates, sphericalToCartesian } from './quantum-math';
+
+describe('measurement', () => {
+  describe('createRng', () => {
+    it('is reproducible for the same seed', () => {
+      const a = createRng(42);
+      const b = createRng(42);
+      for (let i = 0; i < 10; i++) {
+        expect(a()).toBe(b());
+      }
+    });
+
+    it('produces numbers in [0, 1)', () => {
+      const rng = createRng(7);
+      for (let i = 0; i < 1000; i++) {
+        const value = rng();
+        expect(value).toBeGreaterThanOrEqual(0);
+        expect(value).toBeLessThan(1);
+      }
+    });
+  });
+
+  describe('measurementProbabilities', () => {
+    it('gives certain outcomes for basis states', () => {
+      expect(measurementProbabilities(commonStates.zero)).toEqual([1, 0]);
+      const [p0, p1] = measurementProbabilities(commonStates.one);
+      expect(p0).toBeCloseTo(0);
+      expect(p1).toBeCloseTo(1);
+    });
+
+    it('gives 50/50 for |+> in the Z basis', () => {
+      const [p0, p1] = measurementProbabilities(commonStates.plus);
+      expect(p0).toBeCloseTo(0.5);
+      expect(p1).toBeCloseTo(0.5);
+    });
+
+    it('follows the Born rule cos^2(theta/2)', () => {
+      const theta = Math.PI / 3;
+      const [p0] = measurementProbabilities({ theta, phi: 0.4 });
+      expect(p0).toBeCloseTo(Math.cos(theta / 2) ** 2);
+    });
+
+    it('supports arbitrary axes', () => {
+      const [p0] = measurementProbabilities(
+        commonStates.plus,
+        measurementBases.X
+      );
+      expect(p0).toBeCloseTo(1);
+      const [q0] = measurementProbabilities(commonStates.plus, {
+        x: 0,
+        y: 0,
+        z: 2,
+      });
+      expect(q0).toBeCloseTo(0.5);
+    });
+
+    it('gives 50/50 for the maximally mixed state in any basis', () => {
+      const [p0] = measurementProbabilities(
+        { theta: 0, phi: 0, r: 0 },
+        measurementBases.Y
+      );
+      expect(p0).toBeCloseTo(0.5);
+    });
+  });
+
+  describe('measurementEigenstate', () => {
+    it('returns |+> and |-> for the X basis', () => {
+      const plus = sphericalToCartesian(
+        measurementEigenstate(0, measurementBases.X)
+      );
+      const minus = sphericalToCartesian(
+        measurementEigenstate(1, measurementBases.X)
+      );
+      expect(plus.x).toBeCloseTo(1);
+      expect(minus.x).toBeCloseTo(-1);
+    });
+  });
+
+  describe('measure', () => {
+    it('collapses to the measured eigenstate', () => {
+      const rng = createRng(1);
+      for (let i = 0; i < 20; i++) {
+        const result = measure(commonStates.plus, measurementBases.Z, rng);
+        expect(result.probability).toBeCloseTo(0.5);
+        expect(result.postState.theta).toBeCloseTo(
+          result.outcome === 0 ? 0 : Math.PI
+        );
+      }
+    });
+
+    it('is deterministic for certain outcomes', () => {
+      const result = measure(
+        commonStates.one,
+        measurementBases.Z,
+        createRng(3)
+      );
+      expect(result.outcome).toBe(1);
+    });
+  });
+
+  describe('sampleMeasurements', () => {
+    it('returns counts summing to the number of shots', () => {
+      const [n0, n1] = sampleMeasurements(
+        commonStates.plus,
+        500,
+        measurementBases.Z,
+        createRng(5)
+      );
+      expect(n0 + n1).toBe(500);
+    });
+
+    it('approaches the Born-rule probabilities', () => {
+      const coords = { theta: Math.PI / 3, phi: 0 };
+      const shots = 10000;
+      const [n0] = sampleMeasurements(
+        coords,
+        shots,
+        measurementBases.Z,
+        createRng(11)
+      );
+      expect(n0 / shots).toBeCloseTo(0.75, 1);
+    });
+  });
+});
@@ -0,0 +1,110 @@
+import type {
+  CartesianCoordinates,
+  MeasurementOutcome,
+  MeasurementResult,
+  SphericalCoordinates,
+} from '../types';
+import { cartesianToSpherical, sphericalToCartesian } from './quantum-math';
+
+/**
+ * Measurement axes of the Pauli bases
+ */
+export const measurementBases = {
+  /** Computational basis: |0>, |1> */
+  Z: { x: 0, y: 0, z: 1 } as CartesianCoordinates,
+  /** Hadamard basis: |+>, |-> */
+  X: { x: 1, y: 0, z: 0 } as CartesianCoordinates,
+  /** Circular basis: |+i>, |-i> */
+  Y: { x: 0, y: 1, z: 0 } as CartesianCoordinates,
+};
+
+/**
+ * Seedable pseudo-random number generator (mulberry32).
+ * Returns a function producing uniform numbers in [0, 1).
+ */
+export function createRng(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Born-rule outcome probabilities [p0, p1] for measuring along `axis`.
+ * For a Bloch vector r and unit axis n: p0 = (1 + r.n) / 2.
+ */
+export function measurementProbabilities(
+  coords: SphericalCoordinates,
+  axis: CartesianCoordinates = measurementBases.Z
+): [number, number] {
+  const n = normalizeAxis(axis);
+  const r = sphericalToCartesian(coords);
+  const p0 = Math.min(
+    1,
+    Math.max(0, (1 + r.x * n.x + r.y * n.y + r.z * n.z) / 2)
+  );
+  return [p0, 1 - p0];
+}
+
+/**
+ * Eigenstate of the measurement along `axis` for the given outcome
+ */
+export function measurementEigenstate(
+  outcome: MeasurementOutcome,
+  axis: CartesianCoordinates = measurementBases.Z
+): SphericalCoordinates {
+  const n = normalizeAxis(axis);
+  const sign = outcome === 0 ? 1 : -1;
+  const { theta, phi } = cartesianToSpherical({
+    x: sign * n.x,
+    y: sign * n.y,
+    z: sign * n.z,
+  });
+  return { theta, phi };
+}
+
+/**
+ * Simulate a single projective measurement along `axis`.
+ * Pass a seeded `rng` from createRng() for reproducible outcomes.
+ */
+export function measure(
+  coords: SphericalCoordinates,
+  axis: CartesianCoordinates = measurementBases.Z,
+  rng: () => number = Math.random
+): MeasurementResult {
+  const probabilities = measurementProbabilities(coords, axis);
+  const outcome: MeasurementOutcome = rng() < probabilities[0] ? 0 : 1;
+  return {
+    outcome,
+    probability: probabilities[outcome],
+    postState: measurementEigenstate(outcome, axis),
+  };
+}
+
+/**
+ * Simulate repeated measurements of identically prepared states.
+ * Returns outcome counts [n0, n1].
+ */
+export function sampleMeasurements(
+  coords: SphericalCoordinates,
+  shots: number,
+  axis: CartesianCoordinates = measurementBases.Z,
+  rng: () => number = Math.random
+): [number, number] {
+  const [p0] = measurementProbabilities(coords, axis);
+  let n0 = 0;
+  for (let i = 0; i < shots; i++) {
+    if (rng() < p0) n0++;
+  }
+  return [n0, shots - n0];
+}
+
+function normalizeAxis(axis: CartesianCoordinates): CartesianCoordinates {
+  const norm = Math.sqrt(axis.x ** 2 + axis.y ** 2 + axis.z ** 2);
+  if (norm === 0) return measurementBases.Z;
+  return { x: axis.x / norm, y: axis.y / norm, z: axis.z / norm };
+}
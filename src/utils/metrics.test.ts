@@ -0,0 +1,199 @@
+import { describe, it, expect } from 'vitest';
+import {
+  fidelity,
+  infidelity,
+  traceDistance,
+  buresAngle,
+  angularDistance,
+  greatCircleDistance,
+  statesEqual,
+  purity,
+  vonNeumannEntropy,
+} from './metrics';
+import { commonStates } from './quantum-math';
+import type { QuantumState } from '../types';
+
+const mixed = (r: number) => ({ theta: 1, phi: 2, r });
+
+describe('metrics', () => {
+  describe('fidelity', () => {
+    it('is 1 for identical pure states', () => {
+      expect(fidelity(commonStates.plus, commonStates.plus)).toBeCloseTo(1);
+    });
+
+    it('is 0 for orthogonal pure states', () => {
+      expect(fidelity(commonStates.zero, commonStates.one)).toBeCloseTo(0);
+    });
+
+    it('is 1/2 between mutually unbiased states', () => {
+      expect(fidelity(commonStates.zero, commonStates.plusI)).toBeCloseTo(0.5);
+    });
+
+    it('equals cos^2(theta/2) against |0>', () => {
+      const theta = 1.1;
+      expect(fidelity(commonStates.zero, { theta, phi: 2 })).toBeCloseTo(
+        Math.cos(theta / 2) ** 2
+      );
+    });
+
+    it('is 1/2 between the maximally mixed state and any pure state', () => {
+      const mixed = { theta: 0, phi: 0, r: 0 };
+      expect(fidelity(mixed, commonStates.minus)).toBeCloseTo(0.5);
+    });
+
+    it('is 1 for identical mixed states', () => {
+      const mixed = { theta: 1, phi: 1, r: 0.4 };
+      expect(fidelity(mixed, mixed)).toBeCloseTo(1);
+    });
+  });
+
+  describe('angularDistance', () => {
+    it('is PI between antipodal states', () => {
+      expect(
+        angularDistance(commonStates.plus, commonStates.minus)
+      ).toBeCloseTo(Math.PI);
+    });
+
+    it('is PI/2 between |0> and |+i>', () => {
+      expect(
+        angularDistance(commonStates.zero, commonStates.plusI)
+      ).toBeCloseTo(Math.PI / 2);
+    });
+
+    it('ignores the Bloch vector length', () => {
+      const a = { theta: 0.5, phi: 0.5, r: 0.2 };
+      const b = { theta: 0.5, phi: 0.5 };
+      expect(angularDistance(a, b)).toBeCloseTo(0);
+    });
+  });
+  it('accepts any QuantumState form', () => {
+    const plusAmplitudes: QuantumState = {
+      type: 'amplitudes',
+      amplitudes: {
+        alpha: { real: Math.SQRT1_2, imag: 0 },
+        beta: { real: Math.SQRT1_2, imag: 0 },
+      },
+    };
+    const minusVector: QuantumState = {
+      type: 'blochVector',
+      vector: { x: -1, y: 0, z: 0 },
+    };
+    expect(fidelity(plusAmplitudes, commonStates.plus)).toBeCloseTo(1);
+    expect(fidelity(plusAmplitudes, minusVector)).toBeCloseTo(0);
+  });
+
+  describe('infidelity', () => {
+    it('is 1 - F', () => {
+      expect(infidelity(commonStates.zero, { theta: 0.8, phi: 0 })).toBeCloseTo(
+        Math.sin(0.4) ** 2
+      );
+    });
+  });
+
+  describe('traceDistance', () => {
+    it('is 1 for orthogonal and 0 for identical states', () => {
+      expect(
+        traceDistance(commonStates.plusI, commonStates.minusI)
+      ).toBeCloseTo(1);
+      expect(traceDistance(mixed(0.3), mixed(0.3))).toBeCloseTo(0);
+    });
+
+    it('is half the Euclidean distance between Bloch vectors', () => {
+      expect(
+        traceDistance({ theta: 0, phi: 0, r: 0 }, commonStates.zero)
+      ).toBeCloseTo(0.5);
+    });
+
+    it('equals sqrt(1 - F) for pure states', () => {
+      const a = { theta: 0.4, phi: 1 };
+      const b = { theta: 2.1, phi: -0.3 };
+      expect(traceDistance(a, b)).toBeCloseTo(Math.sqrt(1 - fidelity(a, b)));
+    });
+  });
+
+  describe('buresAngle', () => {
+    it('is half the Bloch angle for pure states', () => {
+      expect(buresAngle(commonStates.zero, commonStates.plus)).toBeCloseTo(
+        Math.PI / 4
+      );
+      expect(buresAngle(commonStates.zero, commonStates.one)).toBeCloseTo(
+        Math.PI / 2
+      );
+    });
+
+    it('is 0 for identical mixed states', () => {
+      expect(buresAngle(mixed(0.5), mixed(0.5))).toBeCloseTo(0);
+    });
+  });
+
+  describe('greatCircleDistance', () => {
+    it('scales the angular distance by the radius', () => {
+      expect(
+        greatCircleDistance(commonStates.zero, commonStates.plus, 2)
+      ).toBeCloseTo(Math.PI);
+    });
+  });
+
+  describe('statesEqual', () => {
+    it('ignores the global phase of amplitudes', () => {
+      const phase = 0.7;
+      const a: QuantumState = {
+        type: 'amplitudes',
+        amplitudes: {
+          alpha: { real: 0.6, imag: 0 },
+          beta: { real: 0, imag: 0.8 },
+        },
+      };
+      const b: QuantumState = {
+        type: 'amplitudes',
+        amplitudes: {
+          alpha: { real: 0.6 * Math.cos(phase), imag: 0.6 * Math.sin(phase) },
+          beta: {
+            real: -0.8 * Math.sin(phase),
+            imag: 0.8 * Math.cos(phase),
+          },
+        },
+      };
+      expect(statesEqual(a, b)).toBe(true);
+    });
+
+    it('distinguishes states beyond the tolerance', () => {
+      const a = { theta: 1, phi: 0 };
+      const b = { theta: 1.001, phi: 0 };
+      expect(statesEqual(a, b)).toBe(false);
+      expect(statesEqual(a, b, 1e-3)).toBe(true);
+    });
+
+    it('treats phi as irrelevant at the poles', () => {
+      expect(statesEqual({ theta: 0, phi: 0 }, { theta: 0, phi: 2 })).toBe(
+        true
+      );
+    });
+  });
+
+  describe('purity', () => {
+    it('is 1 for pure and 1/2 for maximally mixed states', () => {
+      expect(purity(commonStates.minus)).toBeCloseTo(1);
+      expect(purity(mixed(0))).toBeCloseTo(0.5);
+      expect(purity(mixed(0.6))).toBeCloseTo(0.68);
+    });
+  });
+
+  describe('vonNeumannEntropy', () => {
+    it('is 0 for pure and 1 bit for maximally mixed states', () => {
+      expect(vonNeumannEntropy(commonStates.plusI)).toBeCloseTo(0);
+      expect(vonNeumannEntropy(mixed(0))).toBeCloseTo(1);
+    });
+
+    it('supports other logarithm bases', () => {
+      expect(vonNeumannEntropy(mixed(0), Math.E)).toBeCloseTo(Math.LN2);
+    });
+
+    it('matches the eigenvalue formula for partially mixed states', () => {
+      const p = 0.8;
+      expect(vonNeumannEntropy(mixed(0.6))).toBeCloseTo(
+        -p * Math.log2(p) - (1 - p) * Math.log2(1 - p)
+      );
+    });
+  });
+});
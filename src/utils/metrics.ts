@@ -0,0 +1,112 @@
+import type { SphericalCoordinates, StateLike } from '../types';
+import { quantumStateToSpherical, sphericalToCartesian } from './quantum-math';
+
+/**
+ * Bloch sphere description of a state; all metrics work on these
+ */
+function toSpherical(state: StateLike): SphericalCoordinates {
+  return 'type' in state ? quantumStateToSpherical(state) : state;
+}
+
+/**
+ * Fidelity between two (possibly mixed) qubit states given as Bloch vectors:
+ * F = (1 + r1.r2 + sqrt((1 - |r1|^2)(1 - |r2|^2))) / 2
+ * Equals |<psi|phi>|^2 for pure states.
+ */
+export function fidelity(a: StateLike, b: StateLike): number {
+  const sa = toSpherical(a);
+  const sb = toSpherical(b);
+  const ra = sa.r ?? 1;
+  const rb = sb.r ?? 1;
+  const va = sphericalToCartesian(sa);
+  const vb = sphericalToCartesian(sb);
+  const dot = va.x * vb.x + va.y * vb.y + va.z * vb.z;
+  const mixedTerm = Math.sqrt(Math.max(0, (1 - ra ** 2) * (1 - rb ** 2)));
+  return Math.min(1, Math.max(0, (1 + dot + mixedTerm) / 2));
+}
+
+/**
+ * Infidelity 1 - F, e.g. the error of a prepared state against a target
+ */
+export function infidelity(a: StateLike, b: StateLike): number {
+  return 1 - fidelity(a, b);
+}
+
+/**
+ * Trace distance ||rho1 - rho2||_1 / 2 = |r1 - r2| / 2, in [0, 1].
+ * The maximum probability of telling the two states apart in one shot.
+ */
+export function traceDistance(a: StateLike, b: StateLike): number {
+  const va = sphericalToCartesian(toSpherical(a));
+  const vb = sphericalToCartesian(toSpherical(b));
+  return Math.hypot(va.x - vb.x, va.y - vb.y, va.z - vb.z) / 2;
+}
+
+/**
+ * Bures angle arccos(sqrt(F)), in [0, PI/2]. For pure states this is half
+ * the angle between the Bloch vectors.
+ */
+export function buresAngle(a: StateLike, b: StateLike): number {
+  return Math.acos(Math.min(1, Math.sqrt(fidelity(a, b))));
+}
+
+/**
+ * Angle in radians between the Bloch vector directions of two states
+ * (great-circle distance on the unit sphere), in [0, PI].
+ */
+export function angularDistance(a: StateLike, b: StateLike): number {
+  const sa = toSpherical(a);
+  const sb = toSpherical(b);
+  const va = sphericalToCartesian({ theta: sa.theta, phi: sa.phi });
+  const vb = sphericalToCartesian({ theta: sb.theta, phi: sb.phi });
+  const dot = va.x * vb.x + va.y * vb.y + va.z * vb.z;
+  return Math.acos(Math.max(-1, Math.min(1, dot)));
+}
+
+/**
+ * Great-circle distance between the state directions on a sphere of the
+ * given radius (angularDistance for the unit sphere)
+ */
+export function greatCircleDistance(
+  a: StateLike,
+  b: StateLike,
+  radius = 1
+): number {
+  return radius * angularDistance(a, b);
+}
+
+/**
+ * Whether two states are the same up to global phase (and normalization
+ * of amplitudes), i.e. their trace distance is within `tolerance`
+ */
+export function statesEqual(
+  a: StateLike,
+  b: StateLike,
+  tolerance = 1e-9
+): boolean {
+  return traceDistance(a, b) <= tolerance;
+}
+
+/**
+ * Purity Tr(rho^2) = (1 + |r|^2) / 2, from 1/2 (maximally mixed) to 1 (pure)
+ */
+export function purity(state: StateLike): number {
+  const r = Math.min(1, toSpherical(state).r ?? 1);
+  return (1 + r ** 2) / 2;
+}
+
+/**
+ * Von Neumann entropy -Tr(rho log rho) from the eigenvalues (1 ± |r|) / 2.
+ * 0 for pure states, 1 bit for the maximally mixed state.
+ *
+ * @param state - Qubit state
+ * @param base - Logarithm base (default: 2, entropy in bits)
+ */
+export function vonNeumannEntropy(state: StateLike, base = 2): number {
+  const r = Math.min(1, toSpherical(state).r ?? 1);
+  return [(1 + r) / 2, (1 - r) / 2].reduce(
+    (entropy, p) =>
+      p > 0 ? entropy - (p * Math.log(p)) / Math.log(base) : entropy,
+    0
+  );
+}
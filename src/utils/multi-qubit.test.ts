@@ -0,0 +1,155 @@
+import { describe, it, expect } from 'vitest';
+import {
+  analyzeEntanglement,
+  concurrence,
+  entanglementEntropy,
+  partialTrace,
+  qubitCount,
+  reducedDensityMatrix,
+  reducedStates,
+} from './multi-qubit';
+import { complex } from './complex';
+import { densityMatrixToBlochVector } from './quantum-math';
+import type { Complex, MultiQubitState } from '../types';
+
+const h = Math.SQRT1_2;
+
+/** State vector from real amplitudes */
+const statevector = (...amplitudes: number[]): MultiQubitState => ({
+  type: 'statevector',
+  amplitudes: amplitudes.map((a) => complex(a)),
+});
+
+/** |ψ⟩⟨ψ| for real amplitudes */
+const projector = (amplitudes: number[]): Complex[][] =>
+  amplitudes.map((a) => amplitudes.map((b) => complex(a * b)));
+
+const bell = statevector(h, 0, 0, h);
+
+describe('multi-qubit', () => {
+  it('counts qubits and rejects other dimensions', () => {
+    expect(qubitCount(bell)).toBe(2);
+    expect(qubitCount(statevector(1, 0, 0, 0, 0, 0, 0, 0))).toBe(3);
+    expect(() => qubitCount(statevector(1, 0, 0))).toThrow();
+  });
+
+  describe('partialTrace', () => {
+    it('keeps the listed qubits in order', () => {
+      // |01⟩: qubit 0 in |0⟩, qubit 1 in |1⟩
+      const rho = projector([0, 1, 0, 0]);
+      expect(partialTrace(rho, [0])[0][0].real).toBeCloseTo(1);
+      expect(partialTrace(rho, [1])[1][1].real).toBeCloseTo(1);
+      // Swapped order gives |10⟩
+      expect(partialTrace(rho, [1, 0])[2][2].real).toBeCloseTo(1);
+    });
+
+    it('rejects qubits out of range or repeated', () => {
+      const rho = projector([1, 0, 0, 0]);
+      expect(() => partialTrace(rho, [2])).toThrow();
+      expect(() => partialTrace(rho, [0, 0])).toThrow();
+    });
+  });
+
+  describe('reduced states', () => {
+    it('gives the factors of a product state', () => {
+      // |0⟩ ⊗ |+⟩
+      const state = statevector(h, h, 0, 0);
+      expect(
+        densityMatrixToBlochVector(reducedDensityMatrix(state, 0)).z
+      ).toBeCloseTo(1);
+      expect(
+        densityMatrixToBlochVector(reducedDensityMatrix(state, 1)).x
+      ).toBeCloseTo(1);
+    });
+
+    it('shrinks entangled qubits to the center', () => {
+      reducedStates(bell).forEach((reduced) => {
+        if (reduced.type !== 'densityMatrix') throw new Error('unexpected');
+        const { x, y, z } = densityMatrixToBlochVector(reduced.matrix);
+        expect(Math.hypot(x, y, z)).toBeCloseTo(0);
+      });
+    });
+
+    it('reads qubit 0 from the least significant bit when little-endian', () => {
+      // Basis index 1: qubit 0 is |1⟩ in little-endian order
+      const state: MultiQubitState = {
+        type: 'statevector',
+        amplitudes: [complex(0), complex(1), complex(0), complex(0)],
+        littleEndian: true,
+      };
+      expect(
+        densityMatrixToBlochVector(reducedDensityMatrix(state, 0)).z
+      ).toBeCloseTo(-1);
+      expect(
+        densityMatrixToBlochVector(reducedDensityMatrix(state, 1)).z
+      ).toBeCloseTo(1);
+    });
+
+    it('normalizes the input', () => {
+      const rho = reducedDensityMatrix(statevector(2, 0, 0, 0), 0);
+      expect(rho[0][0].real).toBeCloseTo(1);
+    });
+  });
+
+  describe('entanglementEntropy', () => {
+    it('is 1 bit for a Bell state and 0 for a product state', () => {
+      expect(entanglementEntropy(bell, 0)).toBeCloseTo(1);
+      expect(entanglementEntropy(statevector(h, h, 0, 0), 1)).toBeCloseTo(0);
+    });
+
+    it('measures a subsystem of several qubits', () => {
+      // Bell pair on qubits 0 and 1, qubit 2 in |0⟩
+      const state = statevector(h, 0, 0, 0, 0, 0, h, 0);
+      expect(entanglementEntropy(state, [0, 1])).toBeCloseTo(0);
+      expect(entanglementEntropy(state, [0, 2])).toBeCloseTo(1);
+    });
+  });
+
+  describe('concurrence', () => {
+    it('is 1 for a Bell state and 0 for a product state', () => {
+      expect(concurrence(bell, 0, 1)).toBeCloseTo(1);
+      expect(concurrence(statevector(h, h, 0, 0), 0, 1)).toBeCloseTo(0);
+    });
+
+    it('follows (3p - 1) / 2 for Werner states', () => {
+      const bellMatrix = projector([h, 0, 0, h]);
+      [0.2, 0.6, 0.9].forEach((p) => {
+        const matrix = bellMatrix.map((row, i) =>
+          row.map((entry, j) =>
+            complex(p * entry.real + (i === j ? (1 - p) / 4 : 0))
+          )
+        );
+        expect(
+          concurrence({ type: 'densityMatrix', matrix }, 0, 1)
+        ).toBeCloseTo(Math.max(0, (3 * p - 1) / 2));
+      });
+    });
+
+    it('is 2/3 for every pair of the W state', () => {
+      const s = 1 / Math.sqrt(3);
+      const w = statevector(0, s, s, 0, s, 0, 0, 0);
+      expect(concurrence(w, 0, 1)).toBeCloseTo(2 / 3);
+      expect(concurrence(w, 1, 2)).toBeCloseTo(2 / 3);
+    });
+  });
+
+  describe('analyzeEntanglement', () => {
+    it('summarizes a GHZ state', () => {
+      const ghz = statevector(h, 0, 0, 0, 0, 0, 0, h);
+      const { qubits, pairs } = analyzeEntanglement(ghz);
+      expect(qubits).toHaveLength(3);
+      qubits.forEach((qubit) => {
+        expect(qubit.spherical.r).toBeCloseTo(0);
+        expect(qubit.purity).toBeCloseTo(0.5);
+        expect(qubit.entropy).toBeCloseTo(1);
+      });
+      // GHZ entanglement is genuinely tripartite: every pair is separable
+      expect(pairs.map((pair) => pair.qubits)).toEqual([
+        [0, 1],
+        [0, 2],
+        [1, 2],
+      ]);
+      pairs.forEach((pair) => expect(pair.concurrence).toBeCloseTo(0));
+    });
+  });
+});
@@ -0,0 +1,250 @@
+import type {
+  Complex,
+  DensityMatrix,
+  EntanglementSummary,
+  MultiQubitState,
+  QuantumState,
+} from '../types';
+import { complexAdd, complexConj, complexMul, complexScale } from './complex';
+import { hermitianEigenvalues, hermitianFunction } from './linear-algebra';
+import { quantumStateToSpherical } from './quantum-math';
+import { purity, vonNeumannEntropy } from './metrics';
+
+/**
+ * Number of qubits for a Hilbert space dimension
+ */
+function qubitsForDimension(dimension: number): number {
+  const n = Math.round(Math.log2(dimension));
+  if (dimension < 2 || 2 ** n !== dimension) {
+    throw new Error(`Dimension ${dimension} is not a power of 2`);
+  }
+  return n;
+}
+
+/**
+ * Number of qubits described by a multi-qubit state
+ */
+export function qubitCount(state: MultiQubitState): number {
+  return qubitsForDimension(
+    state.type === 'statevector' ? state.amplitudes.length : state.matrix.length
+  );
+}
+
+function zeroMatrix(size: number): Complex[][] {
+  return Array.from({ length: size }, () =>
+    Array.from({ length: size }, () => ({ real: 0, imag: 0 }))
+  );
+}
+
+function checkQubits(qubits: number[], n: number) {
+  qubits.forEach((q, i) => {
+    if (!Number.isInteger(q) || q < 0 || q >= n) {
+      throw new Error(`Qubit ${q} is out of range for ${n} qubits`);
+    }
+    if (qubits.indexOf(q) !== i) throw new Error(`Qubit ${q} is repeated`);
+  });
+}
+
+/**
+ * Basis index builder for a split of the qubits into kept and traced-out
+ * parts. Qubit q (0 = most significant) is bit n - 1 - q of the index; the
+ * bits of each part follow the order of its qubit list.
+ */
+function indexer(n: number, keep: number[]) {
+  const traced = Array.from({ length: n }, (_, q) => q).filter(
+    (q) => !keep.includes(q)
+  );
+  const spread = (qubits: number[], bits: number) =>
+    qubits.reduce(
+      (index, q, k) =>
+        (bits >> (qubits.length - 1 - k)) & 1
+          ? index | (1 << (n - 1 - q))
+          : index,
+      0
+    );
+  return {
+    keptSize: 2 ** keep.length,
+    tracedSize: 2 ** traced.length,
+    index: (kept: number, rest: number) =>
+      spread(keep, kept) | spread(traced, rest),
+  };
+}
+
+/**
+ * Partial trace of an n-qubit density matrix, keeping the given qubits
+ * (0 = most significant bit of the basis index). The kept qubits appear in
+ * the result in the order listed.
+ *
+ * @param rho - 2^n x 2^n density matrix
+ * @param keep - Qubits to keep
+ * @returns 2^k x 2^k reduced density matrix
+ */
+export function partialTrace(rho: Complex[][], keep: number[]): Complex[][] {
+  const n = qubitsForDimension(rho.length);
+  checkQubits(keep, n);
+  const { keptSize, tracedSize, index } = indexer(n, keep);
+
+  const result = zeroMatrix(keptSize);
+  for (let a = 0; a < keptSize; a++) {
+    for (let b = 0; b < keptSize; b++) {
+      for (let t = 0; t < tracedSize; t++) {
+        result[a][b] = complexAdd(result[a][b], rho[index(a, t)][index(b, t)]);
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * Normalized reduced density matrix of some qubits of a state. State
+ * vectors are reduced directly, without forming the full density matrix.
+ */
+function reduce(state: MultiQubitState, qubits: number[]): Complex[][] {
+  const n = qubitCount(state);
+  checkQubits(qubits, n);
+  const keep = state.littleEndian ? qubits.map((q) => n - 1 - q) : qubits;
+
+  let reduced: Complex[][];
+  if (state.type === 'densityMatrix') {
+    reduced = partialTrace(state.matrix, keep);
+  } else {
+    // ρ_A[a][b] = Σ_t ψ(a, t) ψ(b, t)*
+    const { keptSize, tracedSize, index } = indexer(n, keep);
+    const psi = state.amplitudes;
+    reduced = zeroMatrix(keptSize);
+    for (let a = 0; a < keptSize; a++) {
+      for (let b = 0; b < keptSize; b++) {
+        for (let t = 0; t < tracedSize; t++) {
+          reduced[a][b] = complexAdd(
+            reduced[a][b],
+            complexMul(psi[index(a, t)], complexConj(psi[index(b, t)]))
+          );
+        }
+      }
+    }
+  }
+
+  const trace = reduced.reduce((sum, row, i) => sum + row[i].real, 0);
+  if (trace <= 0) throw new Error('State has zero norm');
+  return reduced.map((row) =>
+    row.map((entry) => complexScale(entry, 1 / trace))
+  );
+}
+
+/**
+ * Reduced density matrix of one qubit (partial trace over all others)
+ *
+ * @param state - Multi-qubit state
+ * @param qubit - Qubit index
+ * @returns 2x2 density matrix
+ */
+export function reducedDensityMatrix(
+  state: MultiQubitState,
+  qubit: number
+): DensityMatrix {
+  return reduce(state, [qubit]) as DensityMatrix;
+}
+
+/**
+ * Reduced state of every qubit, for one BlochSphere each. Entangled
+ * qubits are mixed, so their Bloch vectors are shorter than 1.
+ *
+ * @param state - Multi-qubit state
+ * @returns One density-matrix state per qubit
+ */
+export function reducedStates(state: MultiQubitState): QuantumState[] {
+  return Array.from({ length: qubitCount(state) }, (_, q) => ({
+    type: 'densityMatrix',
+    matrix: reducedDensityMatrix(state, q),
+  }));
+}
+
+/**
+ * Von Neumann entropy of the reduced state of some qubits. For a pure
+ * state this is the entanglement entropy between them and the rest.
+ *
+ * @param state - Multi-qubit state
+ * @param qubits - Qubit or qubits of the subsystem
+ * @param base - Logarithm base (default: 2, entropy in bits)
+ */
+export function entanglementEntropy(
+  state: MultiQubitState,
+  qubits: number | number[],
+  base = 2
+): number {
+  const eigenvalues = hermitianEigenvalues(
+    reduce(state, Array.isArray(qubits) ? qubits : [qubits])
+  );
+  return eigenvalues.reduce(
+    (entropy, p) =>
+      p > 1e-12 ? entropy - (p * Math.log(p)) / Math.log(base) : entropy,
+    0
+  );
+}
+
+function multiply(a: Complex[][], b: Complex[][]): Complex[][] {
+  return a.map((row) =>
+    b[0].map((_, j) =>
+      row.reduce(
+        (sum, entry, k) => complexAdd(sum, complexMul(entry, b[k][j])),
+        { real: 0, imag: 0 }
+      )
+    )
+  );
+}
+
+/**
+ * Wootters concurrence of the reduced state of two qubits:
+ * C = max(0, λ1 - λ2 - λ3 - λ4), with λ the decreasing square roots of
+ * the eigenvalues of √ρ ρ̃ √ρ and ρ̃ = (Y⊗Y) ρ* (Y⊗Y).
+ * 0 for separable pairs, 1 for Bell states.
+ *
+ * @param state - Multi-qubit state
+ * @param a - First qubit
+ * @param b - Second qubit
+ */
+export function concurrence(
+  state: MultiQubitState,
+  a: number,
+  b: number
+): number {
+  const rho = reduce(state, [a, b]);
+  // (Y⊗Y) is anti-diagonal with signs (-1, 1, 1, -1)
+  const sign = [-1, 1, 1, -1];
+  const flipped = rho.map((row, i) =>
+    row.map((_, j) =>
+      complexScale(complexConj(rho[3 - i][3 - j]), sign[i] * sign[j])
+    )
+  );
+  const root = hermitianFunction(rho, (x) => Math.sqrt(Math.max(0, x)));
+  const lambdas = hermitianEigenvalues(multiply(multiply(root, flipped), root))
+    .map((x) => Math.sqrt(Math.max(0, x)))
+    .sort((x, y) => y - x);
+  return Math.max(0, lambdas[0] - lambdas[1] - lambdas[2] - lambdas[3]);
+}
+
+/**
+ * Reduced Bloch vector, purity and entropy of every qubit, and the
+ * concurrence of every pair of qubits
+ *
+ * @param state - Multi-qubit state
+ */
+export function analyzeEntanglement(
+  state: MultiQubitState
+): EntanglementSummary {
+  const n = qubitCount(state);
+  const qubits = reducedStates(state).map((reduced) => ({
+    state: reduced,
+    spherical: quantumStateToSpherical(reduced),
+    purity: purity(reduced),
+    entropy: vonNeumannEntropy(reduced),
+  }));
+
+  const pairs: EntanglementSummary['pairs'] = [];
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      pairs.push({ qubits: [i, j], concurrence: concurrence(state, i, j) });
+    }
+  }
+  return { qubits, pairs };
+}
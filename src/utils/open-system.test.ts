@@ -0,0 +1,145 @@
+import { describe, it, expect } from 'vitest';
+import {
+  relaxationRates,
+  thermalState,
+  evolveBlochEquations,
+  relaxationCollapseOperators,
+  lindbladDerivative,
+  evolveDensityMatrix,
+} from './open-system';
+import {
+  blochVectorToDensityMatrix,
+  densityMatrixToBlochVector,
+} from './quantum-math';
+import type { ComplexMatrix2x2 } from '../types';
+
+describe('open-system', () => {
+  describe('relaxationRates', () => {
+    it('defaults to no relaxation', () => {
+      expect(relaxationRates({})).toEqual({
+        gamma1: 0,
+        gamma2: 0,
+        gammaPhi: 0,
+      });
+    });
+
+    it('caps T2 at 2*T1', () => {
+      const { gamma2, gammaPhi } = relaxationRates({ T1: 1, T2: 10 });
+      expect(gamma2).toBeCloseTo(0.5);
+      expect(gammaPhi).toBeCloseTo(0);
+    });
+  });
+
+  describe('evolveBlochEquations', () => {
+    it('decays |1> towards |0> with T1', () => {
+      const T1 = 2;
+      const t = 1.5;
+      const result = evolveBlochEquations(
+        { x: 0, y: 0, z: -1 },
+        {},
+        { T1 },
+        0,
+        t
+      );
+      // z(t) = 1 - 2 * exp(-t/T1)
+      expect(result.z).toBeCloseTo(1 - 2 * Math.exp(-t / T1), 5);
+    });
+
+    it('dephases coherences with T2', () => {
+      const T2 = 0.5;
+      const t = 0.3;
+      const result = evolveBlochEquations(
+        { x: 1, y: 0, z: 0 },
+        {},
+        { T2 },
+        0,
+        t
+      );
+      expect(result.x).toBeCloseTo(Math.exp(-t / T2), 5);
+      expect(result.z).toBeCloseTo(0);
+    });
+
+    it('spirals into the thermal state', () => {
+      const relaxation = { T1: 1, T2: 0.8, excitedPopulation: 0.2 };
+      const result = evolveBlochEquations(
+        { x: 1, y: 0, z: 0 },
+        { z: 3 },
+        relaxation,
+        0,
+        20,
+        0.01
+      );
+      const thermal = thermalState(relaxation);
+      expect(result.x).toBeCloseTo(0);
+      expect(result.y).toBeCloseTo(0);
+      expect(result.z).toBeCloseTo(thermal.z);
+    });
+  });
+
+  describe('lindbladDerivative', () => {
+    it('keeps the trace constant', () => {
+      const rho = blochVectorToDensityMatrix({ x: 0.3, y: -0.2, z: 0.5 });
+      const d = lindbladDerivative(
+        rho,
+        { x: 1, z: 0.5 },
+        relaxationCollapseOperators({ T1: 1, T2: 1 })
+      );
+      expect(d[0][0].real + d[1][1].real).toBeCloseTo(0);
+    });
+  });
+
+  describe('evolveDensityMatrix', () => {
+    it('matches the Bloch equations for T1/T2 relaxation', () => {
+      const relaxation = { T1: 1.2, T2: 0.7, excitedPopulation: 0.1 };
+      const hamiltonian = { x: 0.4, z: 1 };
+      const start = { x: 0, y: 0.6, z: 0.8 };
+
+      const fromBloch = evolveBlochEquations(
+        start,
+        hamiltonian,
+        relaxation,
+        0,
+        2
+      );
+      const fromLindblad = densityMatrixToBlochVector(
+        evolveDensityMatrix(
+          blochVectorToDensityMatrix(start),
+          hamiltonian,
+          relaxationCollapseOperators(relaxation),
+          0,
+          2
+        )
+      );
+
+      expect(fromLindblad.x).toBeCloseTo(fromBloch.x, 5);
+      expect(fromLindblad.y).toBeCloseTo(fromBloch.y, 5);
+      expect(fromLindblad.z).toBeCloseTo(fromBloch.z, 5);
+    });
+
+    it('supports custom collapse operators', () => {
+      // Bit-flip noise: L = sqrt(gamma) X drives z towards 0
+      const gamma = 0.5;
+      const L: ComplexMatrix2x2 = [
+        [
+          { real: 0, imag: 0 },
+          { real: Math.sqrt(gamma), imag: 0 },
+        ],
+        [
+          { real: Math.sqrt(gamma), imag: 0 },
+          { real: 0, imag: 0 },
+        ],
+      ];
+      const rho = evolveDensityMatrix(
+        blochVectorToDensityMatrix({ x: 0, y: 0, z: 1 }),
+        {},
+        [L],
+        0,
+        1
+      );
+      expect(densityMatrixToBlochVector(rho).z).toBeCloseTo(
+        Math.exp(-2 * gamma),
+        5
+      );
+    });
+  });
+});
@@ -0,0 +1,234 @@
+import type {
+  CartesianCoordinates,
+  ComplexMatrix2x2,
+  DensityMatrix,
+  Hamiltonian,
+  PauliHamiltonian,
+  RelaxationParameters,
+} from '../types';
+import {
+  complex,
+  matrixAdd,
+  matrixAdjoint,
+  matrixMultiply,
+  matrixScale,
+} from './complex';
+import { hamiltonianAt, hamiltonianField } from './time-evolution';
+
+/**
+ * Relaxation rates derived from T1/T2.
+ * gamma2 is capped below by gamma1/2 (T2 <= 2*T1), so the pure dephasing
+ * rate gammaPhi = gamma2 - gamma1/2 is never negative.
+ */
+export function relaxationRates({ T1, T2 }: RelaxationParameters): {
+  gamma1: number;
+  gamma2: number;
+  gammaPhi: number;
+} {
+  const gamma1 = T1 ? 1 / T1 : 0;
+  const gamma2 = Math.max(T2 ? 1 / T2 : 0, gamma1 / 2);
+  return { gamma1, gamma2, gammaPhi: gamma2 - gamma1 / 2 };
+}
+
+/**
+ * Bloch vector of the thermal (steady) state: (0, 0, 1 - 2p)
+ */
+export function thermalState({
+  excitedPopulation = 0,
+}: RelaxationParameters): CartesianCoordinates {
+  return { x: 0, y: 0, z: 1 - 2 * excitedPopulation };
+}
+
+/**
+ * Right-hand side of the Bloch equations:
+ * dr/dt = omega x r - (x/T2, y/T2, (z - z0)/T1)
+ */
+export function blochEquationsDerivative(
+  vector: CartesianCoordinates,
+  field: CartesianCoordinates,
+  relaxation: RelaxationParameters
+): CartesianCoordinates {
+  const { gamma1, gamma2 } = relaxationRates(relaxation);
+  const z0 = thermalState(relaxation).z;
+  return {
+    x: field.y * vector.z - field.z * vector.y - gamma2 * vector.x,
+    y: field.z * vector.x - field.x * vector.z - gamma2 * vector.y,
+    z: field.x * vector.y - field.y * vector.x - gamma1 * (vector.z - z0),
+  };
+}
+
+/**
+ * Integrate the Bloch equations from t to t + dt (RK4, steps <= maxStep).
+ * The vector spirals towards the thermal state.
+ */
+export function evolveBlochEquations(
+  vector: CartesianCoordinates,
+  hamiltonian: Hamiltonian,
+  relaxation: RelaxationParameters,
+  t: number,
+  dt: number,
+  maxStep = 0.01
+): CartesianCoordinates {
+  const derivative = (r: CartesianCoordinates, time: number) =>
+    blochEquationsDerivative(
+      r,
+      hamiltonianField(hamiltonianAt(hamiltonian, time)),
+      relaxation
+    );
+  const add = (
+    a: CartesianCoordinates,
+    b: CartesianCoordinates,
+    scale: number
+  ) => ({
+    x: a.x + scale * b.x,
+    y: a.y + scale * b.y,
+    z: a.z + scale * b.z,
+  });
+
+  const steps = Math.max(1, Math.ceil(Math.abs(dt) / maxStep));
+  const h = dt / steps;
+
+  let r = vector;
+  for (let i = 0; i < steps; i++) {
+    const time = t + i * h;
+    const k1 = derivative(r, time);
+    const k2 = derivative(add(r, k1, h / 2), time + h / 2);
+    const k3 = derivative(add(r, k2, h / 2), time + h / 2);
+    const k4 = derivative(add(r, k3, h), time + h);
+    r = {
+      x: r.x + (h / 6) * (k1.x + 2 * k2.x + 2 * k3.x + k4.x),
+      y: r.y + (h / 6) * (k1.y + 2 * k2.y + 2 * k3.y + k4.y),
+      z: r.z + (h / 6) * (k1.z + 2 * k2.z + 2 * k3.z + k4.z),
+    };
+  }
+  return r;
+}
+
+/**
+ * Matrix form of a Pauli Hamiltonian: [[z, x - iy], [x + iy, -z]]
+ */
+export function hamiltonianMatrix(h: PauliHamiltonian): ComplexMatrix2x2 {
+  const x = h.x ?? 0;
+  const y = h.y ?? 0;
+  const z = h.z ?? 0;
+  return [
+    [complex(z), complex(x, -y)],
+    [complex(x, y), complex(-z)],
+  ];
+}
+
+/**
+ * Lowering operator |0><1| (decay from |1> to |0>)
+ */
+export const sigmaMinus: ComplexMatrix2x2 = [
+  [complex(0), complex(1)],
+  [complex(0), complex(0)],
+];
+
+/**
+ * Raising operator |1><0| (thermal excitation)
+ */
+export const sigmaPlus: ComplexMatrix2x2 = [
+  [complex(0), complex(0)],
+  [complex(1), complex(0)],
+];
+
+/**
+ * Collapse operators equivalent to the given T1/T2 relaxation:
+ * sqrt(gamma1*(1-p)) sigma-, sqrt(gamma1*p) sigma+ and sqrt(gammaPhi/2) Z
+ */
+export function relaxationCollapseOperators(
+  relaxation: RelaxationParameters
+): ComplexMatrix2x2[] {
+  const { gamma1, gammaPhi } = relaxationRates(relaxation);
+  const p = relaxation.excitedPopulation ?? 0;
+  const operators: ComplexMatrix2x2[] = [];
+
+  if (gamma1 * (1 - p) > 0) {
+    operators.push(
+      matrixScale(sigmaMinus, complex(Math.sqrt(gamma1 * (1 - p))))
+    );
+  }
+  if (gamma1 * p > 0) {
+    operators.push(matrixScale(sigmaPlus, complex(Math.sqrt(gamma1 * p))));
+  }
+  if (gammaPhi > 0) {
+    operators.push(
+      matrixScale(hamiltonianMatrix({ z: 1 }), complex(Math.sqrt(gammaPhi / 2)))
+    );
+  }
+  return operators;
+}
+
+/**
+ * Right-hand side of the Lindblad master equation:
+ * drho/dt = -i[H, rho] + sum_k (L rho L^dagger - {L^dagger L, rho} / 2)
+ */
+export function lindbladDerivative(
+  rho: DensityMatrix,
+  h: PauliHamiltonian,
+  collapseOperators: ComplexMatrix2x2[]
+): DensityMatrix {
+  const H = hamiltonianMatrix(h);
+  const commutator = matrixAdd(
+    matrixMultiply(H, rho),
+    matrixScale(matrixMultiply(rho, H), complex(-1))
+  );
+  let result = matrixScale(commutator, complex(0, -1));
+
+  for (const L of collapseOperators) {
+    const Ldag = matrixAdjoint(L);
+    const LdagL = matrixMultiply(Ldag, L);
+    const anticommutator = matrixAdd(
+      matrixMultiply(LdagL, rho),
+      matrixMultiply(rho, LdagL)
+    );
+    result = matrixAdd(
+      result,
+      matrixAdd(
+        matrixMultiply(matrixMultiply(L, rho), Ldag),
+        matrixScale(anticommutator, complex(-0.5))
+      )
+    );
+  }
+  return result;
+}
+
+/**
+ * Integrate the Lindblad master equation from t to t + dt
+ * (RK4, steps <= maxStep)
+ */
+export function evolveDensityMatrix(
+  rho: DensityMatrix,
+  hamiltonian: Hamiltonian,
+  collapseOperators: ComplexMatrix2x2[],
+  t: number,
+  dt: number,
+  maxStep = 0.01
+): DensityMatrix {
+  const derivative = (m: DensityMatrix, time: number) =>
+    lindbladDerivative(m, hamiltonianAt(hamiltonian, time), collapseOperators);
+  const step = (m: DensityMatrix, k: DensityMatrix, scale: number) =>
+    matrixAdd(m, matrixScale(k, complex(scale)));
+
+  const steps = Math.max(1, Math.ceil(Math.abs(dt) / maxStep));
+  const h = dt / steps;
+
+  let result = rho;
+  for (let i = 0; i < steps; i++) {
+    const time = t + i * h;
+    const k1 = derivative(result, time);
+    const k2 = derivative(step(result, k1, h / 2), time + h / 2);
+    const k3 = derivative(step(result, k2, h / 2), time + h / 2);
+    const k4 = derivative(step(result, k3, h), time + h);
+    result = step(
+      result,
+      matrixAdd(
+        matrixAdd(k1, matrixScale(k2, complex(2))),
+        matrixAdd(matrixScale(k3, complex(2)), k4)
+      ),
+      h / 6
+    );
+  }
+  return result;
+}
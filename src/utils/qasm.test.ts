@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest';
+import { evaluateQasmExpression, parseQasm, QasmError } from './qasm';
+import { amplitudesToSpherical } from './quantum-math';
+
+function expectQasmError(source: string, line: number, message: RegExp) {
+  try {
+    parseQasm(source);
+  } catch (error) {
+    expect(error).toBeInstanceOf(QasmError);
+    expect((error as QasmError).line).toBe(line);
+    expect((error as QasmError).message).toMatch(message);
+    return;
+  }
+  throw new Error('Expected a QasmError');
+}
+
+describe('qasm', () => {
+  describe('evaluateQasmExpression', () => {
+    it('evaluates pi expressions', () => {
+      expect(evaluateQasmExpression('pi/4')).toBeCloseTo(Math.PI / 4);
+      expect(evaluateQasmExpression('-3*pi/4')).toBeCloseTo((-3 * Math.PI) / 4);
+      expect(evaluateQasmExpression('2*(pi - 1)')).toBeCloseTo(
+        2 * (Math.PI - 1)
+      );
+      expect(evaluateQasmExpression('π/2')).toBeCloseTo(Math.PI / 2);
+    });
+
+    it('supports powers, functions and scientific notation', () => {
+      expect(evaluateQasmExpression('2^3^2')).toBe(512);
+      expect(evaluateQasmExpression('2**0.5')).toBeCloseTo(Math.SQRT2);
+      expect(evaluateQasmExpression('-2^2')).toBe(-4);
+      expect(evaluateQasmExpression('sqrt(2)*cos(pi/4)')).toBeCloseTo(1);
+      expect(evaluateQasmExpression('1.5e-1')).toBeCloseTo(0.15);
+    });
+
+    it('rejects malformed expressions', () => {
+      expect(() => evaluateQasmExpression('pi/', 7)).toThrow(/Line 7/);
+      expect(() => evaluateQasmExpression('theta')).toThrow(QasmError);
+      expect(() => evaluateQasmExpression('(pi')).toThrow(QasmError);
+    });
+  });
+
+  describe('parseQasm', () => {
+    it('parses an OpenQASM 2.0 program', () => {
+      const program = parseQasm(`OPENQASM 2.0;
+include "qelib1.inc";
+qreg q[1];
+creg c[1];
+h q[0];
+rz(pi/2) q[0];
+measure q[0] -> c[0];`);
+
+      expect(program.version).toBe('2.0');
+      expect(program.gates.map((gate) => gate.name)).toEqual(['H', 'Rz']);
+      expect(program.measurements).toEqual([
+        { line: 7, qubit: 'q[0]', bit: 'c[0]' },
+      ]);
+
+      // H then Rz(pi/2) takes |0> to |+i>
+      const coords = amplitudesToSpherical(program.amplitudes);
+      expect(coords.theta).toBeCloseTo(Math.PI / 2);
+      expect(coords.phi).toBeCloseTo(Math.PI / 2);
+    });
+
+    it('parses OpenQASM 3 declarations and measurement syntax', () => {
+      const program = parseQasm(`OPENQASM 3;
+include "stdgates.inc";
+qubit[1] q;
+bit[1] c;
+x q[0];
+sx q[0];
+c[0] = measure q[0];`);
+
+      expect(program.version).toBe('3');
+      expect(program.gates).toHaveLength(2);
+      expect(program.measurements[0].bit).toBe('c[0]');
+    });
+
+    it('applies u3 like the gate library', () => {
+      const { amplitudes } = parseQasm('qreg q[1]; u3(pi/3, pi/5, 0) q[0];');
+      const coords = amplitudesToSpherical(amplitudes);
+      expect(coords.theta).toBeCloseTo(Math.PI / 3);
+      expect(coords.phi).toBeCloseTo(Math.PI / 5);
+    });
+
+    it('ignores comments, barriers and whitespace', () => {
+      const program = parseQasm(`// Bell? No, just one qubit
+qubit q;
+/* a block
+   comment */
+h q;   barrier q;
+h
+  q;`);
+      expect(program.version).toBeNull();
+      expect(program.gates).toHaveLength(2);
+      expect(program.amplitudes.alpha.real).toBeCloseTo(1);
+      expect(program.amplitudes.beta.real).toBeCloseTo(0);
+    });
+
+    it('reports gates on other qubits with their line', () => {
+      expectQasmError(
+        'OPENQASM 2.0;\nqreg q[2];\nh q[0];\nx q[1];',
+        4,
+        /q\[1\]/
+      );
+    });
+
+    it('reports multi-qubit gates', () => {
+      expectQasmError('qreg q[2];\n\ncx q[0], q[1];', 3, /multi-qubit/);
+    });
+
+    it('reports unknown gates and wrong parameter counts', () => {
+      expectQasmError('qreg q[1];\nfoo q[0];', 2, /Unknown gate 'foo'/);
+      expectQasmError('qreg q[1];\nrx q[0];', 2, /takes 1 parameter/);
+      expectQasmError('qreg q[1];\nh(pi) q[0];', 2, /takes 0 parameter/);
+    });
+
+    it('reports unsupported constructs', () => {
+      expectQasmError('qreg q[1];\nreset q[0];', 2, /'reset' is not supported/);
+      expectQasmError('qreg q[1];\ngate g a { h a; }', 2, /Blocks/);
+      expectQasmError('qreg q[1];\nh q[0]', 2, /Missing ';'/);
+      expectQasmError('h q[0];', 1, /before any qubit/);
+      expectQasmError('qreg q[1];\nrx(pi/) q[0];', 2, /Incomplete expression/);
+      expectQasmError('OPENQASM 4.0;', 1, /version/);
+    });
+
+    it('rejects gates after measurement', () => {
+      expectQasmError(
+        'qreg q[1];\ncreg c[1];\nmeasure q[0] -> c[0];\nh q[0];',
+        4,
+        /after measurement \(line 3\)/
+      );
+    });
+  });
+});
@@ -0,0 +1,520 @@
+import type {
+  ComplexAmplitude,
+  Gate,
+  QasmMeasurement,
+  QasmProgram,
+} from '../types';
+import { complex } from './complex';
+import {
+  applyGate,
+  commonGates,
+  inverseGate,
+  phase,
+  rx,
+  ry,
+  rz,
+  u3,
+} from './gates';
+
+/**
+ * Error raised for invalid or unsupported OpenQASM input.
+ * `line` is the 1-based line of the offending statement.
+ */
+export class QasmError extends Error {
+  readonly line: number;
+
+  constructor(message: string, line: number) {
+    super(`Line ${line}: ${message}`);
+    this.name = 'QasmError';
+    this.line = line;
+  }
+}
+
+/** sqrt(X) */
+const sx: Gate = {
+  name: 'SX',
+  matrix: [
+    [complex(0.5, 0.5), complex(0.5, -0.5)],
+    [complex(0.5, -0.5), complex(0.5, 0.5)],
+  ],
+};
+
+interface GateDefinition {
+  params: number;
+  build: (params: number[]) => Gate;
+}
+
+const fixed = (gate: Gate): GateDefinition => ({
+  params: 0,
+  build: () => gate,
+});
+
+/** Single-qubit gates of qelib1.inc / stdgates.inc */
+const gateDefinitions: Record<string, GateDefinition> = {
+  id: fixed(commonGates.I),
+  x: fixed(commonGates.X),
+  y: fixed(commonGates.Y),
+  z: fixed(commonGates.Z),
+  h: fixed(commonGates.H),
+  s: fixed(commonGates.S),
+  sdg: fixed(commonGates.Sdg),
+  t: fixed(commonGates.T),
+  tdg: fixed(commonGates.Tdg),
+  sx: fixed(sx),
+  sxdg: fixed(inverseGate(sx)),
+  rx: { params: 1, build: ([theta]) => rx(theta) },
+  ry: { params: 1, build: ([theta]) => ry(theta) },
+  rz: { params: 1, build: ([theta]) => rz(theta) },
+  p: { params: 1, build: ([lambda]) => phase(lambda) },
+  phase: { params: 1, build: ([lambda]) => phase(lambda) },
+  u1: { params: 1, build: ([lambda]) => phase(lambda) },
+  u2: { params: 2, build: ([phi, lambda]) => u3(Math.PI / 2, phi, lambda) },
+  u3: { params: 3, build: ([theta, phi, lambda]) => u3(theta, phi, lambda) },
+  u: { params: 3, build: ([theta, phi, lambda]) => u3(theta, phi, lambda) },
+  U: { params: 3, build: ([theta, phi, lambda]) => u3(theta, phi, lambda) },
+};
+
+/** Multi-qubit gates, reported as such rather than as unknown gates */
+const multiQubitGates = new Set([
+  'cx',
+  'CX',
+  'cy',
+  'cz',
+  'ch',
+  'cp',
+  'cphase',
+  'crx',
+  'cry',
+  'crz',
+  'cu',
+  'cu1',
+  'cu3',
+  'csx',
+  'swap',
+  'ccx',
+  'cswap',
+  'rxx',
+  'ryy',
+  'rzz',
+]);
+
+/** Statements that are valid OpenQASM but have no single-qubit meaning here */
+const unsupportedKeywords = new Set([
+  'gate',
+  'opaque',
+  'def',
+  'defcal',
+  'cal',
+  'if',
+  'else',
+  'for',
+  'while',
+  'reset',
+  'delay',
+  'box',
+  'let',
+  'input',
+  'output',
+  'const',
+  'ctrl',
+  'inv',
+  'pow',
+  'negctrl',
+]);
+
+const functions: Record<string, (x: number) => number> = {
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  arcsin: Math.asin,
+  arccos: Math.acos,
+  arctan: Math.atan,
+  asin: Math.asin,
+  acos: Math.acos,
+  atan: Math.atan,
+  exp: Math.exp,
+  ln: Math.log,
+  log: Math.log,
+  sqrt: Math.sqrt,
+};
+
+const constants: Record<string, number> = {
+  pi: Math.PI,
+  π: Math.PI,
+  tau: 2 * Math.PI,
+  τ: 2 * Math.PI,
+  euler: Math.E,
+  ℇ: Math.E,
+};
+
+/**
+ * Evaluate a classical parameter expression such as `-3*pi/4` or `2^0.5`.
+ * Supports + - * / ^ ** (right-associative), parentheses, `pi`, `tau`,
+ * `euler` and the functions sin, cos, tan, exp, ln and sqrt.
+ *
+ * @param line - Line number used in error messages
+ */
+export function evaluateQasmExpression(source: string, line = 1): number {
+  const tokens =
+    source.match(
+      /\d+\.?\d*(?:[eE][+-]?\d+)?|\.\d+(?:[eE][+-]?\d+)?|\*\*|[A-Za-z_πτℇ][\wπτℇ]*|\S/gu
+    ) ?? [];
+  let position = 0;
+
+  const fail = (message: string): never => {
+    throw new QasmError(message, line);
+  };
+  const peek = () => tokens[position];
+  const next = () => tokens[position++];
+  const expect = (token: string) => {
+    if (next() !== token) fail(`Expected '${token}' in expression '${source}'`);
+  };
+
+  const parseAdditive = (): number => {
+    let value = parseMultiplicative();
+    while (peek() === '+' || peek() === '-') {
+      const operator = next();
+      const right = parseMultiplicative();
+      value = operator === '+' ? value + right : value - right;
+    }
+    return value;
+  };
+
+  const parseMultiplicative = (): number => {
+    let value = parseUnary();
+    while (peek() === '*' || peek() === '/') {
+      const operator = next();
+      const right = parseUnary();
+      value = operator === '*' ? value * right : value / right;
+    }
+    return value;
+  };
+
+  const parseUnary = (): number => {
+    if (peek() === '-') {
+      next();
+      return -parseUnary();
+    }
+    if (peek() === '+') {
+      next();
+      return parseUnary();
+    }
+    return parsePower();
+  };
+
+  const parsePower = (): number => {
+    const base = parsePrimary();
+    if (peek() === '^' || peek() === '**') {
+      next();
+      return base ** parseUnary();
+    }
+    return base;
+  };
+
+  const parsePrimary = (): number => {
+    const token = next();
+    if (token === undefined) return fail(`Incomplete expression '${source}'`);
+    if (token === '(') {
+      const value = parseAdditive();
+      expect(')');
+      return value;
+    }
+    if (/^[\d.]/.test(token)) return Number(token);
+    if (token in constants) return constants[token];
+    if (token in functions) {
+      expect('(');
+      const value = parseAdditive();
+      expect(')');
+      return functions[token](value);
+    }
+    return fail(`Unexpected '${token}' in expression '${source}'`);
+  };
+
+  const value = parseAdditive();
+  if (position < tokens.length) {
+    fail(`Unexpected '${tokens[position]}' in expression '${source}'`);
+  }
+  return value;
+}
+
+interface Statement {
+  text: string;
+  line: number;
+}
+
+/**
+ * Split source into ';'-terminated statements, dropping comments while
+ * keeping track of the line each statement starts on
+ */
+function splitStatements(source: string): Statement[] {
+  const code = source
+    .replace(/\/\*[\s\S]*?\*\//g, (comment) => comment.replace(/[^\n]/g, ' '))
+    .replace(/\/\/[^\n]*/g, '');
+
+  const statements: Statement[] = [];
+  let text = '';
+  let line = 1;
+  let startLine = 1;
+
+  for (const char of code) {
+    if (text.trim() === '') startLine = line;
+    if (char === '{' || char === '}') {
+      throw new QasmError(
+        'Blocks ({ ... }) are not supported; inline the gates instead',
+        line
+      );
+    }
+    if (char === ';') {
+      statements.push({
+        text: text.trim().replace(/\s+/g, ' '),
+        line: startLine,
+      });
+      text = '';
+    } else {
+      text += char;
+    }
+    if (char === '\n') line++;
+  }
+
+  if (text.trim() !== '') {
+    throw new QasmError(`Missing ';' after '${text.trim()}'`, startLine);
+  }
+  return statements;
+}
+
+/**
+ * Parse a single-qubit OpenQASM 2.0 or 3 program.
+ *
+ * Gates from the standard libraries (`h`, `rz(pi/4)`, `u3(...)`, `sx`, ...)
+ * are applied to |0⟩ in order; `measure` statements are recorded, and must
+ * come after the last gate. `barrier` and `include` are ignored. Anything
+ * acting on a qubit other than the first declared one, multi-qubit gates
+ * and unsupported constructs throw a QasmError with the line number.
+ *
+ * @param source - Program text
+ * @returns Gate sequence, measurements and the final amplitudes
+ */
+export function parseQasm(source: string): QasmProgram {
+  let version: string | null = null;
+  const quantumRegisters = new Map<string, number>();
+  const classicalRegisters = new Map<string, number>();
+  let target: string | null = null;
+  const gates: Gate[] = [];
+  const measurements: QasmMeasurement[] = [];
+
+  // Resolve `q[0]` / `q` to the single supported qubit
+  const resolveQubit = (operand: string, line: number): string => {
+    const match = operand.match(/^([A-Za-z_]\w*)(?: ?\[ ?(\d+) ?\])?$/);
+    if (!match) throw new QasmError(`Invalid qubit '${operand}'`, line);
+    const [, name, index] = match;
+    const size = quantumRegisters.get(name);
+    if (size === undefined) {
+      throw new QasmError(`Unknown quantum register '${name}'`, line);
+    }
+    if (index === undefined && size !== 1) {
+      throw new QasmError(
+        `Register '${name}' has ${size} qubits; address a single qubit like ${name}[0]`,
+        line
+      );
+    }
+    const i = Number(index ?? 0);
+    if (i >= size) {
+      throw new QasmError(
+        `Index ${i} is out of range for '${name}' (size ${size})`,
+        line
+      );
+    }
+    const qubit = `${name}[${i}]`;
+    if (qubit !== target) {
+      throw new QasmError(
+        `Operation on ${qubit}: only single-qubit programs on ${target} are supported`,
+        line
+      );
+    }
+    return qubit;
+  };
+
+  const declareQuantum = (name: string, size: number, line: number) => {
+    if (quantumRegisters.has(name) || classicalRegisters.has(name)) {
+      throw new QasmError(`'${name}' is already declared`, line);
+    }
+    if (size < 1) throw new QasmError(`Register '${name}' is empty`, line);
+    quantumRegisters.set(name, size);
+    target ??= `${name}[0]`;
+  };
+
+  const declareClassical = (name: string, size: number, line: number) => {
+    if (quantumRegisters.has(name) || classicalRegisters.has(name)) {
+      throw new QasmError(`'${name}' is already declared`, line);
+    }
+    classicalRegisters.set(name, size);
+  };
+
+  const recordMeasurement = (
+    qubit: string,
+    bit: string | null,
+    line: number
+  ) => {
+    if (bit !== null) {
+      const name = bit.match(/^([A-Za-z_]\w*)/)?.[1] ?? bit;
+      if (!classicalRegisters.has(name)) {
+        throw new QasmError(`Unknown classical register '${name}'`, line);
+      }
+    }
+    measurements.push({ line, qubit: resolveQubit(qubit, line), bit });
+  };
+
+  splitStatements(source).forEach(({ text, line }, index) => {
+    let match: RegExpMatchArray | null;
+
+    if ((match = text.match(/^OPENQASM (\S+)$/))) {
+      if (index !== 0) {
+        throw new QasmError('OPENQASM must be the first statement', line);
+      }
+      if (!/^[23](\.\d+)?$/.test(match[1])) {
+        throw new QasmError(`Unsupported OpenQASM version ${match[1]}`, line);
+      }
+      version = match[1];
+      return;
+    }
+    if (/^include ".*"$/.test(text)) return;
+
+    // Declarations (OpenQASM 2 and 3 forms)
+    if ((match = text.match(/^qreg ([A-Za-z_]\w*) ?\[ ?(\d+) ?\]$/))) {
+      declareQuantum(match[1], Number(match[2]), line);
+      return;
+    }
+    if ((match = text.match(/^qubit(?: ?\[ ?(\d+) ?\])? ([A-Za-z_]\w*)$/))) {
+      declareQuantum(match[2], Number(match[1] ?? 1), line);
+      return;
+    }
+    if ((match = text.match(/^creg ([A-Za-z_]\w*) ?\[ ?(\d+) ?\]$/))) {
+      declareClassical(match[1], Number(match[2]), line);
+      return;
+    }
+    if ((match = text.match(/^bit(?: ?\[ ?(\d+) ?\])? ([A-Za-z_]\w*)$/))) {
+      declareClassical(match[2], Number(match[1] ?? 1), line);
+      return;
+    }
+
+    // Measurement: `measure q[0] -> c[0]`, `c[0] = measure q[0]`, `measure q[0]`
+    if ((match = text.match(/^measure (.+?) ?-> ?(.+)$/))) {
+      recordMeasurement(match[1], match[2], line);
+      return;
+    }
+    if ((match = text.match(/^(.+?) ?= ?measure (.+)$/))) {
+      recordMeasurement(match[2], match[1], line);
+      return;
+    }
+    if ((match = text.match(/^measure (.+)$/))) {
+      recordMeasurement(match[1], null, line);
+      return;
+    }
+
+    if ((match = text.match(/^barrier\b(.*)$/))) {
+      match[1]
+        .split(',')
+        .map((operand) => operand.trim())
+        .filter(Boolean)
+        .forEach((operand) => resolveQubit(operand, line));
+      return;
+    }
+
+    // Gate application: name, optional (params), operands
+    const name = text.match(/^[A-Za-z_]\w*/)?.[0];
+    if (!name) throw new QasmError(`Cannot parse '${text}'`, line);
+    if (unsupportedKeywords.has(name)) {
+      throw new QasmError(`'${name}' is not supported`, line);
+    }
+    if (multiQubitGates.has(name)) {
+      throw new QasmError(
+        `'${name}' is a multi-qubit gate; only single-qubit programs are supported`,
+        line
+      );
+    }
+    const definition = gateDefinitions[name];
+    if (!definition) throw new QasmError(`Unknown gate '${name}'`, line);
+    if (quantumRegisters.size === 0) {
+      throw new QasmError(
+        `'${name}' is used before any qubit is declared`,
+        line
+      );
+    }
+
+    let rest = text.slice(name.length).trim();
+    let params: number[] = [];
+    if (rest.startsWith('(')) {
+      let depth = 0;
+      let end = 0;
+      for (; end < rest.length; end++) {
+        if (rest[end] === '(') depth++;
+        if (rest[end] === ')' && --depth === 0) break;
+      }
+      if (depth !== 0)
+        throw new QasmError(`Unbalanced parentheses in '${text}'`, line);
+      const inner = rest.slice(1, end).trim();
+      params =
+        inner === ''
+          ? []
+          : splitTopLevel(inner).map((expression) =>
+              evaluateQasmExpression(expression, line)
+            );
+      rest = rest.slice(end + 1).trim();
+    }
+    if (params.length !== definition.params) {
+      throw new QasmError(
+        `'${name}' takes ${definition.params} parameter(s), got ${params.length}`,
+        line
+      );
+    }
+
+    const operands = rest
+      .split(',')
+      .map((operand) => operand.trim())
+      .filter(Boolean);
+    if (operands.length === 0) {
+      throw new QasmError(`'${name}' is missing its qubit operand`, line);
+    }
+    if (operands.length > 1) {
+      throw new QasmError(
+        `'${name}' is applied to ${operands.length} qubits; only single-qubit programs are supported`,
+        line
+      );
+    }
+    resolveQubit(operands[0], line);
+
+    if (measurements.length > 0) {
+      throw new QasmError(
+        `Gate after measurement (line ${measurements[0].line}) is not supported`,
+        line
+      );
+    }
+    gates.push(definition.build(params));
+  });
+
+  const amplitudes = gates.reduce<ComplexAmplitude>(
+    (state, gate) => applyGate(gate, state),
+    { alpha: complex(1), beta: complex(0) }
+  );
+
+  return { version, gates, measurements, amplitudes };
+}
+
+/** Split on commas that are not nested inside parentheses */
+function splitTopLevel(text: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of text) {
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    if (char === ',' && depth === 0) {
+      parts.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current.trim());
+  return parts;
+}
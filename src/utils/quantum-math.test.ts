@@ -4,8 +4,14 @@ import {
   sphericalToAmplitudes,
   sphericalToCartesian,
   cartesianToSpherical,
+  densityMatrixToBlochVector,
+  blochVectorToDensityMatrix,
+  quantumStateToSpherical,
   slerp,
+  lerpBlochVector,
   commonStates,
+  snapToCommonStates,
+  snapToGrid,
 } from './quantum-math';
 
 describe('quantum-math utilities', () => {
@@ -161,6 +167,101 @@ describe('quantum-math utilities', () => {
     });
   });
 
+  describe('densityMatrixToBlochVector', () => {
+    it('converts |0><0| to the north pole', () => {
+      const result = densityMatrixToBlochVector([
+        [
+          { real: 1, imag: 0 },
+          { real: 0, imag: 0 },
+        ],
+        [
+          { real: 0, imag: 0 },
+          { real: 0, imag: 0 },
+        ],
+      ]);
+      expect(result.x).toBeCloseTo(0);
+      expect(result.y).toBeCloseTo(0);
+      expect(result.z).toBeCloseTo(1);
+    });
+
+    it('converts the maximally mixed state to the origin', () => {
+      const result = densityMatrixToBlochVector([
+        [
+          { real: 0.5, imag: 0 },
+          { real: 0, imag: 0 },
+        ],
+        [
+          { real: 0, imag: 0 },
+          { real: 0.5, imag: 0 },
+        ],
+      ]);
+      expect(result.x).toBeCloseTo(0);
+      expect(result.y).toBeCloseTo(0);
+      expect(result.z).toBeCloseTo(0);
+    });
+
+    it('roundtrips with blochVectorToDensityMatrix', () => {
+      const original = { x: 0.3, y: -0.4, z: 0.5 };
+      const result = densityMatrixToBlochVector(
+        blochVectorToDensityMatrix(original)
+      );
+      expect(result.x).toBeCloseTo(original.x);
+      expect(result.y).toBeCloseTo(original.y);
+      expect(result.z).toBeCloseTo(original.z);
+    });
+
+    it('normalizes by the trace', () => {
+      const result = densityMatrixToBlochVector([
+        [
+          { real: 2, imag: 0 },
+          { real: 0, imag: 0 },
+        ],
+        [
+          { real: 0, imag: 0 },
+          { real: 0, imag: 0 },
+        ],
+      ]);
+      expect(result.z).toBeCloseTo(1);
+    });
+  });
+
+  describe('quantumStateToSpherical', () => {
+    it('keeps pure spherical states unchanged', () => {
+      const coords = { theta: Math.PI / 3, phi: Math.PI / 4 };
+      const result = quantumStateToSpherical({ type: 'spherical', coords });
+      expect(result).toBe(coords);
+    });
+
+    it('reports the radius of a Bloch vector', () => {
+      const result = quantumStateToSpherical({
+        type: 'blochVector',
+        vector: { x: 0.5, y: 0, z: 0 },
+      });
+      expect(result.theta).toBeCloseTo(Math.PI / 2);
+      expect(result.phi).toBeCloseTo(0);
+      expect(result.r).toBeCloseTo(0.5);
+    });
+
+    it('clamps Bloch vectors longer than 1', () => {
+      const result = quantumStateToSpherical({
+        type: 'blochVector',
+        vector: { x: 0, y: 0, z: -2 },
+      });
+      expect(result.theta).toBeCloseTo(Math.PI);
+      expect(result.r).toBeCloseTo(1);
+    });
+
+    it('reports the radius of a density matrix', () => {
+      const result = quantumStateToSpherical({
+        type: 'densityMatrix',
+        matrix: blochVectorToDensityMatrix({ x: 0, y: 0.25, z: 0 }),
+      });
+      expect(result.theta).toBeCloseTo(Math.PI / 2);
+      expect(result.phi).toBeCloseTo(Math.PI / 2);
+      expect(result.r).toBeCloseTo(0.25);
+    });
+  });
+
   describe('slerp', () => {
     it('returns start at t=0', () => {
       const start = { theta: 0, phi: 0 };
@@ -201,6 +302,42 @@ describe('quantum-math utilities', () => {
         expect(magnitude).toBeCloseTo(1);
       }
     });
+
+    it('stays on the sphere between antipodal points', () => {
+      const start = commonStates.plusI;
+      const end = commonStates.minusI;
+      for (let t = 0.1; t < 1; t += 0.2) {
+        const cart = sphericalToCartesian(slerp(start, end, t));
+        const magnitude = Math.sqrt(cart.x ** 2 + cart.y ** 2 + cart.z ** 2);
+        expect(magnitude).toBeCloseTo(1);
+      }
+      const mid = sphericalToCartesian(slerp(start, end, 0.5));
+      expect(mid.y).toBeCloseTo(0);
+    });
+
+    it('interpolates the Bloch vector length linearly', () => {
+      const start = { theta: 0, phi: 0, r: 1 };
+      const end = { theta: Math.PI / 2, phi: 0, r: 0.5 };
+      const result = slerp(start, end, 0.5);
+      expect(result.theta).toBeCloseTo(Math.PI / 4);
+      expect(result.r).toBeCloseTo(0.75);
+    });
+  });
+
+  describe('lerpBlochVector', () => {
+    it('moves through the ball in a straight line', () => {
+      const result = lerpBlochVector(commonStates.plus, commonStates.zero, 0.5);
+      const cart = sphericalToCartesian(result);
+      expect(cart.x).toBeCloseTo(0.5);
+      expect(cart.z).toBeCloseTo(0.5);
+      expect(result.r).toBeCloseTo(Math.SQRT1_2);
+    });
+
+    it('returns the exact end state at t=1', () => {
+      expect(lerpBlochVector(commonStates.plus, commonStates.one, 1)).toBe(
+        commonStates.one
+      );
+    });
   });
 
   describe('commonStates', () => {
@@ -234,4 +371,38 @@ describe('quantum-math utilities', () => {
       expect(cart.y).toBeCloseTo(-1);
     });
   });
+
+  describe('snapToCommonStates', () => {
+    it('snaps to a nearby common state', () => {
+      const result = snapToCommonStates({ theta: Math.PI / 2 + 0.05, phi: 0.05 });
+      expect(result).toEqual(commonStates.plus);
+    });
+
+    it('leaves distant states unchanged', () => {
+      const coords = { theta: Math.PI / 4, phi: Math.PI / 4 };
+      expect(snapToCommonStates(coords)).toBe(coords);
+    });
+
+    it('keeps the Bloch vector length', () => {
+      const result = snapToCommonStates({ theta: 0.01, phi: 0, r: 0.5 });
+      expect(result.theta).toBe(0);
+      expect(result.r).toBe(0.5);
+    });
+  });
+
+  describe('snapToGrid', () => {
+    it('rounds theta and phi to the grid', () => {
+      const step = Math.PI / 8;
+      const result = snapToGrid({ theta: 0.42, phi: 1.2 }, { theta: step, phi: step });
+      expect(result.theta).toBeCloseTo(Math.PI / 8);
+      expect(result.phi).toBeCloseTo((3 * Math.PI) / 8);
+    });
+
+    it('wraps phi into [0, 2*PI)', () => {
+      const step = Math.PI / 4;
+      const result = snapToGrid({ theta: 1, phi: 2 * Math.PI - 0.01 }, { theta: 0, phi: step });
+      expect(result.theta).toBe(1);
+      expect(result.phi).toBeCloseTo(0);
+    });
+  });
 });
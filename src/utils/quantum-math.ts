@@ -2,6 +2,8 @@ import type {
   ComplexAmplitude,
   SphericalCoordinates,
   CartesianCoordinates,
+  DensityMatrix,
+  QuantumState,
   EasingFunction,
 } from '../types';
 
@@ -72,20 +74,22 @@ export function sphericalToAmplitudes(
  * - Z axis: |0> at top (z=1), |1> at bottom (z=-1)
  * - X axis: |+> at x=1, |-> at x=-1
  * - Y axis: |+i> at y=1, |-i> at y=-1
+ * The result is scaled by `coords.r` (defaults to 1) for mixed states.
  */
 export function sphericalToCartesian(
   coords: SphericalCoordinates
 ): CartesianCoordinates {
-  const { theta, phi } = coords;
+  const { theta, phi, r = 1 } = coords;
   return {
-    x: Math.sin(theta) * Math.cos(phi),
-    y: Math.sin(theta) * Math.sin(phi),
-    z: Math.cos(theta),
+    x: r * Math.sin(theta) * Math.cos(phi),
+    y: r * Math.sin(theta) * Math.sin(phi),
+    z: r * Math.cos(theta),
   };
 }
 
 /**
  * Convert Cartesian coordinates back to spherical.
+ * The vector length is returned as `r`.
  */
 export function cartesianToSpherical(
   cart: CartesianCoordinates
@@ -93,7 +97,7 @@ export function cartesianToSpherical(
   const r = Math.sqrt(cart.x ** 2 + cart.y ** 2 + cart.z ** 2);
 
   if (r === 0) {
-    return { theta: 0, phi: 0 };
+    return { theta: 0, phi: 0, r: 0 };
   }
 
   const theta = Math.acos(Math.min(1, Math.max(-1, cart.z / r)));
@@ -102,21 +106,103 @@ export function cartesianToSpherical(
   // Normalize phi to [0, 2*PI)
   while (phi < 0) phi += 2 * Math.PI;
 
-  return { theta, phi };
+  return { theta, phi, r };
+}
+
+/**
+ * Convert a density matrix to its Bloch vector.
+ * rho = (I + x*X + y*Y + z*Z) / 2, so
+ * x = 2*Re(rho01), y = -2*Im(rho01), z = rho00 - rho11.
+ * The matrix is normalized by its trace and the result clamped to |r| <= 1.
+ */
+export function densityMatrixToBlochVector(
+  rho: DensityMatrix
+): CartesianCoordinates {
+  const trace = rho[0][0].real + rho[1][1].real;
+
+  if (trace <= 0) {
+    // Default to the maximally mixed state if the matrix is degenerate
+    return { x: 0, y: 0, z: 0 };
+  }
+
+  return clampToBall({
+    x: (2 * rho[0][1].real) / trace,
+    y: (-2 * rho[0][1].imag) / trace,
+    z: (rho[0][0].real - rho[1][1].real) / trace,
+  });
+}
+
+/**
+ * Convert a Bloch vector to its density matrix.
+ * rho = [[1 + z, x - iy], [x + iy, 1 - z]] / 2
+ */
+export function blochVectorToDensityMatrix(
+  vector: CartesianCoordinates
+): DensityMatrix {
+  const { x, y, z } = clampToBall(vector);
+  return [
+    [
+      { real: (1 + z) / 2, imag: 0 },
+      { real: x / 2, imag: -y / 2 },
+    ],
+    [
+      { real: x / 2, imag: y / 2 },
+      { real: (1 - z) / 2, imag: 0 },
+    ],
+  ];
+}
+
+/**
+ * Resolve any QuantumState format to spherical coordinates.
+ * Mixed states carry their Bloch vector length in `r`.
+ */
+export function quantumStateToSpherical(
+  state: QuantumState
+): SphericalCoordinates {
+  switch (state.type) {
+    case 'spherical': {
+      const { r } = state.coords;
+      if (r === undefined) return state.coords;
+      return { ...state.coords, r: Math.min(1, Math.max(0, r)) };
+    }
+    case 'amplitudes':
+      return amplitudesToSpherical(state.amplitudes);
+    case 'densityMatrix':
+      return cartesianToSpherical(densityMatrixToBlochVector(state.matrix));
+    case 'blochVector':
+      return cartesianToSpherical(clampToBall(state.vector));
+  }
+}
+
+/**
+ * Scale vectors longer than 1 back onto the sphere surface.
+ */
+function clampToBall(vector: CartesianCoordinates): CartesianCoordinates {
+  const r = Math.sqrt(vector.x ** 2 + vector.y ** 2 + vector.z ** 2);
+  if (r <= 1) return vector;
+  return { x: vector.x / r, y: vector.y / r, z: vector.z / r };
 }
 
 /**
  * Spherical linear interpolation (SLERP) for smooth animations.
  * Interpolates along the great circle on the sphere surface.
+ * The Bloch vector length `r` is interpolated linearly.
  */
 export function slerp(
   start: SphericalCoordinates,
   end: SphericalCoordinates,
   t: number
 ): SphericalCoordinates {
-  // Convert to Cartesian for proper slerp
-  const startCart = sphericalToCartesian(start);
-  const endCart = sphericalToCartesian(end);
+  const startR = start.r ?? 1;
+  const endR = end.r ?? 1;
+  const r = startR + t * (endR - startR);
+
+  // Convert unit directions to Cartesian for proper slerp
+  const startCart = sphericalToCartesian({
+    theta: start.theta,
+    phi: start.phi,
+  });
+  const endCart = sphericalToCartesian({ theta: end.theta, phi: end.phi });
 
   // Calculate dot product (cosine of angle between vectors)
   const dot =
@@ -124,11 +210,27 @@ export function slerp(
   const clampedDot = Math.max(-1, Math.min(1, dot));
   const omega = Math.acos(clampedDot);
 
-  // If vectors are nearly identical or opposite, use linear interpolation
+  // If vectors are nearly identical, use linear interpolation
   if (Math.abs(omega) < 0.0001) {
     return {
       theta: start.theta + t * (end.theta - start.theta),
       phi: start.phi + t * (end.phi - start.phi),
+      r,
+    };
+  }
+
+  // If vectors are nearly opposite, the great circle is not unique:
+  // sweep through a direction perpendicular to start instead
+  if (Math.PI - omega < 0.0001) {
+    const perp = perpendicularUnitVector(startCart);
+    const angle = t * Math.PI;
+    return {
+      ...cartesianToSpherical({
+        x: Math.cos(angle) * startCart.x + Math.sin(angle) * perp.x,
+        y: Math.cos(angle) * startCart.y + Math.sin(angle) * perp.y,
+        z: Math.cos(angle) * startCart.z + Math.sin(angle) * perp.z,
+      }),
+      r,
     };
   }
 
@@ -142,7 +244,50 @@ export function slerp(
     z: a * startCart.z + b * endCart.z,
   };
 
-  return cartesianToSpherical(resultCart);
+  return { ...cartesianToSpherical(resultCart), r };
+}
+
+/**
+ * Linear interpolation of Bloch vectors: a straight line through the ball.
+ * Used for measurement collapse, where the state leaves the sphere surface.
+ */
+export function lerpBlochVector(
+  start: SphericalCoordinates,
+  end: SphericalCoordinates,
+  t: number
+): SphericalCoordinates {
+  if (t >= 1) return end;
+
+  const a = sphericalToCartesian(start);
+  const b = sphericalToCartesian(end);
+  const result = cartesianToSpherical({
+    x: a.x + t * (b.x - a.x),
+    y: a.y + t * (b.y - a.y),
+    z: a.z + t * (b.z - a.z),
+  });
+
+  // Keep the direction stable while passing through the origin
+  if (result.r === 0) return { ...end, r: 0 };
+  return result;
+}
+
+/**
+ * Unit vector perpendicular to a unit vector, preferring the +X direction
+ * so that a sweep from |0> to |1> passes through |+>.
+ */
+function perpendicularUnitVector(
+  v: CartesianCoordinates
+): CartesianCoordinates {
+  // Project a reference axis that is not parallel to v onto v's normal plane
+  const ref = Math.abs(v.x) < 0.9 ? { x: 1, y: 0, z: 0 } : { x: 0, y: 1, z: 0 };
+  const dot = ref.x * v.x + ref.y * v.y + ref.z * v.z;
+  const p = {
+    x: ref.x - dot * v.x,
+    y: ref.y - dot * v.y,
+    z: ref.z - dot * v.z,
+  };
+  const norm = Math.sqrt(p.x ** 2 + p.y ** 2 + p.z ** 2);
+  return { x: p.x / norm, y: p.y / norm, z: p.z / norm };
 }
 
 /**
@@ -175,3 +320,60 @@ export const commonStates = {
     phi: (3 * Math.PI) / 2,
   } as SphericalCoordinates,
 };
+
+/**
+ * Snap to the nearest entry of `commonStates` if it lies within
+ * `threshold` radians on the sphere; otherwise return `coords` unchanged.
+ */
+export function snapToCommonStates(
+  coords: SphericalCoordinates,
+  threshold = 0.15
+): SphericalCoordinates {
+  const cart = sphericalToCartesian({ theta: coords.theta, phi: coords.phi });
+  let nearest: SphericalCoordinates | null = null;
+  let nearestAngle = threshold;
+
+  for (const candidate of Object.values(commonStates)) {
+    const c = sphericalToCartesian(candidate);
+    const dot = Math.max(
+      -1,
+      Math.min(1, cart.x * c.x + cart.y * c.y + cart.z * c.z)
+    );
+    const angle = Math.acos(dot);
+    if (angle <= nearestAngle) {
+      nearest = candidate;
+      nearestAngle = angle;
+    }
+  }
+
+  if (!nearest) return coords;
+  return coords.r === undefined ? nearest : { ...nearest, r: coords.r };
+}
+
+/**
+ * Snap theta and phi to multiples of the given steps (in radians).
+ * A step of 0 leaves that angle unchanged.
+ */
+export function snapToGrid(
+  coords: SphericalCoordinates,
+  grid: { theta: number; phi: number }
+): SphericalCoordinates {
+  let theta = coords.theta;
+  let phi = coords.phi;
+
+  if (grid.theta > 0) {
+    theta = Math.min(
+      Math.PI,
+      Math.max(0, Math.round(theta / grid.theta) * grid.theta)
+    );
+  }
+  if (grid.phi > 0) {
+    phi = Math.round(phi / grid.phi) * grid.phi;
+    // Normalize phi to [0, 2*PI)
+    while (phi < 0) phi += 2 * Math.PI;
+    while (phi >= 2 * Math.PI - 1e-12) phi -= 2 * Math.PI;
+    phi = Math.max(0, phi);
+  }
+
+  return { ...coords, theta, phi };
+}
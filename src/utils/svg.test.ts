@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import { buildBlochSphereSvg, renderBlochSphereSvg } from './svg';
+import { commonStates } from './quantum-math';
+import type { QuantumState } from '../types';
+
+const zero: QuantumState = { type: 'spherical', coords: commonStates.zero };
+
+describe('svg', () => {
+  describe('buildBlochSphereSvg', () => {
+    it('draws |0> straight up when viewed from the front', () => {
+      const primitives = buildBlochSphereSvg({
+        state: zero,
+        width: 200,
+        height: 200,
+        camera: { position: [0, 0, 5] },
+        style: { stateVectorColor: '#123456', showLabels: false },
+      });
+      const head = primitives.find(
+        (p) => p.tag === 'polygon' && p.attributes.fill === '#123456'
+      );
+      const [tipX, tipY] = String(head?.attributes.points)
+        .split(' ')[0]
+        .split(',')
+        .map(Number);
+      const sphere = primitives.find((p) => p.tag === 'circle');
+
+      expect(tipX).toBeCloseTo(100);
+      expect(tipY).toBeCloseTo(100 - Number(sphere?.attributes.r), 0);
+    });
+
+    it('uses the style options', () => {
+      const primitives = buildBlochSphereSvg({
+        state: zero,
+        style: {
+          sphereColor: '#abcdef',
+          xAxisColor: '#010101',
+          yAxisColor: '#020202',
+          zAxisColor: '#030303',
+          backgroundColor: '#ffffff',
+          labelColor: '#000000',
+        },
+      });
+      const strokes = primitives.map((p) => p.attributes.stroke);
+
+      expect(primitives[0]).toMatchObject({
+        tag: 'rect',
+        attributes: { fill: '#ffffff' },
+      });
+      expect(strokes).toContain('#abcdef');
+      expect(strokes).toContain('#010101');
+      expect(strokes).toContain('#020202');
+      expect(strokes).toContain('#030303');
+      expect(
+        primitives.filter((p) => p.tag === 'text').map((p) => p.text)
+      ).toEqual(['|0⟩', '|1⟩', '|+⟩', '|-⟩', '|+i⟩', '|-i⟩']);
+    });
+
+    it('omits labels, equator and background when disabled', () => {
+      const primitives = buildBlochSphereSvg({
+        state: zero,
+        style: { showLabels: false, showEquator: false },
+      });
+      expect(primitives.some((p) => p.tag === 'text')).toBe(false);
+      expect(primitives.some((p) => p.tag === 'rect')).toBe(false);
+      expect(primitives.some((p) => p.attributes.stroke === '#666666')).toBe(
+        false
+      );
+    });
+
+    it('draws several labelled states and faded trajectories', () => {
+      const primitives = buildBlochSphereSvg({
+        state: [
+          {
+            state: zero,
+            label: 'a',
+            history: [commonStates.plus, commonStates.plusI, commonStates.zero],
+          },
+          {
+            state: { type: 'spherical', coords: commonStates.plus },
+            label: 'b',
+            color: '#00ff00',
+          },
+        ],
+        trajectory: { enabled: true, fadeOpacity: true, color: '#ff00ff' },
+        style: { showLabels: false },
+      });
+      const texts = primitives.filter((p) => p.tag === 'text');
+      const path = primitives.filter((p) => p.attributes.stroke === '#ff00ff');
+
+      expect(texts.map((p) => p.text)).toEqual(['a', 'b']);
+      expect(path).toHaveLength(2);
+      expect(Number(path[0].attributes.opacity)).toBeLessThan(
+        Number(path[1].attributes.opacity)
+      );
+    });
+  });
+
+  describe('renderBlochSphereSvg', () => {
+    it('produces a standalone SVG document', () => {
+      const svg = renderBlochSphereSvg({
+        state: zero,
+        width: 320,
+        height: 240,
+      });
+      expect(svg.startsWith('<svg xmlns="http://www.w3.org/2000/svg"')).toBe(
+        true
+      );
+      expect(svg).toContain('viewBox="0 0 320 240"');
+      expect(svg.endsWith('</svg>')).toBe(true);
+    });
+
+    it('escapes label text', () => {
+      const svg = renderBlochSphereSvg({
+        state: [{ state: zero, label: '<ψ & φ>' }],
+      });
+      expect(svg).toContain('&lt;ψ &amp; φ&gt;');
+      expect(svg).not.toContain('<ψ');
+    });
+  });
+});
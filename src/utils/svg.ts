@@ -0,0 +1,470 @@
+import type {
+  BlochSphereSvgOptions,
+  CartesianCoordinates,
+  CoordinateConvention,
+  LabelledState,
+  SphericalCoordinates,
+  SvgPrimitive,
+} from '../types';
+import { comparisonPalette, defaultCamera, defaultStyle } from '../defaults';
+import { quantumStateToSpherical, sphericalToCartesian } from './quantum-math';
+import { trajectoryFade } from './trajectory';
+import { cameraViewPosition } from './camera';
+import { blochToScene, sceneUp } from './coordinates';
+
+/** Axis half-length and label distance, matching the WebGL scene */
+const AXIS_LENGTH = 1.3;
+const LABEL_OFFSET = 1.5;
+const ARROW_HEAD = 0.15;
+const CIRCLE_SEGMENTS = 96;
+const GUIDE_COLOR = '#666666';
+
+type Point = [number, number];
+
+/**
+ * Orthographic projection of Bloch coordinates for a camera looking at the
+ * origin from `position` (scene coordinates of the convention)
+ */
+function createProjection(
+  position: [number, number, number],
+  width: number,
+  height: number,
+  convention?: CoordinateConvention
+) {
+  const toScene = (v: CartesianCoordinates) => blochToScene(v, convention);
+
+  const length = Math.hypot(...position) || 1;
+  const back = position.map((c) => c / length);
+  // right = sceneUp x back; fall back to +X when looking along the up axis
+  const [ux, uy, uz] = sceneUp(convention);
+  let right = [
+    uy * back[2] - uz * back[1],
+    uz * back[0] - ux * back[2],
+    ux * back[1] - uy * back[0],
+  ];
+  const rightLength = Math.hypot(...right);
+  right = rightLength < 1e-9 ? [1, 0, 0] : right.map((c) => c / rightLength);
+  const up = [
+    back[1] * right[2] - back[2] * right[1],
+    back[2] * right[0] - back[0] * right[2],
+    back[0] * right[1] - back[1] * right[0],
+  ];
+  const dot = (a: number[], b: number[]) =>
+    a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+
+  // Leave room for the axis labels around the unit sphere
+  const scale = Math.min(width, height) / 2 / (LABEL_OFFSET + 0.25);
+  const cx = width / 2;
+  const cy = height / 2;
+
+  return {
+    scale,
+    center: [cx, cy] as Point,
+    /** Screen point (SVG y points down) */
+    point(v: CartesianCoordinates): Point {
+      const p = toScene(v);
+      return [cx + dot(p, right) * scale, cy - dot(p, up) * scale];
+    },
+    /** Signed distance towards the camera; negative is behind the origin */
+    depth(v: CartesianCoordinates): number {
+      return dot(toScene(v), back);
+    },
+  };
+}
+
+type Projection = ReturnType<typeof createProjection>;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const pointsAttribute = (points: Point[]) =>
+  points.map(([x, y]) => `${round(x)},${round(y)}`).join(' ');
+
+function polyline(
+  points: Point[],
+  stroke: string,
+  strokeWidth: number,
+  extra: Record<string, string | number> = {}
+): SvgPrimitive {
+  return {
+    tag: 'polyline',
+    attributes: {
+      points: pointsAttribute(points),
+      fill: 'none',
+      stroke,
+      'stroke-width': strokeWidth,
+      'stroke-linecap': 'round',
+      'stroke-linejoin': 'round',
+      ...extra,
+    },
+  };
+}
+
+/**
+ * Split a closed 3D curve into runs in front of and behind the origin
+ */
+function splitByDepth(
+  curve: CartesianCoordinates[],
+  projection: Projection
+): { front: boolean; points: Point[] }[] {
+  const runs: { front: boolean; points: Point[] }[] = [];
+  curve.forEach((v, i) => {
+    const front = projection.depth(v) >= 0;
+    const point = projection.point(v);
+    const run = runs[runs.length - 1];
+    if (run && run.front === front) {
+      run.points.push(point);
+    } else {
+      // Share the boundary point so runs join without gaps
+      const previous = i > 0 ? [projection.point(curve[i - 1])] : [];
+      runs.push({ front, points: [...previous, point] });
+    }
+  });
+  return runs;
+}
+
+function greatCircle(
+  basis: (angle: number) => CartesianCoordinates
+): CartesianCoordinates[] {
+  return Array.from({ length: CIRCLE_SEGMENTS + 1 }, (_, i) =>
+    basis((i / CIRCLE_SEGMENTS) * Math.PI * 2)
+  );
+}
+
+/**
+ * Project the Bloch sphere scene to 2D primitives, back to front.
+ * This is the shared core of renderBlochSphereSvg and BlochSphereSvg.
+ *
+ * @param options - States, size, style, camera position and trajectories
+ * @returns Primitives in paint order
+ */
+export function buildBlochSphereSvg({
+  state,
+  width = 400,
+  height = 400,
+  style = {},
+  camera = {},
+  convention,
+  trajectory = {},
+  history = [],
+  fontFamily = 'sans-serif',
+}: BlochSphereSvgOptions): SvgPrimitive[] {
+  const mergedStyle = { ...defaultStyle, ...style };
+  const projection = createProjection(
+    camera.position ??
+      cameraViewPosition(
+        'iso',
+        Math.hypot(...defaultCamera.position),
+        convention
+      ),
+    width,
+    height,
+    convention
+  );
+  const { scale } = projection;
+  const back: SvgPrimitive[] = [];
+  const front: SvgPrimitive[] = [];
+
+  // Guide circles: dashed and faint where they pass behind the sphere
+  const guides: { curve: CartesianCoordinates[]; opacity: number }[] = [];
+  if (mergedStyle.showEquator) {
+    guides.push({
+      curve: greatCircle((a) => ({ x: Math.cos(a), y: Math.sin(a), z: 0 })),
+      opacity: 1,
+    });
+    if (mergedStyle.showMeridians) {
+      guides.push(
+        {
+          curve: greatCircle((a) => ({ x: Math.cos(a), y: 0, z: Math.sin(a) })),
+          opacity: 0.5,
+        },
+        {
+          curve: greatCircle((a) => ({ x: 0, y: Math.cos(a), z: Math.sin(a) })),
+          opacity: 0.5,
+        }
+      );
+    }
+  }
+  guides.forEach(({ curve, opacity }) =>
+    splitByDepth(curve, projection).forEach((run) =>
+      (run.front ? front : back).push(
+        polyline(run.points, GUIDE_COLOR, 1, {
+          opacity: run.front ? opacity : opacity * 0.6,
+          ...(run.front ? {} : { 'stroke-dasharray': '4 3' }),
+        })
+      )
+    )
+  );
+
+  // Axes, split at the origin so the far half sits behind the sphere
+  const axes: [CartesianCoordinates, string][] = [
+    [{ x: 1, y: 0, z: 0 }, mergedStyle.xAxisColor],
+    [{ x: 0, y: 1, z: 0 }, mergedStyle.yAxisColor],
+    [{ x: 0, y: 0, z: 1 }, mergedStyle.zAxisColor],
+  ];
+  const origin = { x: 0, y: 0, z: 0 };
+  axes.forEach(([axis, color]) =>
+    [1, -1].forEach((sign) => {
+      const end = {
+        x: axis.x * sign * AXIS_LENGTH,
+        y: axis.y * sign * AXIS_LENGTH,
+        z: axis.z * sign * AXIS_LENGTH,
+      };
+      const isFront = projection.depth(end) >= 0;
+      (isFront ? front : back).push(
+        polyline(
+          [projection.point(origin), projection.point(end)],
+          color,
+          1.5,
+          isFront ? {} : { opacity: 0.6 }
+        )
+      );
+    })
+  );
+
+  const primitives: SvgPrimitive[] = [];
+  if (mergedStyle.backgroundColor !== 'transparent') {
+    primitives.push({
+      tag: 'rect',
+      attributes: {
+        x: 0,
+        y: 0,
+        width,
+        height,
+        fill: mergedStyle.backgroundColor,
+      },
+    });
+  }
+  primitives.push(...back);
+
+  // Sphere silhouette
+  primitives.push({
+    tag: 'circle',
+    attributes: {
+      cx: round(projection.center[0]),
+      cy: round(projection.center[1]),
+      r: round(scale),
+      fill: mergedStyle.sphereColor,
+      'fill-opacity': round(mergedStyle.sphereOpacity * 0.5),
+      stroke: mergedStyle.sphereColor,
+      'stroke-width': 1.5,
+    },
+  });
+  primitives.push(...front);
+
+  // A single state is treated as a one-entry list
+  const entries: LabelledState[] = Array.isArray(state) ? state : [{ state }];
+  const colorOf = (entry: LabelledState, index: number) =>
+    entry.color ??
+    (index === 0
+      ? mergedStyle.stateVectorColor
+      : comparisonPalette[(index - 1) % comparisonPalette.length]);
+
+  // Trajectories
+  if (trajectory.enabled) {
+    entries.forEach((entry, index) => {
+      const points = (entry.history ?? (index === 0 ? history : [])).slice(
+        -(trajectory.maxPoints ?? 100)
+      );
+      if (points.length < 2) return;
+      primitives.push(
+        ...trajectoryPrimitives(
+          points,
+          projection,
+          index === 0
+            ? (entry.color ?? trajectory.color ?? '#ff6b6b')
+            : colorOf(entry, index),
+          trajectory.lineWidth ?? 2,
+          trajectory.fadeOpacity ? (trajectory.minOpacity ?? 0.05) : null
+        )
+      );
+    });
+  }
+
+  // State vectors with arrowheads
+  entries.forEach((entry, index) => {
+    const coords = quantumStateToSpherical(entry.state);
+    primitives.push(
+      ...stateVectorPrimitives(
+        coords,
+        projection,
+        colorOf(entry, index),
+        entry.label,
+        mergedStyle.labelSize,
+        fontFamily
+      )
+    );
+  });
+
+  // Axis labels
+  if (mergedStyle.showLabels) {
+    const labels: [CartesianCoordinates, string][] = [
+      [{ x: 0, y: 0, z: LABEL_OFFSET }, '|0⟩'],
+      [{ x: 0, y: 0, z: -LABEL_OFFSET }, '|1⟩'],
+      [{ x: LABEL_OFFSET, y: 0, z: 0 }, '|+⟩'],
+      [{ x: -LABEL_OFFSET, y: 0, z: 0 }, '|-⟩'],
+      [{ x: 0, y: LABEL_OFFSET, z: 0 }, '|+i⟩'],
+      [{ x: 0, y: -LABEL_OFFSET, z: 0 }, '|-i⟩'],
+    ];
+    labels.forEach(([position, text]) => {
+      const [x, y] = projection.point(position);
+      primitives.push(
+        textPrimitive(
+          x,
+          y,
+          text,
+          mergedStyle.labelColor,
+          mergedStyle.labelSize * scale,
+          fontFamily
+        )
+      );
+    });
+  }
+
+  return primitives;
+}
+
+function textPrimitive(
+  x: number,
+  y: number,
+  text: string,
+  fill: string,
+  fontSize: number,
+  fontFamily: string
+): SvgPrimitive {
+  return {
+    tag: 'text',
+    attributes: {
+      x: round(x),
+      y: round(y),
+      fill,
+      'font-size': round(fontSize),
+      'font-family': fontFamily,
+      'text-anchor': 'middle',
+      'dominant-baseline': 'central',
+    },
+    text,
+  };
+}
+
+function trajectoryPrimitives(
+  points: SphericalCoordinates[],
+  projection: Projection,
+  color: string,
+  lineWidth: number,
+  minOpacity: number | null
+): SvgPrimitive[] {
+  const screen = points.map((p) => projection.point(sphericalToCartesian(p)));
+  if (minOpacity === null) return [polyline(screen, color, lineWidth)];
+
+  // One segment per step so that opacity can fade with age
+  return screen.slice(1).map((point, i) =>
+    polyline([screen[i], point], color, lineWidth, {
+      opacity: round(trajectoryFade(i + 1, screen.length, minOpacity)),
+    })
+  );
+}
+
+function stateVectorPrimitives(
+  coords: SphericalCoordinates,
+  projection: Projection,
+  color: string,
+  label: string | undefined,
+  labelSize: number,
+  fontFamily: string
+): SvgPrimitive[] {
+  const radius = coords.r ?? 1;
+  const direction = sphericalToCartesian({
+    theta: coords.theta,
+    phi: coords.phi,
+  });
+  const at = (length: number) =>
+    projection.point({
+      x: direction.x * length,
+      y: direction.y * length,
+      z: direction.z * length,
+    });
+
+  const origin = at(0);
+  const tip = at(radius);
+  const primitives: SvgPrimitive[] = [];
+
+  // Arrowhead drawn in screen space; it shrinks for short vectors
+  const headLength = Math.min(ARROW_HEAD, radius);
+  const base = at(radius - headLength);
+  const dx = tip[0] - base[0];
+  const dy = tip[1] - base[1];
+  const screenLength = Math.hypot(dx, dy);
+
+  primitives.push(polyline([origin, base], color, 3));
+  if (screenLength > 1e-6) {
+    const halfWidth = (headLength / 2.5) * projection.scale;
+    const nx = (-dy / screenLength) * halfWidth;
+    const ny = (dx / screenLength) * halfWidth;
+    primitives.push({
+      tag: 'polygon',
+      attributes: {
+        points: pointsAttribute([
+          tip,
+          [base[0] + nx, base[1] + ny],
+          [base[0] - nx, base[1] - ny],
+        ]),
+        fill: color,
+      },
+    });
+  } else {
+    // Pointing straight at (or away from) the viewer
+    primitives.push({
+      tag: 'circle',
+      attributes: {
+        cx: round(tip[0]),
+        cy: round(tip[1]),
+        r: round((headLength / 2.5) * projection.scale),
+        fill: color,
+      },
+    });
+  }
+
+  if (label) {
+    const [x, y] = at(radius + 0.15);
+    primitives.push(
+      textPrimitive(
+        x,
+        y,
+        label,
+        color,
+        labelSize * 0.8 * projection.scale,
+        fontFamily
+      )
+    );
+  }
+  return primitives;
+}
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+/**
+ * Render the Bloch sphere to a standalone SVG document string, without
+ * WebGL. Suitable for server-side rendering, static docs and figures.
+ *
+ * @param options - States, size, style, camera position and trajectories
+ * @returns SVG markup
+ */
+export function renderBlochSphereSvg(options: BlochSphereSvgOptions): string {
+  const { width = 400, height = 400 } = options;
+  const body = buildBlochSphereSvg(options)
+    .map(({ tag, attributes, text }) => {
+      const attrs = Object.entries(attributes)
+        .map(([name, value]) => `${name}="${escapeXml(String(value))}"`)
+        .join(' ');
+      return text === undefined
+        ? `<${tag} ${attrs}/>`
+        : `<${tag} ${attrs}>${escapeXml(text)}</${tag}>`;
+    })
+    .join('');
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">${body}</svg>`;
+}
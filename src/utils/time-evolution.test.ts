@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import {
+  hamiltonianAt,
+  hamiltonianField,
+  drivenHamiltonian,
+  evolveBlochVector,
+} from './time-evolution';
+
+describe('time-evolution', () => {
+  describe('hamiltonianField', () => {
+    it('is twice the Pauli coefficients', () => {
+      expect(hamiltonianField({ x: 0.5, z: -1 })).toEqual({
+        x: 1,
+        y: 0,
+        z: -2,
+      });
+    });
+  });
+
+  describe('hamiltonianAt', () => {
+    it('evaluates time-dependent Hamiltonians', () => {
+      const h = hamiltonianAt((t) => ({ z: t }), 3);
+      expect(h.z).toBe(3);
+    });
+  });
+
+  describe('evolveBlochVector', () => {
+    it('shows Larmor precession about Z', () => {
+      const omega = 2;
+      const t = 0.7;
+      const result = evolveBlochVector(
+        { x: 1, y: 0, z: 0 },
+        { z: omega / 2 },
+        0,
+        t
+      );
+      expect(result.x).toBeCloseTo(Math.cos(omega * t));
+      expect(result.y).toBeCloseTo(Math.sin(omega * t));
+      expect(result.z).toBeCloseTo(0);
+    });
+
+    it('preserves the Bloch vector length', () => {
+      const result = evolveBlochVector(
+        { x: 0.3, y: 0.2, z: 0.1 },
+        { x: 1, y: 2, z: 3 },
+        0,
+        5
+      );
+      expect(Math.hypot(result.x, result.y, result.z)).toBeCloseTo(
+        Math.hypot(0.3, 0.2, 0.1)
+      );
+    });
+
+    it('leaves states unchanged under a zero Hamiltonian', () => {
+      const vector = { x: 0, y: 1, z: 0 };
+      expect(evolveBlochVector(vector, {}, 0, 1)).toEqual(vector);
+    });
+  });
+
+  describe('drivenHamiltonian', () => {
+    it('flips |0> to |1> after a resonant PI pulse in the rotating frame', () => {
+      const amplitude = 3;
+      const h = drivenHamiltonian({ amplitude });
+      const result = evolveBlochVector(
+        { x: 0, y: 0, z: 1 },
+        h,
+        0,
+        Math.PI / amplitude
+      );
+      expect(result.z).toBeCloseTo(-1);
+    });
+
+    it('limits the excitation when detuned', () => {
+      const amplitude = 1;
+      const detuning = 1;
+      const h = drivenHamiltonian({ amplitude, detuning });
+      const generalized = Math.hypot(amplitude, detuning);
+      const result = evolveBlochVector(
+        { x: 0, y: 0, z: 1 },
+        h,
+        0,
+        Math.PI / generalized
+      );
+      // P(1) = Omega^2 / (Omega^2 + Delta^2) at the peak
+      expect((1 - result.z) / 2).toBeCloseTo(amplitude ** 2 / generalized ** 2);
+    });
+
+    it('approximates the rotating frame in the lab frame', () => {
+      // Weak drive far below the qubit frequency (rotating-wave approximation)
+      const amplitude = 0.2;
+      const frequency = 40;
+      const h = drivenHamiltonian({ amplitude, frequency, frame: 'lab' });
+      const result = evolveBlochVector(
+        { x: 0, y: 0, z: 1 },
+        h,
+        0,
+        Math.PI / amplitude,
+        0.002
+      );
+      expect(result.z).toBeLessThan(-0.95);
+    });
+  });
+});
@@ -0,0 +1,92 @@
+import type {
+  CartesianCoordinates,
+  DriveParameters,
+  Hamiltonian,
+  PauliHamiltonian,
+} from '../types';
+import { rotateBlochVector } from './gates';
+
+/**
+ * Evaluate a (possibly time-dependent) Hamiltonian at time t
+ */
+export function hamiltonianAt(
+  hamiltonian: Hamiltonian,
+  t: number
+): PauliHamiltonian {
+  return typeof hamiltonian === 'function' ? hamiltonian(t) : hamiltonian;
+}
+
+/**
+ * Field (precession) vector of a Hamiltonian: omega = 2 * (x, y, z).
+ * The Bloch vector obeys dr/dt = omega x r, i.e. it precesses about
+ * omega with angular frequency |omega|.
+ */
+export function hamiltonianField(h: PauliHamiltonian): CartesianCoordinates {
+  return { x: 2 * (h.x ?? 0), y: 2 * (h.y ?? 0), z: 2 * (h.z ?? 0) };
+}
+
+/**
+ * Hamiltonian of a driven qubit (Rabi problem).
+ * In the rotating frame the Hamiltonian is static; in the lab frame the
+ * qubit precesses at omega_q = omega_d + Delta and the drive oscillates.
+ */
+export function drivenHamiltonian({
+  amplitude,
+  frequency = 0,
+  detuning = 0,
+  phase = 0,
+  frame = 'rotating',
+}: DriveParameters): Hamiltonian {
+  if (frame === 'rotating') {
+    return {
+      x: (amplitude / 2) * Math.cos(phase),
+      y: (amplitude / 2) * Math.sin(phase),
+      z: detuning / 2,
+    };
+  }
+
+  const qubitFrequency = frequency + detuning;
+  return (t: number) => ({
+    x: amplitude * Math.cos(frequency * t + phase),
+    y: 0,
+    z: qubitFrequency / 2,
+  });
+}
+
+/**
+ * Evolve a Bloch vector under a Hamiltonian from t to t + dt.
+ * Static Hamiltonians are integrated exactly as a single rotation;
+ * time-dependent ones are split into steps of at most `maxStep`, each
+ * rotating about the field at the step midpoint.
+ */
+export function evolveBlochVector(
+  vector: CartesianCoordinates,
+  hamiltonian: Hamiltonian,
+  t: number,
+  dt: number,
+  maxStep = 0.01
+): CartesianCoordinates {
+  const steps =
+    typeof hamiltonian === 'function'
+      ? Math.max(1, Math.ceil(Math.abs(dt) / maxStep))
+      : 1;
+  const h = dt / steps;
+
+  let result = vector;
+  for (let i = 0; i < steps; i++) {
+    const field = hamiltonianField(
+      hamiltonianAt(hamiltonian, t + (i + 0.5) * h)
+    );
+    const magnitude = Math.sqrt(field.x ** 2 + field.y ** 2 + field.z ** 2);
+    if (magnitude === 0) continue;
+    result = rotateBlochVector(result, {
+      axis: {
+        x: field.x / magnitude,
+        y: field.y / magnitude,
+        z: field.z / magnitude,
+      },
+      angle: magnitude * h,
+    });
+  }
+  return result;
+}
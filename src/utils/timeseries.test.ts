@@ -0,0 +1,194 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseTimeSeries,
+  parseTimeSeriesCsv,
+  parseTimeSeriesJson,
+  sampleTimeSeries,
+  timeSeriesDuration,
+  timeSeriesHistory,
+  TimeSeriesError,
+} from './timeseries';
+import { sphericalToCartesian } from './quantum-math';
+import type { TimeSeriesSample } from '../types';
+
+function expectTimeSeriesError(
+  parse: () => unknown,
+  line: number,
+  message: RegExp
+) {
+  try {
+    parse();
+  } catch (error) {
+    expect(error).toBeInstanceOf(TimeSeriesError);
+    expect((error as TimeSeriesError).line).toBe(line);
+    expect((error as TimeSeriesError).message).toMatch(message);
+    return;
+  }
+  throw new Error('Expected a TimeSeriesError');
+}
+
+const cartesian = (sample: TimeSeriesSample) =>
+  sphericalToCartesian(sample.state);
+
+describe('timeseries', () => {
+  describe('parseTimeSeriesCsv', () => {
+    it('reads Bloch vector rows', () => {
+      const samples = parseTimeSeriesCsv(
+        'time,x,y,z\n0,0,0,1\n0.5,1,0,0\n1,0,0.5,0\n'
+      );
+      expect(samples.map((s) => s.time)).toEqual([0, 0.5, 1]);
+      expect(cartesian(samples[1]).x).toBeCloseTo(1);
+      expect(samples[2].state.r).toBeCloseTo(0.5);
+    });
+
+    it('reads spherical and amplitude rows with column aliases', () => {
+      const spherical = parseTimeSeriesCsv('t, θ, φ\n0, 1.2, 0.3');
+      expect(spherical[0].state).toEqual({ theta: 1.2, phi: 0.3 });
+
+      const amplitudes = parseTimeSeriesCsv(
+        'timestamp,alpha_re,alpha_im,beta_re,beta_im\n10,0.6,0,0,0.6'
+      );
+      expect(amplitudes[0].time).toBe(10);
+      expect(amplitudes[0].state.theta).toBeCloseTo(Math.PI / 2);
+      expect(amplitudes[0].state.phi).toBeCloseTo(Math.PI / 2);
+    });
+
+    it('accepts ISO timestamps, comments and blank lines', () => {
+      const samples = parseTimeSeriesCsv(
+        '# exported run 42\ntime,theta,phi\n\n"2024-01-01T00:00:00Z",0,0\n2024-01-01T00:00:01Z,1,0'
+      );
+      expect(timeSeriesDuration(samples)).toBe(1000);
+    });
+
+    it('reports malformed rows by line', () => {
+      expectTimeSeriesError(
+        () => parseTimeSeriesCsv('time,x,y,z\n0,0,0,1\n1,0,abc,0'),
+        3,
+        /Invalid y 'abc'/
+      );
+      expectTimeSeriesError(
+        () => parseTimeSeriesCsv('time,x,y,z\n\n0,0,0'),
+        3,
+        /Expected 4 columns, found 3/
+      );
+      expectTimeSeriesError(
+        () => parseTimeSeriesCsv('time,x,y,z\n0,1,1,1'),
+        2,
+        /length 1\.7321 exceeds 1/
+      );
+      expectTimeSeriesError(
+        () => parseTimeSeriesCsv('time,x,y,z\n0,0,0,1\n1,0,,1'),
+        3,
+        /Missing y/
+      );
+      expectTimeSeriesError(
+        () => parseTimeSeriesCsv('time,foo\n0,1'),
+        2,
+        /Expected x\/y\/z/
+      );
+      expectTimeSeriesError(
+        () => parseTimeSeriesCsv('time,theta,phi\n1,0,0\n0,0,0'),
+        3,
+        /earlier than the previous sample/
+      );
+      expectTimeSeriesError(
+        () => parseTimeSeriesCsv('time,theta,phi\nyesterday,0,0'),
+        2,
+        /Invalid time/
+      );
+    });
+  });
+
+  describe('parseTimeSeriesJson', () => {
+    it('reads an array of rows or a samples object', () => {
+      const rows = parseTimeSeriesJson(
+        '[{"time": 0, "x": 0, "y": 0, "z": 1}, {"t": 2, "theta": 1, "phi": 0}]'
+      );
+      expect(rows).toHaveLength(2);
+      expect(rows[1].state).toEqual({ theta: 1, phi: 0 });
+
+      const wrapped = parseTimeSeriesJson(
+        '{"meta": {"shots": [1, 2]}, "samples": [{"time": 0, "theta": 0, "phi": 0}]}'
+      );
+      expect(wrapped).toHaveLength(1);
+    });
+
+    it('reports malformed samples by line', () => {
+      const text = [
+        '{',
+        '  "name": "run [1]",',
+        '  "samples": [',
+        '    { "time": 0, "x": 0, "y": 0, "z": 1 },',
+        '    {',
+        '      "time": 1,',
+        '      "x": "oops", "y": 0, "z": 0',
+        '    }',
+        '  ]',
+        '}',
+      ].join('\n');
+      expectTimeSeriesError(() => parseTimeSeriesJson(text), 5, /Invalid x/);
+      expectTimeSeriesError(
+        () =>
+          parseTimeSeriesJson(
+            '[\n  {"time": 0, "theta": 0, "phi": 0},\n  3\n]'
+          ),
+        3,
+        /Expected an object/
+      );
+    });
+
+    it('reports invalid JSON and unexpected shapes', () => {
+      expect(() => parseTimeSeriesJson('[{"time": 0,}]')).toThrow(
+        TimeSeriesError
+      );
+      expectTimeSeriesError(
+        () => parseTimeSeriesJson('{"rows": []}'),
+        1,
+        /"samples" array/
+      );
+    });
+  });
+
+  describe('parseTimeSeries', () => {
+    it('detects the format', () => {
+      expect(
+        parseTimeSeries(' [{"time": 0, "theta": 0, "phi": 0}]')
+      ).toHaveLength(1);
+      expect(parseTimeSeries('time,theta,phi\n0,0,0')).toHaveLength(1);
+    });
+  });
+
+  describe('sampleTimeSeries', () => {
+    const samples = parseTimeSeriesCsv(
+      'time,x,y,z\n10,0,0,1\n12,1,0,0\n14,0,0,-0.5'
+    );
+
+    it('interpolates along the great circle by default', () => {
+      const halfway = sphericalToCartesian(sampleTimeSeries(samples, 1));
+      expect(halfway.x).toBeCloseTo(Math.SQRT1_2);
+      expect(halfway.z).toBeCloseTo(Math.SQRT1_2);
+    });
+
+    it('supports straight-line and step interpolation', () => {
+      const chord = sphericalToCartesian(
+        sampleTimeSeries(samples, 1, 'linear')
+      );
+      expect(chord.x).toBeCloseTo(0.5);
+      expect(chord.z).toBeCloseTo(0.5);
+      expect(sampleTimeSeries(samples, 1.9, 'step')).toEqual(samples[0].state);
+    });
+
+    it('clamps to the first and last samples', () => {
+      expect(sampleTimeSeries(samples, -5)).toEqual(samples[0].state);
+      expect(sampleTimeSeries(samples, 100)).toEqual(samples[2].state);
+      expect(timeSeriesDuration(samples)).toBe(4);
+    });
+
+    it('builds the trajectory up to the current time', () => {
+      const history = timeSeriesHistory(samples, 3);
+      expect(history).toHaveLength(3);
+      expect(history[1]).toEqual(samples[1].state);
+      expect(timeSeriesHistory([], 1)).toEqual([]);
+    });
+  });
+});
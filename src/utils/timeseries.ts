@@ -0,0 +1,399 @@
+import type {
+  SphericalCoordinates,
+  TimeSeriesInterpolation,
+  TimeSeriesSample,
+} from '../types';
+import {
+  amplitudesToSpherical,
+  cartesianToSpherical,
+  lerpBlochVector,
+  slerp,
+} from './quantum-math';
+
+/**
+ * Error raised for a malformed time series row.
+ * `line` is the 1-based line of the offending row in the source text.
+ */
+export class TimeSeriesError extends Error {
+  readonly line: number;
+
+  constructor(message: string, line: number) {
+    super(`Line ${line}: ${message}`);
+    this.name = 'TimeSeriesError';
+    this.line = line;
+  }
+}
+
+/** Accepted column names, mapped to their canonical field */
+const aliases: Record<string, string> = {
+  time: 'time',
+  t: 'time',
+  timestamp: 'time',
+  x: 'x',
+  y: 'y',
+  z: 'z',
+  theta: 'theta',
+  θ: 'theta',
+  phi: 'phi',
+  φ: 'phi',
+  r: 'r',
+  alpha_re: 'alpha_re',
+  alpha_im: 'alpha_im',
+  beta_re: 'beta_re',
+  beta_im: 'beta_im',
+};
+
+/** Bloch vectors may exceed unit length by this much (rounding in exports) */
+const LENGTH_TOLERANCE = 1e-6;
+
+/**
+ * Build a sample from one row of named values
+ */
+function parseRow(
+  row: Record<string, unknown>,
+  line: number
+): TimeSeriesSample {
+  const fields: Record<string, unknown> = {};
+  Object.entries(row).forEach(([key, value]) => {
+    const field = aliases[key.trim().toLowerCase()];
+    if (field && value !== '' && value !== null && value !== undefined) {
+      fields[field] = value;
+    }
+  });
+
+  const numeric = (field: string): number | undefined => {
+    const value = fields[field];
+    if (value === undefined) return undefined;
+    const parsed = typeof value === 'number' ? value : Number(value);
+    if (typeof value === 'boolean' || !Number.isFinite(parsed)) {
+      throw new TimeSeriesError(`Invalid ${field} '${String(value)}'`, line);
+    }
+    return parsed;
+  };
+  const required = (names: string[]): number[] =>
+    names.map((field) => {
+      const value = numeric(field);
+      if (value === undefined) {
+        throw new TimeSeriesError(`Missing ${field}`, line);
+      }
+      return value;
+    });
+
+  // Timestamps are numbers in any unit, or dates
+  let time: number;
+  const rawTime = fields.time;
+  if (rawTime === undefined) throw new TimeSeriesError('Missing time', line);
+  if (typeof rawTime === 'string' && !Number.isFinite(Number(rawTime))) {
+    time = Date.parse(rawTime);
+    if (Number.isNaN(time)) {
+      throw new TimeSeriesError(`Invalid time '${rawTime}'`, line);
+    }
+  } else {
+    time = numeric('time') as number;
+  }
+
+  const has = (names: string[]) => names.some((f) => fields[f] !== undefined);
+
+  if (has(['alpha_re', 'alpha_im', 'beta_re', 'beta_im'])) {
+    const [ar, ai, br, bi] = required([
+      'alpha_re',
+      'alpha_im',
+      'beta_re',
+      'beta_im',
+    ]);
+    if (ar === 0 && ai === 0 && br === 0 && bi === 0) {
+      throw new TimeSeriesError('Amplitudes are all zero', line);
+    }
+    return {
+      time,
+      state: amplitudesToSpherical({
+        alpha: { real: ar, imag: ai },
+        beta: { real: br, imag: bi },
+      }),
+    };
+  }
+
+  if (has(['x', 'y', 'z'])) {
+    const [x, y, z] = required(['x', 'y', 'z']);
+    const length = Math.hypot(x, y, z);
+    if (length > 1 + LENGTH_TOLERANCE) {
+      throw new TimeSeriesError(
+        `Bloch vector length ${length.toFixed(4)} exceeds 1`,
+        line
+      );
+    }
+    const state = cartesianToSpherical({ x, y, z });
+    return { time, state: { ...state, r: Math.min(1, state.r ?? 1) } };
+  }
+
+  if (has(['theta', 'phi'])) {
+    const [theta, phi] = required(['theta', 'phi']);
+    const r = numeric('r');
+    if (r !== undefined && (r < 0 || r > 1 + LENGTH_TOLERANCE)) {
+      throw new TimeSeriesError(`r must be in [0, 1], got ${r}`, line);
+    }
+    return {
+      time,
+      state:
+        r === undefined ? { theta, phi } : { theta, phi, r: Math.min(1, r) },
+    };
+  }
+
+  throw new TimeSeriesError(
+    'Expected x/y/z, theta/phi or alpha_re/alpha_im/beta_re/beta_im',
+    line
+  );
+}
+
+/**
+ * Check that timestamps never decrease
+ */
+function checkOrder(samples: TimeSeriesSample[], lines: number[]) {
+  for (let i = 1; i < samples.length; i++) {
+    if (samples[i].time < samples[i - 1].time) {
+      throw new TimeSeriesError(
+        `Time ${samples[i].time} is earlier than the previous sample (${samples[i - 1].time})`,
+        lines[i]
+      );
+    }
+  }
+}
+
+/**
+ * Parse a CSV time series. The first row is a header naming the columns:
+ * a time column (`time`, `t` or `timestamp`) and either `x,y,z`,
+ * `theta,phi` (optionally `r`) or `alpha_re,alpha_im,beta_re,beta_im`.
+ * Blank lines and lines starting with `#` are skipped.
+ *
+ * @param text - CSV source
+ * @returns Samples in time order
+ * @throws TimeSeriesError for malformed rows, with their line number
+ */
+export function parseTimeSeriesCsv(text: string): TimeSeriesSample[] {
+  const samples: TimeSeriesSample[] = [];
+  const lines: number[] = [];
+  let header: string[] | null = null;
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = index + 1;
+    const trimmed = raw.trim();
+    if (trimmed === '' || trimmed.startsWith('#')) return;
+
+    const cells = trimmed
+      .split(',')
+      .map((cell) => cell.trim().replace(/^"(.*)"$/, '$1'));
+    if (!header) {
+      header = cells;
+      return;
+    }
+    if (cells.length !== header.length) {
+      throw new TimeSeriesError(
+        `Expected ${header.length} columns, found ${cells.length}`,
+        line
+      );
+    }
+    const row: Record<string, string> = {};
+    header.forEach((name, i) => (row[name] = cells[i]));
+    samples.push(parseRow(row, line));
+    lines.push(line);
+  });
+
+  if (!header) throw new TimeSeriesError('Missing header row', 1);
+  checkOrder(samples, lines);
+  return samples;
+}
+
+/**
+ * 1-based line of each element of the samples array: the top-level array,
+ * or the array under a top-level "samples" key
+ */
+function sampleLines(text: string): number[] {
+  const lines: number[] = [];
+  const stack: string[] = [];
+  let line = 1;
+  let samplesDepth = -1;
+  let expectingElement = false;
+  let inString = false;
+  let escaped = false;
+  let stringValue = '';
+  let lastString = '';
+  let key = '';
+
+  for (const char of text) {
+    if (char === '\n') line++;
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') {
+        inString = false;
+        lastString = stringValue;
+      } else stringValue += char;
+      continue;
+    }
+    if (/\s/.test(char)) continue;
+
+    const inSamples = stack.length === samplesDepth;
+    if (inSamples && expectingElement && char !== ']') {
+      lines.push(line);
+      expectingElement = false;
+    }
+
+    if (char === '"') {
+      inString = true;
+      stringValue = '';
+    } else if (char === ':' && stack.length === 1) {
+      key = lastString;
+    } else if (char === '[') {
+      const isSamples =
+        samplesDepth < 0 &&
+        (stack.length === 0 || (stack.length === 1 && key === 'samples'));
+      stack.push(char);
+      if (isSamples) {
+        samplesDepth = stack.length;
+        expectingElement = true;
+      }
+    } else if (char === '{') {
+      stack.push(char);
+    } else if (char === ']' || char === '}') {
+      stack.pop();
+    } else if (char === ',' && inSamples) {
+      expectingElement = true;
+    }
+  }
+  return lines;
+}
+
+/**
+ * Parse a JSON time series: an array of row objects, or an object with a
+ * `samples` array. Rows use the same names as the CSV columns.
+ *
+ * @param text - JSON source
+ * @returns Samples in time order
+ * @throws TimeSeriesError for invalid JSON or malformed rows, with their
+ * line number
+ */
+export function parseTimeSeriesJson(text: string): TimeSeriesSample[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    const message = (error as Error).message;
+    const position = /position (\d+)/.exec(message);
+    const line = position
+      ? text.slice(0, Number(position[1])).split('\n').length
+      : 1;
+    throw new TimeSeriesError(`Invalid JSON (${message})`, line);
+  }
+
+  const rows = Array.isArray(data)
+    ? data
+    : (data as { samples?: unknown } | null)?.samples;
+  if (!Array.isArray(rows)) {
+    throw new TimeSeriesError(
+      'Expected an array of samples or an object with a "samples" array',
+      1
+    );
+  }
+
+  const lines = sampleLines(text);
+  const samples = rows.map((row, i) => {
+    const line = lines[i] ?? 1;
+    if (typeof row !== 'object' || row === null || Array.isArray(row)) {
+      throw new TimeSeriesError('Expected an object', line);
+    }
+    return parseRow(row as Record<string, unknown>, line);
+  });
+  checkOrder(
+    samples,
+    samples.map((_, i) => lines[i] ?? 1)
+  );
+  return samples;
+}
+
+/**
+ * Parse a CSV or JSON time series, detecting the format from the first
+ * character unless given
+ */
+export function parseTimeSeries(
+  text: string,
+  format?: 'csv' | 'json'
+): TimeSeriesSample[] {
+  const detected = format ?? (/^\s*[[{]/.test(text) ? 'json' : 'csv');
+  return detected === 'json'
+    ? parseTimeSeriesJson(text)
+    : parseTimeSeriesCsv(text);
+}
+
+/**
+ * Time from the first to the last sample
+ */
+export function timeSeriesDuration(samples: TimeSeriesSample[]): number {
+  return samples.length > 1
+    ? samples[samples.length - 1].time - samples[0].time
+    : 0;
+}
+
+/**
+ * Index of the last sample at or before `time` (relative to the first
+ * sample), by binary search
+ */
+function sampleIndexAt(samples: TimeSeriesSample[], time: number): number {
+  const absolute = samples[0].time + time;
+  let lo = 0;
+  let hi = samples.length - 1;
+  while (lo < hi) {
+    const mid = Math.ceil((lo + hi) / 2);
+    if (samples[mid].time <= absolute) lo = mid;
+    else hi = mid - 1;
+  }
+  return lo;
+}
+
+/**
+ * State at a time between samples
+ *
+ * @param samples - Samples in time order
+ * @param time - Time since the first sample, in the series' units
+ * @param interpolation - Path between neighbouring samples (default: 'slerp')
+ */
+export function sampleTimeSeries(
+  samples: TimeSeriesSample[],
+  time: number,
+  interpolation: TimeSeriesInterpolation = 'slerp'
+): SphericalCoordinates {
+  if (samples.length === 0) return { theta: 0, phi: 0 };
+  const index = sampleIndexAt(samples, time);
+  const current = samples[index];
+  const next = samples[index + 1];
+  if (!next || interpolation === 'step' || next.time === current.time) {
+    return current.state;
+  }
+
+  const t = Math.min(
+    1,
+    Math.max(
+      0,
+      (samples[0].time + time - current.time) / (next.time - current.time)
+    )
+  );
+  return interpolation === 'linear'
+    ? lerpBlochVector(current.state, next.state, t)
+    : slerp(current.state, next.state, t);
+}
+
+/**
+ * Path up to `time`: every sample reached so far plus the interpolated
+ * current state, for the trajectory
+ */
+export function timeSeriesHistory(
+  samples: TimeSeriesSample[],
+  time: number,
+  interpolation: TimeSeriesInterpolation = 'slerp'
+): SphericalCoordinates[] {
+  if (samples.length === 0) return [];
+  const index = sampleIndexAt(samples, time);
+  return [
+    ...samples.slice(0, index + 1).map((sample) => sample.state),
+    sampleTimeSeries(samples, time, interpolation),
+  ];
+}
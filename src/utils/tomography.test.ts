@@ -0,0 +1,194 @@
+import { describe, it, expect } from 'vitest';
+import {
+  histogramCounts,
+  linearInversionTomography,
+  maximumLikelihoodTomography,
+  bootstrapTomography,
+  confidenceEllipsoid,
+  tomography,
+} from './tomography';
+import { createRng } from './measurement';
+import type { TomographyCounts } from '../types';
+
+const norm = ({ x, y, z }: { x: number; y: number; z: number }) =>
+  Math.hypot(x, y, z);
+
+// Near-pure |+> with a little noise in every basis
+const plusCounts: TomographyCounts = {
+  x: [990, 10],
+  y: [510, 490],
+  z: [480, 520],
+};
+
+// Every basis deterministic: the linear estimate has length sqrt(3)
+const unphysicalCounts: TomographyCounts = {
+  x: [100, 0],
+  y: [100, 0],
+  z: [100, 0],
+};
+
+describe('tomography', () => {
+  describe('histogramCounts', () => {
+    it('reads a bit from the right of each bitstring', () => {
+      const histogram = { '00': 400, '01': 100, '10': 300, '11': 200 };
+      expect(histogramCounts(histogram)).toEqual([700, 300]);
+      expect(histogramCounts(histogram, 1)).toEqual([500, 500]);
+    });
+
+    it('ignores register separators', () => {
+      expect(histogramCounts({ '0 1': 3, '1 0': 5 })).toEqual([5, 3]);
+    });
+  });
+
+  describe('linearInversionTomography', () => {
+    it('returns the measured expectation values', () => {
+      const r = linearInversionTomography(plusCounts);
+      expect(r.x).toBeCloseTo(0.98);
+      expect(r.y).toBeCloseTo(0.02);
+      expect(r.z).toBeCloseTo(-0.04);
+    });
+
+    it('treats bases without shots as zero', () => {
+      const r = linearInversionTomography({ x: [0, 0], y: [0, 0], z: [3, 1] });
+      expect(r).toEqual({ x: 0, y: 0, z: 0.5 });
+    });
+
+    it('can leave the Bloch ball', () => {
+      expect(norm(linearInversionTomography(unphysicalCounts))).toBeCloseTo(
+        Math.sqrt(3)
+      );
+    });
+  });
+
+  describe('maximumLikelihoodTomography', () => {
+    it('agrees with linear inversion inside the ball', () => {
+      expect(maximumLikelihoodTomography(plusCounts)).toEqual(
+        linearInversionTomography(plusCounts)
+      );
+    });
+
+    it('projects unphysical data onto the sphere', () => {
+      const r = maximumLikelihoodTomography(unphysicalCounts);
+      expect(norm(r)).toBeCloseTo(1);
+      // Symmetric data gives the symmetric direction
+      expect(r.x).toBeCloseTo(1 / Math.sqrt(3));
+      expect(r.y).toBeCloseTo(r.x);
+      expect(r.z).toBeCloseTo(r.x);
+    });
+
+    it('maximizes the likelihood over the sphere', () => {
+      const counts: TomographyCounts = {
+        x: [95, 5],
+        y: [80, 20],
+        z: [50, 50],
+      };
+      const logLikelihood = (r: { x: number; y: number; z: number }) =>
+        (['x', 'y', 'z'] as const).reduce(
+          (sum, basis) =>
+            sum +
+            counts[basis][0] * Math.log((1 + r[basis]) / 2) +
+            counts[basis][1] * Math.log((1 - r[basis]) / 2),
+          0
+        );
+      const best = maximumLikelihoodTomography(counts);
+      expect(norm(best)).toBeCloseTo(1);
+      // Nearby points on the sphere are no more likely
+      [-0.05, 0.05].forEach((delta) => {
+        const angle = Math.atan2(best.y, best.x) + delta;
+        const rho = Math.hypot(best.x, best.y);
+        const neighbor = {
+          x: rho * Math.cos(angle),
+          y: rho * Math.sin(angle),
+          z: best.z,
+        };
+        expect(logLikelihood(neighbor)).toBeLessThan(logLikelihood(best));
+      });
+    });
+  });
+
+  describe('bootstrapTomography', () => {
+    it('estimates the binomial variance of linear inversion', () => {
+      const counts: TomographyCounts = {
+        x: [500, 500],
+        y: [750, 250],
+        z: [900, 100],
+      };
+      const { mean, covariance } = bootstrapTomography(
+        counts,
+        400,
+        'linear',
+        createRng(7)
+      );
+      // Var(2 p0 - 1) = 4 p (1 - p) / N
+      expect(mean.z).toBeCloseTo(0.8, 1);
+      expect(covariance[0][0]).toBeCloseTo(1 / 1000, 3);
+      expect(covariance[2][2]).toBeCloseTo((4 * 0.9 * 0.1) / 1000, 3);
+      expect(Math.abs(covariance[0][2])).toBeLessThan(3e-4);
+    });
+
+    it('resamples large and lopsided counts with the binomial variance', () => {
+      const counts: TomographyCounts = {
+        x: [500_000, 500_000],
+        y: [999_990, 10],
+        z: [3, 7],
+      };
+      const { covariance } = bootstrapTomography(
+        counts,
+        2000,
+        'linear',
+        createRng(11)
+      );
+      const variance = (p: number, shots: number) => (4 * p * (1 - p)) / shots;
+      expect(covariance[0][0] / variance(0.5, 1e6)).toBeCloseTo(1, 0);
+      expect(covariance[1][1] / variance(1e-5, 1e6)).toBeCloseTo(1, 0);
+      expect(covariance[2][2] / variance(0.3, 10)).toBeCloseTo(1, 0);
+    });
+  });
+
+  describe('confidenceEllipsoid', () => {
+    it('scales the standard deviations by the chi-squared radius', () => {
+      const center = { x: 0.1, y: 0, z: 0.5 };
+      const { matrix, offset } = confidenceEllipsoid(
+        center,
+        [
+          [0.04, 0, 0],
+          [0, 0.01, 0],
+          [0, 0, 0.0001],
+        ],
+        0.95
+      );
+      // sqrt of the 95% quantile of chi^2 with 3 degrees of freedom
+      const k = Math.sqrt(7.8147);
+      expect(offset).toEqual(center);
+      expect(matrix[0][0]).toBeCloseTo(0.2 * k, 3);
+      expect(matrix[1][1]).toBeCloseTo(0.1 * k, 3);
+      expect(matrix[2][2]).toBeCloseTo(0.01 * k, 3);
+      expect(matrix[0][1]).toBeCloseTo(0);
+    });
+  });
+
+  describe('tomography', () => {
+    it('defaults to maximum likelihood', () => {
+      const result = tomography(unphysicalCounts);
+      expect(result.method).toBe('mle');
+      expect(result.physical).toBe(true);
+      expect(result.state.r).toBeCloseTo(1);
+      expect(result.ellipsoid).toBeUndefined();
+    });
+
+    it('flags unphysical linear estimates', () => {
+      const result = tomography(unphysicalCounts, { method: 'linear' });
+      expect(result.physical).toBe(false);
+      expect(result.state.r).toBeCloseTo(1);
+      expect(result.state.theta).toBeCloseTo(Math.acos(1 / Math.sqrt(3)));
+    });
+
+    it('adds a reproducible confidence ellipsoid when bootstrapping', () => {
+      const a = tomography(plusCounts, { bootstrap: 50, seed: 3 });
+      const b = tomography(plusCounts, { bootstrap: 50, seed: 3 });
+      expect(a.ellipsoid).toBeDefined();
+      expect(a.ellipsoid?.offset).toEqual(a.vector);
+      expect(a.covariance).toEqual(b.covariance);
+    });
+  });
+});
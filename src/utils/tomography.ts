@@ -0,0 +1,297 @@
+import type {
+  AffineBlochMap,
+  CartesianCoordinates,
+  TomographyCounts,
+  TomographyMethod,
+  TomographyOptions,
+  TomographyResult,
+} from '../types';
+import { quantumStateToSpherical } from './quantum-math';
+import { createRng } from './measurement';
+import { symmetricEigensystem } from './linear-algebra';
+
+type Basis = keyof TomographyCounts;
+const bases: Basis[] = ['x', 'y', 'z'];
+
+/**
+ * Outcome counts [n0, n1] of one bit from a bitstring histogram such as
+ * `{ "00": 480, "01": 20, ... }` (bit 0 is the rightmost character, as in
+ * Qiskit results)
+ *
+ * @param histogram - Counts keyed by measured bitstring
+ * @param bit - Classical bit to read
+ */
+export function histogramCounts(
+  histogram: Record<string, number>,
+  bit = 0
+): [number, number] {
+  const counts: [number, number] = [0, 0];
+  Object.entries(histogram).forEach(([key, count]) => {
+    const bits = key.replace(/\s/g, '');
+    const value = bits[bits.length - 1 - bit];
+    if (value === '0') counts[0] += count;
+    else if (value === '1') counts[1] += count;
+  });
+  return counts;
+}
+
+/**
+ * Expectation value (n0 - n1) / N of one basis (0 without shots)
+ */
+function expectation([n0, n1]: [number, number]): number {
+  const shots = n0 + n1;
+  return shots > 0 ? (n0 - n1) / shots : 0;
+}
+
+const norm = ({ x, y, z }: CartesianCoordinates) => Math.hypot(x, y, z);
+
+/**
+ * Linear inversion: the Bloch vector of measured expectation values.
+ * Unbiased, but can fall outside the Bloch ball for few shots.
+ */
+export function linearInversionTomography(
+  counts: TomographyCounts
+): CartesianCoordinates {
+  return {
+    x: expectation(counts.x),
+    y: expectation(counts.y),
+    z: expectation(counts.z),
+  };
+}
+
+/**
+ * Component maximizing n0 log(1 + r) + n1 log(1 - r) - lambda r^2,
+ * the stationary point of the constrained likelihood for one basis
+ */
+function constrainedComponent(
+  [n0, n1]: [number, number],
+  lambda: number
+): number {
+  let lo = -1;
+  let hi = 1;
+  for (let i = 0; i < 60; i++) {
+    const r = (lo + hi) / 2;
+    // Decreasing in r, so the root is bracketed
+    const slope = n0 / (1 + r) - n1 / (1 - r) - 2 * lambda * r;
+    if (slope > 0) lo = r;
+    else hi = r;
+  }
+  return (lo + hi) / 2;
+}
+
+/**
+ * Maximum-likelihood estimate over physical states (|r| <= 1).
+ * Inside the ball this is the linear inversion estimate; otherwise the
+ * optimum lies on the sphere and is found from the Lagrange condition
+ * by bisection on the multiplier.
+ */
+export function maximumLikelihoodTomography(
+  counts: TomographyCounts
+): CartesianCoordinates {
+  const linear = linearInversionTomography(counts);
+  if (norm(linear) <= 1) return linear;
+
+  const estimate = (lambda: number): CartesianCoordinates => ({
+    x: constrainedComponent(counts.x, lambda),
+    y: constrainedComponent(counts.y, lambda),
+    z: constrainedComponent(counts.z, lambda),
+  });
+
+  // |r(lambda)| decreases from |r_linear| > 1 towards 0
+  let lo = 0;
+  let hi = 1;
+  for (let i = 0; i < 200 && norm(estimate(hi)) > 1; i++) {
+    lo = hi;
+    hi *= 2;
+  }
+  for (let i = 0; i < 100; i++) {
+    const mid = (lo + hi) / 2;
+    if (norm(estimate(mid)) > 1) lo = mid;
+    else hi = mid;
+  }
+
+  const r = estimate(hi);
+  const length = norm(r) || 1;
+  return { x: r.x / length, y: r.y / length, z: r.z / length };
+}
+
+/**
+ * Error function (Abramowitz & Stegun 7.1.26, |error| < 1.5e-7)
+ */
+function erf(x: number): number {
+  const t = 1 / (1 + 0.3275911 * Math.abs(x));
+  const poly =
+    t *
+    (0.254829592 +
+      t *
+        (-0.284496736 +
+          t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  return Math.sign(x) * (1 - poly * Math.exp(-x * x));
+}
+
+/**
+ * Quantile of the chi-squared distribution with 3 degrees of freedom
+ */
+function chiSquared3Quantile(probability: number): number {
+  const cdf = (x: number) =>
+    erf(Math.sqrt(x / 2)) - Math.sqrt((2 * x) / Math.PI) * Math.exp(-x / 2);
+  let lo = 0;
+  let hi = 100;
+  for (let i = 0; i < 100; i++) {
+    const mid = (lo + hi) / 2;
+    if (cdf(mid) < probability) lo = mid;
+    else hi = mid;
+  }
+  return (lo + hi) / 2;
+}
+
+/**
+ * Ellipsoid containing `confidence` of a Gaussian with the given
+ * covariance: the image of the unit sphere under k * sqrt(covariance),
+ * with k^2 the chi-squared quantile for 3 degrees of freedom
+ *
+ * @param center - Ellipsoid center (the estimate)
+ * @param covariance - 3x3 covariance matrix of the estimate
+ * @param confidence - Probability mass inside the ellipsoid
+ * @returns Affine map for `BlochSphere`'s `confidenceEllipsoid`
+ */
+export function confidenceEllipsoid(
+  center: CartesianCoordinates,
+  covariance: number[][],
+  confidence = 0.95
+): AffineBlochMap {
+  const k = Math.sqrt(chiSquared3Quantile(confidence));
+  const { values, vectors } = symmetricEigensystem(covariance);
+  const matrix = [0, 1, 2].map((i) =>
+    [0, 1, 2].map((j) =>
+      values.reduce(
+        (sum, value, n) =>
+          sum +
+          k * Math.sqrt(Math.max(0, value)) * vectors[n][i] * vectors[n][j],
+        0
+      )
+    )
+  );
+  return { matrix, offset: center };
+}
+
+/** Above this expected count of the rarer outcome, draws are approximated */
+const NORMAL_APPROXIMATION_MEAN = 30;
+
+/**
+ * Binomial draw in time independent of the shot count (up to the
+ * threshold above): exact inversion of the distribution when the rarer
+ * outcome is expected few times, otherwise the normal approximation
+ */
+function binomial(shots: number, p: number, rng: () => number): number {
+  if (p <= 0) return 0;
+  if (p >= 1) return shots;
+  const q = Math.min(p, 1 - p);
+  let draw: number;
+
+  if (shots * q < NORMAL_APPROXIMATION_MEAN) {
+    // Walk up the cumulative distribution, with
+    // P(k + 1) / P(k) = (n - k) q / ((k + 1) (1 - q))
+    const ratio = q / (1 - q);
+    let probability = Math.pow(1 - q, shots);
+    let u = rng();
+    draw = 0;
+    while (u > probability && draw < shots) {
+      u -= probability;
+      probability *= ((shots - draw) * ratio) / (draw + 1);
+      draw++;
+    }
+  } else {
+    // Box-Muller standard normal
+    const z =
+      Math.sqrt(-2 * Math.log(1 - rng())) * Math.cos(2 * Math.PI * rng());
+    const mean = shots * q;
+    draw = Math.round(mean + z * Math.sqrt(mean * (1 - q)));
+    draw = Math.max(0, Math.min(shots, draw));
+  }
+  return q === p ? draw : shots - draw;
+}
+
+/**
+ * Bootstrap covariance of a tomography estimate: each basis is resampled
+ * from its observed outcome frequencies and the state re-estimated
+ *
+ * @param counts - Measured counts
+ * @param samples - Number of resamples
+ * @param method - Reconstruction method applied to each resample
+ * @param rng - Uniform random numbers in [0, 1)
+ * @returns Mean and covariance of the resampled Bloch vectors
+ */
+export function bootstrapTomography(
+  counts: TomographyCounts,
+  samples: number,
+  method: TomographyMethod = 'mle',
+  rng: () => number = Math.random
+): { mean: CartesianCoordinates; covariance: number[][] } {
+  const reconstruct =
+    method === 'linear'
+      ? linearInversionTomography
+      : maximumLikelihoodTomography;
+
+  const estimates: number[][] = [];
+  for (let s = 0; s < samples; s++) {
+    const resampled = {} as TomographyCounts;
+    bases.forEach((basis) => {
+      const [n0, n1] = counts[basis];
+      const shots = n0 + n1;
+      const draw = shots > 0 ? binomial(shots, n0 / shots, rng) : 0;
+      resampled[basis] = [draw, shots - draw];
+    });
+    const { x, y, z } = reconstruct(resampled);
+    estimates.push([x, y, z]);
+  }
+
+  const count = Math.max(1, estimates.length);
+  const mean = [0, 1, 2].map(
+    (i) => estimates.reduce((sum, e) => sum + e[i], 0) / count
+  );
+  const covariance = [0, 1, 2].map((i) =>
+    [0, 1, 2].map(
+      (j) =>
+        estimates.reduce(
+          (sum, e) => sum + (e[i] - mean[i]) * (e[j] - mean[j]),
+          0
+        ) / Math.max(1, estimates.length - 1)
+    )
+  );
+  return { mean: { x: mean[0], y: mean[1], z: mean[2] }, covariance };
+}
+
+/**
+ * Reconstruct a qubit state from X, Y and Z basis counts
+ *
+ * @param counts - Outcome counts per basis
+ * @param options - Method, bootstrap resamples, confidence level and seed
+ * @returns Estimate, with covariance and confidence ellipsoid when
+ * bootstrapping
+ */
+export function tomography(
+  counts: TomographyCounts,
+  options: TomographyOptions = {}
+): TomographyResult {
+  const { method = 'mle', bootstrap = 0, confidence = 0.95, seed } = options;
+  const vector =
+    method === 'linear'
+      ? linearInversionTomography(counts)
+      : maximumLikelihoodTomography(counts);
+
+  const result: TomographyResult = {
+    vector,
+    state: quantumStateToSpherical({ type: 'blochVector', vector }),
+    method,
+    physical: norm(vector) <= 1 + 1e-12,
+  };
+
+  if (bootstrap > 0) {
+    const rng = seed === undefined ? Math.random : createRng(seed);
+    const { covariance } = bootstrapTomography(counts, bootstrap, method, rng);
+    result.covariance = covariance;
+    result.ellipsoid = confidenceEllipsoid(vector, covariance, confidence);
+  }
+  return result;
+}
@@ -0,0 +1,187 @@
+import { describe, it, expect } from 'vitest';
+import {
+  appendTrajectoryPoint,
+  createTrajectoryBuffer,
+  trajectoryFade,
+} from './trajectory';
+import { commonStates } from './quantum-math';
+import type { SphericalCoordinates, TrajectoryBuffer } from '../types';
+
+describe('trajectory', () => {
+  describe('appendTrajectoryPoint', () => {
+    const options = { maxPoints: 3, minDistance: 0.01 };
+
+    it('appends to an empty trajectory', () => {
+      const result = appendTrajectoryPoint([], commonStates.zero, options);
+      expect(result).toEqual([commonStates.zero]);
+    });
+
+    it('skips points closer than minDistance', () => {
+      const points = [commonStates.zero];
+      const result = appendTrajectoryPoint(
+        points,
+        { theta: 0.001, phi: 0 },
+        options
+      );
+      expect(result).toBe(points);
+    });
+
+    it('drops the oldest points beyond maxPoints', () => {
+      let points = [commonStates.zero];
+      points = appendTrajectoryPoint(points, commonStates.plus, options);
+      points = appendTrajectoryPoint(points, commonStates.one, options);
+      points = appendTrajectoryPoint(points, commonStates.minus, options);
+      expect(points).toEqual([
+        commonStates.plus,
+        commonStates.one,
+        commonStates.minus,
+      ]);
+    });
+
+    it('treats radius changes as movement', () => {
+      const points = [{ theta: 0, phi: 0, r: 1 }];
+      const result = appendTrajectoryPoint(
+        points,
+        { theta: 0, phi: 0, r: 0.5 },
+        options
+      );
+      expect(result).toHaveLength(2);
+    });
+  });
+
+  describe('trajectoryFade', () => {
+    it('is opaque for the newest point', () => {
+      expect(trajectoryFade(9, 10)).toBe(1);
+    });
+
+    it('fades to minOpacity for the oldest point', () => {
+      expect(trajectoryFade(0, 10, 0.2)).toBeCloseTo(0.2);
+    });
+
+    it('increases with index', () => {
+      expect(trajectoryFade(3, 10)).toBeLessThan(trajectoryFade(4, 10));
+    });
+  });
+
+  describe('createTrajectoryBuffer', () => {
+    /** Points along the equator, `step` radians apart */
+    const equator = (count: number, step = 0.1): SphericalCoordinates[] =>
+      Array.from({ length: count }, (_, i) => ({
+        theta: Math.PI / 2,
+        phi: i * step,
+      }));
+
+    /** Drawn segments as [start, end] x coordinates */
+    const segmentsX = (buffer: TrajectoryBuffer) =>
+      Array.from({ length: buffer.count }, (_, slot) => [
+        buffer.positions[slot * 6],
+        buffer.positions[slot * 6 + 3],
+      ]);
+
+    it('stores consecutive points as segments', () => {
+      const buffer = createTrajectoryBuffer({ maxPoints: 10 });
+      buffer.append(equator(4));
+      expect(buffer.count).toBe(3);
+      expect(buffer.positions[0]).toBeCloseTo(1);
+      expect(buffer.positions[3]).toBeCloseTo(Math.cos(0.1));
+      expect(buffer.oldest).toBe(1);
+      expect(buffer.newest).toBe(4);
+    });
+
+    it('preallocates and overwrites the oldest segments', () => {
+      const buffer = createTrajectoryBuffer({ maxPoints: 4 });
+      const length = buffer.positions.length;
+      buffer.append(equator(10));
+      expect(buffer.positions.length).toBe(length);
+      expect(buffer.count).toBe(3);
+      // The three newest segments remain, from sample 7 to 10
+      expect(buffer.oldest).toBe(7);
+      const drawn = segmentsX(buffer).flat();
+      expect(Math.min(...drawn)).toBeCloseTo(Math.cos(0.9));
+    });
+
+    it('reports only the slots written since the last call', () => {
+      const buffer = createTrajectoryBuffer({ maxPoints: 100 });
+      buffer.append(equator(50));
+      expect(buffer.takeUpdates()).toEqual([[0, 49]]);
+      buffer.append([{ theta: Math.PI / 2, phi: 5 }]);
+      expect(buffer.takeUpdates()).toEqual([[49, 1]]);
+      expect(buffer.takeUpdates()).toEqual([]);
+    });
+
+    it('bounds the pending updates when nothing takes them', () => {
+      const buffer = createTrajectoryBuffer({ maxPoints: 10 });
+      buffer.append(equator(5));
+      buffer.takeUpdates();
+      // With a tail, every append writes a ring slot and the live slot,
+      // which no longer join up once the ring wraps
+      for (let i = 0; i < 1000; i++) {
+        buffer.append([{ theta: Math.PI / 2, phi: i / 10 }]);
+        buffer.setTail({ theta: Math.PI / 2, phi: i / 10 + 0.05 });
+      }
+      expect(buffer.takeUpdates()).toEqual([[0, buffer.slots]]);
+    });
+
+    it('skips points closer than minDistance', () => {
+      const buffer = createTrajectoryBuffer({
+        maxPoints: 10,
+        minDistance: 0.5,
+      });
+      buffer.append(equator(10));
+      expect(buffer.count).toBe(1);
+    });
+
+    it('decimates densely sampled paths to the tolerance', () => {
+      const buffer = createTrajectoryBuffer({
+        maxPoints: 1000,
+        tolerance: 1e-3,
+      });
+      const meridian = Array.from({ length: 200 }, (_, i) => ({
+        theta: (i / 199) * (Math.PI / 2),
+        phi: 0,
+      }));
+      buffer.append(meridian);
+      // A quarter circle needs ~20 chords to stay within 1e-3
+      expect(buffer.count).toBeLessThan(40);
+      expect(buffer.count).toBeGreaterThan(10);
+
+      // Every dropped point lies close to the drawn path, which still ends
+      // at the newest point
+      const last = buffer.count - 1;
+      expect(buffer.positions[last * 6 + 3]).toBeCloseTo(1);
+      expect(buffer.positions[last * 6 + 5]).toBeCloseTo(0);
+    });
+
+    it('keeps every point of a curve bending beyond the tolerance', () => {
+      const buffer = createTrajectoryBuffer({
+        maxPoints: 100,
+        tolerance: 1e-4,
+      });
+      buffer.append(equator(30, 0.2));
+      expect(buffer.count).toBe(29);
+    });
+
+    it('draws a provisional tail after the path', () => {
+      const buffer = createTrajectoryBuffer({ maxPoints: 10 });
+      buffer.append(equator(3));
+      buffer.setTail(commonStates.plusI);
+      expect(buffer.count).toBe(3);
+      expect(buffer.positions[2 * 6 + 4]).toBeCloseTo(1);
+
+      buffer.append([commonStates.zero]);
+      buffer.setTail(null);
+      expect(buffer.count).toBe(3);
+      expect(buffer.positions[2 * 6 + 5]).toBeCloseTo(1);
+    });
+
+    it('clears all points', () => {
+      const buffer = createTrajectoryBuffer({ maxPoints: 10 });
+      buffer.append(equator(5));
+      buffer.clear();
+      expect(buffer.count).toBe(0);
+      buffer.append(equator(2));
+      expect(buffer.count).toBe(1);
+      expect(buffer.oldest).toBe(1);
+    });
+  });
+});
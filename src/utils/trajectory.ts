@@ -0,0 +1,236 @@
+import type {
+  SphericalCoordinates,
+  TrajectoryBuffer,
+  TrajectoryBufferOptions,
+  TrajectoryRecordOptions,
+} from '../types';
+import { sphericalToCartesian } from './quantum-math';
+
+/**
+ * Append a point to a recorded trajectory.
+ * Points closer than `minDistance` to the last point are skipped, and the
+ * result holds at most `maxPoints` entries. Returns the original array
+ * when nothing was appended.
+ */
+export function appendTrajectoryPoint(
+  points: SphericalCoordinates[],
+  point: SphericalCoordinates,
+  { maxPoints, minDistance }: TrajectoryRecordOptions
+): SphericalCoordinates[] {
+  const last = points[points.length - 1];
+  if (last) {
+    const a = sphericalToCartesian(last);
+    const b = sphericalToCartesian(point);
+    const distance = Math.sqrt(
+      (a.x - b.x) ** 2 + (a.y - b.y) ** 2 + (a.z - b.z) ** 2
+    );
+    if (distance < minDistance) return points;
+  }
+
+  const next = [...points, point];
+  return next.length > maxPoints ? next.slice(next.length - maxPoints) : next;
+}
+
+/**
+ * Age-based opacity for vertex `index` of `count`: the newest point is
+ * fully opaque and the oldest fades to `minOpacity`.
+ */
+export function trajectoryFade(
+  index: number,
+  count: number,
+  minOpacity = 0.05
+): number {
+  if (count <= 1) return 1;
+  return minOpacity + (1 - minOpacity) * (index / (count - 1));
+}
+
+type Vec3 = [number, number, number];
+
+interface Vertex {
+  position: Vec3;
+  /** Sample number, used to fade the curve by age */
+  sample: number;
+}
+
+/** Most points a decimated segment may stand for */
+const MAX_DECIMATION_WINDOW = 128;
+
+/** Pending update ranges beyond which the whole buffer is reported */
+const MAX_UPDATE_RANGES = 8;
+
+function distance(a: Vec3, b: Vec3): number {
+  return Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+}
+
+/** Distance from `p` to the segment from `a` to `b` */
+function distanceToSegment(p: Vec3, a: Vec3, b: Vec3): number {
+  const ab = [b[0] - a[0], b[1] - a[1], b[2] - a[2]];
+  const ap = [p[0] - a[0], p[1] - a[1], p[2] - a[2]];
+  const lengthSq = ab[0] ** 2 + ab[1] ** 2 + ab[2] ** 2;
+  const t =
+    lengthSq > 0
+      ? Math.max(
+          0,
+          Math.min(
+            1,
+            (ap[0] * ab[0] + ap[1] * ab[1] + ap[2] * ab[2]) / lengthSq
+          )
+        )
+      : 0;
+  return distance(p, [a[0] + t * ab[0], a[1] + t * ab[1], a[2] + t * ab[2]]);
+}
+
+/**
+ * Create a ring buffer for long trajectories. Points are stored as line
+ * segments in preallocated arrays; appending writes only the new segments
+ * and, once `maxPoints` is reached, overwrites the oldest.
+ *
+ * With a `tolerance`, points are decimated as they arrive: a vertex is
+ * only kept where the path leaves the straight line from the previous
+ * vertex by more than the tolerance. The newest point is always drawn.
+ *
+ * @param options - Capacity, minimum spacing and decimation tolerance
+ * @returns Empty trajectory buffer
+ */
+export function createTrajectoryBuffer({
+  maxPoints,
+  minDistance = 0,
+  tolerance = 0,
+}: TrajectoryBufferOptions): TrajectoryBuffer {
+  // Ring of finished segments, followed by up to two live ones: the
+  // segment still being decimated and the provisional tail
+  const capacity = Math.max(1, Math.floor(maxPoints) - 1);
+  const slots = capacity + 2;
+  const positions = new Float32Array(slots * 6);
+  const samples = new Float32Array(slots * 2);
+
+  let head = 0;
+  let size = 0;
+  let live = 0;
+  let sampleCount = 0;
+  // Last kept vertex, and the points received since (the last one is the
+  // current end of the path)
+  let anchor: Vertex | null = null;
+  let pending: Vertex[] = [];
+  let tail: Vec3 | null = null;
+  let updates: [number, number][] = [];
+
+  const markUpdated = (slot: number) => {
+    const last = updates[updates.length - 1];
+    if (last && slot >= last[0] && slot <= last[0] + last[1]) {
+      last[1] = Math.max(last[1], slot - last[0] + 1);
+    } else if (updates.length < MAX_UPDATE_RANGES) {
+      updates.push([slot, 1]);
+    } else {
+      // Nobody is taking the updates (or too many to be worth tracking)
+      updates = [[0, slots]];
+    }
+  };
+
+  const write = (slot: number, from: Vertex, to: Vertex) => {
+    positions.set(from.position, slot * 6);
+    positions.set(to.position, slot * 6 + 3);
+    samples[slot * 2] = from.sample;
+    samples[slot * 2 + 1] = to.sample;
+    markUpdated(slot);
+  };
+
+  const commit = (from: Vertex, to: Vertex) => {
+    write(head, from, to);
+    head = (head + 1) % capacity;
+    size = Math.min(capacity, size + 1);
+  };
+
+  // Live segments go right after the ring's filled slots
+  const writeLive = () => {
+    const end = pending[pending.length - 1] ?? anchor;
+    const segments: [Vertex, Vertex][] = [];
+    if (anchor && pending.length > 0)
+      segments.push([anchor, pending[pending.length - 1]]);
+    if (end && tail && distance(end.position, tail) > 0) {
+      segments.push([end, { position: tail, sample: end.sample }]);
+    }
+    const first = size < capacity ? size : capacity;
+    segments.forEach(([from, to], i) => write(first + i, from, to));
+    live = segments.length;
+  };
+
+  const push = (point: SphericalCoordinates) => {
+    const { x, y, z } = sphericalToCartesian(point);
+    const position: Vec3 = [x, y, z];
+    const start = anchor;
+    const end = pending[pending.length - 1] ?? start;
+    if (end && distance(end.position, position) < minDistance) return;
+
+    const vertex: Vertex = { position, sample: ++sampleCount };
+    if (!start || !end) {
+      anchor = vertex;
+      return;
+    }
+    if (tolerance <= 0) {
+      commit(start, vertex);
+      anchor = vertex;
+      return;
+    }
+
+    // Keep the current end as a vertex once the straight line to the new
+    // point no longer passes close to every point it would replace
+    const straight =
+      pending.length < MAX_DECIMATION_WINDOW &&
+      pending.every(
+        (p) =>
+          distanceToSegment(p.position, start.position, position) <= tolerance
+      );
+    if (straight) {
+      pending.push(vertex);
+    } else {
+      commit(start, end);
+      anchor = end;
+      pending = [vertex];
+    }
+  };
+
+  return {
+    slots,
+    positions,
+    samples,
+    get count() {
+      return size + live;
+    },
+    get oldest() {
+      if (size === 0) return anchor?.sample ?? 0;
+      return samples[(size < capacity ? 0 : head) * 2];
+    },
+    get newest() {
+      return sampleCount;
+    },
+    append: (points) => {
+      points.forEach(push);
+      writeLive();
+    },
+    setTail: (point) => {
+      if (point) {
+        const { x, y, z } = sphericalToCartesian(point);
+        tail = [x, y, z];
+      } else {
+        tail = null;
+      }
+      writeLive();
+    },
+    clear: () => {
+      head = 0;
+      size = 0;
+      live = 0;
+      sampleCount = 0;
+      anchor = null;
+      pending = [];
+      tail = null;
+      updates = [];
+    },
+    takeUpdates: () => {
+      const taken = updates;
+      updates = [];
+      return taken;
+    },
+  };
+}
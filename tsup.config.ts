@@ -1,20 +1,31 @@
-import { defineConfig } from 'tsup';
+import { defineConfig, type Options } from 'tsup';
 
-export default defineConfig({
-  entry: ['src/index.ts'],
+const shared: Options = {
   format: ['esm', 'cjs'],
   dts: true,
   splitting: false,
   sourcemap: true,
-  clean: true,
   treeshake: true,
   external: ['react', 'react-dom', 'three'],
-  esbuildOptions(options) {
-    // Preserve 'use client' directive for Next.js compatibility
-    options.banner = {
-      js: '"use client";',
-    };
-  },
   platform: 'browser',
   target: 'es2020',
-});
+};
+
+export default defineConfig([
+  {
+    ...shared,
+    entry: ['src/index.ts'],
+    clean: true,
+    esbuildOptions(options) {
+      // Preserve 'use client' directive for Next.js compatibility
+      options.banner = {
+        js: '"use client";',
+      };
+    },
+  },
+  {
+    // WebGL-free SVG renderer, usable from server components
+    ...shared,
+    entry: ['src/svg.ts'],
+  },
+]);